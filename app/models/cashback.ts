@@ -0,0 +1,197 @@
+export enum CashbackMode {
+    FIXED = "FIXED",
+    PERCENTAGE = "PERCENTAGE",
+}
+
+export type CashbackModeKey = keyof typeof CashbackMode;
+
+export const CASHBACK_MODES = Object.values(CashbackMode);
+
+export const CASHBACK_MODE_LABELS: Record<CashbackModeKey, string> = {
+    FIXED: "Montant fixe",
+    PERCENTAGE: "Pourcentage de la commande",
+};
+
+export function isCashbackMode(value: unknown): value is CashbackModeKey {
+    return typeof value === "string" && (CASHBACK_MODES as string[]).includes(value);
+}
+
+/**
+ * Conditions de cashback telles que figées sur un code (`Code.cashbackSnapshot`) :
+ * `value` est un montant en mode FIXED, un taux entre 0 et 1 en mode PERCENTAGE.
+ * Les plafonds ne concernent que le mode PERCENTAGE.
+ */
+export type CashbackTerms = {
+    mode: CashbackModeKey;
+    value: number;
+    minAmount: number | null;
+    maxAmount: number | null;
+};
+
+type CashbackSettingsLike = {
+    cashbackMode: CashbackModeKey;
+    cashbackAmount: number;
+    cashbackPercentage: number;
+    cashbackMinAmount: number | null;
+    cashbackMaxAmount: number | null;
+};
+
+export function getCashbackTerms(settings: CashbackSettingsLike): CashbackTerms {
+    return settings.cashbackMode === CashbackMode.PERCENTAGE
+        ? {
+            mode: CashbackMode.PERCENTAGE,
+            value: settings.cashbackPercentage,
+            minAmount: settings.cashbackMinAmount,
+            maxAmount: settings.cashbackMaxAmount,
+        }
+        : { mode: CashbackMode.FIXED, value: settings.cashbackAmount, minAmount: null, maxAmount: null };
+}
+
+export function areCashbackTermsEqual(a: CashbackTerms, b: CashbackTerms) {
+    const sameAmount = (x: number | null, y: number | null) =>
+        x === null || y === null ? x === y : Math.abs(x - y) < 0.0001;
+
+    return (
+        a.mode === b.mode &&
+        sameAmount(a.value, b.value) &&
+        sameAmount(a.minAmount, b.minAmount) &&
+        sameAmount(a.maxAmount, b.maxAmount)
+    );
+}
+
+/** Cashback en pourcentage du sous-total, borné par les plafonds et arrondi au centime. */
+export function computePercentageCashback(subtotal: number, { value, minAmount, maxAmount }: CashbackTerms) {
+    let amount = Math.max(subtotal, 0) * value;
+
+    if (minAmount !== null) {
+        amount = Math.max(amount, minAmount);
+    }
+
+    if (maxAmount !== null) {
+        amount = Math.min(amount, maxAmount);
+    }
+
+    return Math.round(amount * 100) / 100;
+}
+
+const percentFormatter = new Intl.NumberFormat("fr-FR", {
+    style: "percent",
+    maximumFractionDigits: 2,
+});
+
+/** "20,00 €" ou "10 % de la commande (min. 5,00 €, max. 50,00 €)". */
+export function formatCashbackTerms(terms: CashbackTerms, formatCurrency: (amount: number) => string) {
+    if (terms.mode === CashbackMode.FIXED) {
+        return formatCurrency(terms.value);
+    }
+
+    const caps = [
+        terms.minAmount !== null ? `min. ${formatCurrency(terms.minAmount)}` : null,
+        terms.maxAmount !== null ? `max. ${formatCurrency(terms.maxAmount)}` : null,
+    ].filter(Boolean);
+
+    return `${percentFormatter.format(terms.value)} de la commande${caps.length ? ` (${caps.join(", ")})` : ""}`;
+}
+
+/** Palier de cashback : s'applique à partir du `minReferrals`-ième parrainage réussi du parrain. */
+export type CashbackTier = {
+    minReferrals: number;
+    amount: number;
+};
+
+export type ResolvedCashbackTier = CashbackTier & {
+    /** Dernier rang couvert par le palier, null pour le dernier palier (ouvert). */
+    maxReferrals: number | null;
+};
+
+export function sortCashbackTiers(tiers: CashbackTier[]) {
+    return [...tiers].sort((a, b) => a.minReferrals - b.minReferrals);
+}
+
+/** Paliers triés, chacun complété par le dernier rang qu'il couvre. */
+export function resolveCashbackTierRanges(tiers: CashbackTier[]): ResolvedCashbackTier[] {
+    const sorted = sortCashbackTiers(tiers);
+
+    return sorted.map((tier, index) => {
+        const nextTier = sorted[index + 1];
+        return {
+            ...tier,
+            maxReferrals: nextTier ? nextTier.minReferrals - 1 : null,
+        };
+    });
+}
+
+/**
+ * Retourne le palier applicable au `referralRank`-ième parrainage réussi,
+ * ou null si aucun palier ne le couvre (le cashback de base s'applique alors).
+ */
+export function resolveCashbackTier(tiers: CashbackTier[], referralRank: number): ResolvedCashbackTier | null {
+    return (
+        resolveCashbackTierRanges(tiers).find(
+            (tier) => referralRank >= tier.minReferrals && (tier.maxReferrals === null || referralRank <= tier.maxReferrals),
+        ) ?? null
+    );
+}
+
+/** "1–2 parrainages", "3 parrainages" ou "6+ parrainages". */
+export function formatCashbackTierRange(minReferrals: number, maxReferrals: number | null) {
+    if (maxReferrals === null) {
+        return `${minReferrals}+ parrainages`;
+    }
+
+    if (maxReferrals === minReferrals) {
+        return `${minReferrals} parrainage${minReferrals > 1 ? "s" : ""}`;
+    }
+
+    return `${minReferrals}–${maxReferrals} parrainages`;
+}
+
+/** Format texte éditable des paliers : une ligne "rang: montant" par palier. */
+export function formatCashbackTiersInput(tiers: CashbackTier[]) {
+    return sortCashbackTiers(tiers)
+        .map((tier) => `${tier.minReferrals}: ${tier.amount}`)
+        .join("\n");
+}
+
+export type RewardTierInfo = {
+    referralRank: number | null;
+    tierMinReferrals: number | null;
+    tierMaxReferrals: number | null;
+};
+
+/** Explique le montant d'une récompense, ex. "Palier 3–5 parrainages (4e parrainage réussi)". */
+export function describeRewardTier({ referralRank, tierMinReferrals, tierMaxReferrals }: RewardTierInfo) {
+    if (referralRank === null) {
+        return null;
+    }
+
+    const rankLabel = `${referralRank === 1 ? "1er" : `${referralRank}e`} parrainage réussi`;
+
+    if (tierMinReferrals === null) {
+        return `Cashback de base (${rankLabel})`;
+    }
+
+    return `Palier ${formatCashbackTierRange(tierMinReferrals, tierMaxReferrals)} (${rankLabel})`;
+}
+
+export type RewardCashbackInfo = RewardTierInfo & {
+    amount: number;
+    orderSubtotal: number | null;
+    cashbackPercentage: number | null;
+};
+
+/**
+ * Explique le montant d'une récompense : pourcentage de la commande du filleul
+ * (ex. "10 % de 250,00 €, plafonné") ou palier de cashback.
+ */
+export function describeRewardCashback(reward: RewardCashbackInfo, formatCurrency: (amount: number) => string) {
+    if (reward.cashbackPercentage === null || reward.orderSubtotal === null) {
+        return describeRewardTier(reward);
+    }
+
+    const rawAmount = Math.round(reward.orderSubtotal * reward.cashbackPercentage * 100) / 100;
+    const capLabel =
+        Math.abs(rawAmount - reward.amount) < 0.005 ? "" : reward.amount > rawAmount ? ", minimum appliqué" : ", plafonné";
+
+    return `${percentFormatter.format(reward.cashbackPercentage)} de ${formatCurrency(reward.orderSubtotal)}${capLabel}`;
+}
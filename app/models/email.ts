@@ -2,6 +2,8 @@ export enum EmailTemplateType {
     CODE_PROMO = "CODE_PROMO",
     CASHBACK_CONFIRMATION = "CASHBACK_CONFIRMATION",
     MANUAL_REFERRER_WELCOME = "MANUAL_REFERRER_WELCOME",
+    GIFT_CARD_REWARD = "GIFT_CARD_REWARD",
+    CODE_EXPIRY_REMINDER = "CODE_EXPIRY_REMINDER",
 }
 
 export enum EmailStatus {
@@ -20,9 +22,11 @@ export type EmailTemplateVariable =
     | "workshopTitle"
     | "workshopQuantity"
     | "expiresAt"
+    | "daysUntilExpiry"
     | "discountPercentage"
     | "cashbackAmount"
     | "shopUrl"
     | "refereeEmail"
+    | "giftCardCode"
     | "logoUrl"
     | "logoAlt";
\ No newline at end of file
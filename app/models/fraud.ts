@@ -0,0 +1,36 @@
+export enum FraudSignalType {
+    SAME_CUSTOMER = "SAME_CUSTOMER",
+    SAME_EMAIL = "SAME_EMAIL",
+    SAME_PHONE = "SAME_PHONE",
+    SAME_SHIPPING_ADDRESS = "SAME_SHIPPING_ADDRESS",
+    SAME_BILLING_ADDRESS = "SAME_BILLING_ADDRESS",
+}
+
+export type FraudSignalTypeKey = keyof typeof FraudSignalType;
+
+export const FRAUD_SIGNAL_LABELS: Record<FraudSignalTypeKey, string> = {
+    SAME_CUSTOMER: "Même client Shopify que le parrain",
+    SAME_EMAIL: "Même email que le parrain",
+    SAME_PHONE: "Même téléphone que le parrain",
+    SAME_SHIPPING_ADDRESS: "Même adresse de livraison que le parrain",
+    SAME_BILLING_ADDRESS: "Même adresse de facturation que le parrain",
+};
+
+/** Poids de chaque signal dans le score de fraude d'une récompense. */
+export const FRAUD_SIGNAL_SCORES: Record<FraudSignalTypeKey, number> = {
+    SAME_CUSTOMER: 100,
+    SAME_EMAIL: 80,
+    SAME_PHONE: 60,
+    SAME_SHIPPING_ADDRESS: 50,
+    SAME_BILLING_ADDRESS: 40,
+};
+
+/**
+ * Score à partir duquel la récompense est bloquée (ON_HOLD) en attendant une vérification manuelle.
+ * Une adresse de facturation commune ne suffit pas seule (foyers, entreprises).
+ */
+export const FRAUD_HOLD_THRESHOLD = 50;
+
+export function isFraudScoreSuspicious(score: number) {
+    return score >= FRAUD_HOLD_THRESHOLD;
+}
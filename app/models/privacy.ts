@@ -0,0 +1,17 @@
+/** Demande RGPD reçue via les webhooks de conformité Shopify. */
+export enum PrivacyRequestTopic {
+    CUSTOMER_DATA_REQUEST = "CUSTOMER_DATA_REQUEST",
+    CUSTOMER_REDACT = "CUSTOMER_REDACT",
+    SHOP_REDACT = "SHOP_REDACT",
+}
+
+export type PrivacyRequestTopicKey = keyof typeof PrivacyRequestTopic;
+
+export const PRIVACY_REQUEST_TOPIC_LABELS: Record<PrivacyRequestTopicKey, string> = {
+    CUSTOMER_DATA_REQUEST: "Demande d'accès aux données",
+    CUSTOMER_REDACT: "Effacement des données d'un client",
+    SHOP_REDACT: "Effacement des données de la boutique",
+};
+
+/** Valeur qui remplace les données personnelles effacées dont le champ est obligatoire. */
+export const REDACTED_PLACEHOLDER = "[anonymisé]";
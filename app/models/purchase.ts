@@ -0,0 +1,67 @@
+export enum WorkshopCodeMode {
+    SINGLE_CODE = "SINGLE_CODE",
+    PER_WORKSHOP = "PER_WORKSHOP",
+}
+
+export type WorkshopCodeModeKey = keyof typeof WorkshopCodeMode;
+
+export const WORKSHOP_CODE_MODES = Object.values(WorkshopCodeMode);
+
+export const WORKSHOP_CODE_MODE_LABELS: Record<WorkshopCodeModeKey, string> = {
+    SINGLE_CODE: "Un code par parrain, couvrant tous les workshops achetés",
+    PER_WORKSHOP: "Un code par workshop acheté",
+};
+
+export function isWorkshopCodeMode(value: unknown): value is WorkshopCodeModeKey {
+    return typeof value === "string" && (WORKSHOP_CODE_MODES as string[]).includes(value);
+}
+
+export enum CodeReusePolicy {
+    KEEP_EXISTING = "KEEP_EXISTING",
+    NEW_CODE_PER_PURCHASE = "NEW_CODE_PER_PURCHASE",
+    EXTEND_EXISTING = "EXTEND_EXISTING",
+}
+
+export type CodeReusePolicyKey = keyof typeof CodeReusePolicy;
+
+export const CODE_REUSE_POLICIES = Object.values(CodeReusePolicy);
+
+export const CODE_REUSE_POLICY_LABELS: Record<CodeReusePolicyKey, string> = {
+    KEEP_EXISTING: "Conserver le code existant tel quel (un code par parrain)",
+    NEW_CODE_PER_PURCHASE: "Générer un nouveau code à chaque achat",
+    EXTEND_EXISTING: "Prolonger la validité du code existant",
+};
+
+export function isCodeReusePolicy(value: unknown): value is CodeReusePolicyKey {
+    return typeof value === "string" && (CODE_REUSE_POLICIES as string[]).includes(value);
+}
+
+/** Effet d'un achat sur le code de parrainage de l'acheteur. */
+export enum PurchaseCodeAction {
+    CREATED = "CREATED",
+    REUSED = "REUSED",
+    EXTENDED = "EXTENDED",
+}
+
+export type PurchaseCodeActionKey = keyof typeof PurchaseCodeAction;
+
+export const PURCHASE_CODE_ACTION_LABELS: Record<PurchaseCodeActionKey, string> = {
+    CREATED: "Code créé",
+    REUSED: "Code existant conservé",
+    EXTENDED: "Validité du code prolongée",
+};
+
+/** Motif pour lequel une commande payée n'a pas donné de code de parrainage à l'acheteur. */
+export enum CodeGenerationSkipReason {
+    NO_QUALIFYING_PRODUCT = "NO_QUALIFYING_PRODUCT",
+    BELOW_MINIMUM_ORDER_AMOUNT = "BELOW_MINIMUM_ORDER_AMOUNT",
+    ELIGIBILITY_CHECK_FAILED = "ELIGIBILITY_CHECK_FAILED",
+}
+
+export type CodeGenerationSkipReasonKey = keyof typeof CodeGenerationSkipReason;
+
+export const CODE_GENERATION_SKIP_REASON_LABELS: Record<CodeGenerationSkipReasonKey, string> = {
+    NO_QUALIFYING_PRODUCT: "Aucun produit éligible",
+    BELOW_MINIMUM_ORDER_AMOUNT: "Montant de commande insuffisant",
+    ELIGIBILITY_CHECK_FAILED: "Éligibilité des produits non vérifiable",
+};
@@ -0,0 +1,9 @@
+export enum ReferralRejectionReason {
+    RETURNING_CUSTOMER = "RETURNING_CUSTOMER",
+}
+
+export type ReferralRejectionReasonKey = keyof typeof ReferralRejectionReason;
+
+export const REFERRAL_REJECTION_REASON_LABELS: Record<ReferralRejectionReasonKey, string> = {
+    RETURNING_CUSTOMER: "Client déjà existant",
+};
@@ -0,0 +1,116 @@
+export enum RewardStatus {
+    PENDING = "PENDING",
+    APPROVED = "APPROVED",
+    ON_HOLD = "ON_HOLD",
+    PAID = "PAID",
+    FAILED = "FAILED",
+    CANCELLED = "CANCELLED",
+}
+
+export enum PayoutMethod {
+    ORDER_REFUND = "ORDER_REFUND",
+    STORE_CREDIT = "STORE_CREDIT",
+    GIFT_CARD = "GIFT_CARD",
+    BANK_TRANSFER = "BANK_TRANSFER",
+}
+
+export type RewardStatusKey = keyof typeof RewardStatus;
+export type PayoutMethodKey = keyof typeof PayoutMethod;
+
+export const PAYOUT_METHODS = Object.values(PayoutMethod);
+
+export const PAYOUT_METHOD_LABELS: Record<PayoutMethodKey, string> = {
+    ORDER_REFUND: "Refund de commande",
+    STORE_CREDIT: "Crédit boutique",
+    GIFT_CARD: "Carte cadeau",
+    BANK_TRANSFER: "Virement bancaire",
+};
+
+export const PAYOUT_METHOD_DESCRIPTIONS: Record<PayoutMethodKey, string> = {
+    ORDER_REFUND: "Rembourse partiellement une commande du parrain.",
+    STORE_CREDIT: "Crédite le compte store credit Shopify du parrain, sans commande à rembourser.",
+    GIFT_CARD: "Crée une carte cadeau Shopify et envoie son code au parrain par email.",
+    BANK_TRANSFER: "Virement SEPA sur l'IBAN du parrain, exporté par lot depuis la page Versements.",
+};
+
+/** Seul le refund de commande nécessite de choisir la commande à rembourser. */
+export function payoutMethodRequiresOrder(method: PayoutMethodKey) {
+    return method === PayoutMethod.ORDER_REFUND;
+}
+
+/** Le virement bancaire est versé par lot SEPA, les autres modes immédiatement. */
+export function isDirectPayoutMethod(method: PayoutMethodKey) {
+    return method !== PayoutMethod.BANK_TRANSFER;
+}
+
+export type RewardStatusTone = "success" | "attention" | "info" | "warning" | "critical" | undefined;
+
+export const REWARD_STATUS_LABELS: Record<RewardStatusKey, string> = {
+    PENDING: "En attente",
+    APPROVED: "Approuvée",
+    ON_HOLD: "Bloquée",
+    PAID: "Payée",
+    FAILED: "Erreur",
+    CANCELLED: "Annulée",
+};
+
+export const REWARD_STATUS_TONES: Record<RewardStatusKey, RewardStatusTone> = {
+    PENDING: "attention",
+    APPROVED: "info",
+    ON_HOLD: "warning",
+    PAID: "success",
+    FAILED: "critical",
+    CANCELLED: undefined,
+};
+
+/**
+ * Transitions autorisées entre statuts de récompense.
+ * PAID et CANCELLED sont des états finaux.
+ */
+export const REWARD_TRANSITIONS: Record<RewardStatusKey, RewardStatusKey[]> = {
+    PENDING: ["APPROVED", "ON_HOLD", "CANCELLED"],
+    ON_HOLD: ["PENDING", "APPROVED", "CANCELLED"],
+    APPROVED: ["PAID", "FAILED", "ON_HOLD", "CANCELLED"],
+    FAILED: ["APPROVED", "ON_HOLD", "CANCELLED"],
+    PAID: [],
+    CANCELLED: [],
+};
+
+export type PayoutOutcome = "PAID" | "FAILED" | "SKIPPED" | "NOT_PROCESSED";
+
+export const PAYOUT_OUTCOME_LABELS: Record<PayoutOutcome, string> = {
+    PAID: "Payée",
+    FAILED: "Erreur",
+    SKIPPED: "Ignorée",
+    NOT_PROCESSED: "Non traitée",
+};
+
+export const PAYOUT_OUTCOME_TONES: Record<PayoutOutcome, RewardStatusTone> = {
+    PAID: "success",
+    FAILED: "critical",
+    SKIPPED: "warning",
+    NOT_PROCESSED: undefined,
+};
+
+/** Statuts à partir desquels un paiement peut être déclenché. */
+export const PAYABLE_REWARD_STATUSES: RewardStatusKey[] = ["PENDING", "APPROVED", "FAILED"];
+
+/**
+ * Une récompense n'est payable qu'une fois la période de rétention écoulée.
+ */
+export function isRewardInHoldPeriod(payableAt: Date | string | null | undefined, now = new Date()) {
+    if (!payableAt) return false;
+    return new Date(payableAt).getTime() > now.getTime();
+}
+
+export function canTransitionReward(from: RewardStatusKey, to: RewardStatusKey) {
+    return REWARD_TRANSITIONS[from].includes(to);
+}
+
+export function isRewardStatus(value: unknown): value is RewardStatusKey {
+    return typeof value === "string" && value in RewardStatus;
+}
+
+export function isPayoutMethod(value: unknown): value is PayoutMethodKey {
+    return typeof value === "string" && value in PayoutMethod;
+}
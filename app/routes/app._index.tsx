@@ -1,17 +1,25 @@
-import type { LoaderFunctionArgs } from "@remix-run/node";
-import { json } from "@remix-run/node";
-import { useLoaderData } from "@remix-run/react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useLoaderData, useNavigation } from "@remix-run/react";
 import {
   Page,
   Layout,
   Card,
   InlineGrid,
+  InlineStack,
   BlockStack,
   Text,
   IndexTable,
   Badge,
+  Banner,
+  Button,
 } from "@shopify/polaris";
 import prisma from "app/db.server";
+import {
+  dismissDiscountResync,
+  getDiscountResyncOffer,
+  resyncDiscountsAfterReinstall,
+} from "app/services/installation.server";
 import { listReferrersWithStats } from "app/services/referrers.server";
 import { getReferralStats, listRecentReferrals } from "app/services/referrals.server";
 import { getRewardStats } from "app/services/rewards.server";
@@ -60,19 +68,27 @@ type LoaderData = {
     createdAt: string;
   }>;
   hasCustomerSegments: boolean;
+  /** Proposée après une réinstallation de l'app : recréer les discounts Shopify des codes encore valides. */
+  discountResyncOffer: { reinstalledAt: string | null; codeCount: number } | null;
+  flash: { type: "success" | "error"; message: string } | null;
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const successMessage = url.searchParams.get("success");
+  const errorMessage = url.searchParams.get("error");
 
-  const [referrerResult, recentReferralsRaw, rewardStats, referralStats, totalReferrers, settings] =
+  const [referrerResult, recentReferralsRaw, rewardStats, referralStats, totalReferrers, settings, resyncOffer] =
     await Promise.all([
-      listReferrersWithStats({ limit: 10 }),
-      listRecentReferrals(10),
-      getRewardStats(),
-      getReferralStats(),
-      prisma.referrer.count(),
-      getReferralSettings(),
+      listReferrersWithStats(session.shop, { limit: 10 }),
+      listRecentReferrals(session.shop, 10),
+      getRewardStats(session.shop),
+      getReferralStats(session.shop),
+      prisma.referrer.count({ where: { shop: session.shop } }),
+      getReferralSettings(session.shop),
+      getDiscountResyncOffer(session.shop),
     ]);
 
   const referrers = referrerResult.referrers.map((summary) => ({
@@ -107,6 +123,12 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   );
   const hasCustomerSegments = validSegmentIds.length > 0;
 
+  const flash = successMessage
+    ? { type: "success" as const, message: successMessage }
+    : errorMessage
+      ? { type: "error" as const, message: errorMessage }
+      : null;
+
   return json<LoaderData>({
     metrics: {
       totalReferrers,
@@ -120,15 +142,100 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     referrers,
     recentReferrals,
     hasCustomerSegments,
+    discountResyncOffer: resyncOffer
+      ? {
+          reinstalledAt: resyncOffer.reinstalledAt ? resyncOffer.reinstalledAt.toISOString() : null,
+          codeCount: resyncOffer.codeCount,
+        }
+      : null,
+    flash,
   });
 };
 
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  try {
+    if (intent === "dismiss-resync") {
+      await dismissDiscountResync(session.shop);
+      return redirect("/app");
+    }
+
+    if (intent === "resync-discounts") {
+      const count = await resyncDiscountsAfterReinstall(session.shop);
+      const message = `${count} code(s) réactivé(s) : leurs discounts Shopify sont en cours de synchronisation.`;
+      return redirect(`/app?success=${encodeURIComponent(message)}`);
+    }
+
+    throw new Error("Action inconnue.");
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Erreur inattendue lors de la resynchronisation.";
+    return redirect("/app?error=" + encodeURIComponent(message));
+  }
+};
+
 export default function Dashboard() {
-  const { metrics, referrers, recentReferrals, hasCustomerSegments } = useLoaderData<typeof loader>();
+  const { metrics, referrers, recentReferrals, hasCustomerSegments, discountResyncOffer, flash } =
+    useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const submittingIntent = navigation.formData?.get("intent") ?? null;
 
   return (
     <Page title="Tableau de bord">
       <Layout>
+        {flash && (
+          <Layout.Section>
+            <Banner tone={flash.type === "success" ? "success" : "critical"}>
+              {flash.message}
+            </Banner>
+          </Layout.Section>
+        )}
+        {discountResyncOffer && (
+          <Layout.Section>
+            <Banner
+              title={
+                discountResyncOffer.reinstalledAt
+                  ? `L'app a été réinstallée le ${dateFormatter.format(new Date(discountResyncOffer.reinstalledAt))}`
+                  : "L'app a été réinstallée"
+              }
+              tone="info"
+            >
+              <BlockStack gap="200">
+                <Text variant="bodyMd" as="p">
+                  {`${discountResyncOffer.codeCount} code(s) de parrainage sont encore valides. Leurs discounts Shopify ont pu être supprimés pendant la désinstallation : vous pouvez les réactiver et les recréer.`}
+                </Text>
+                <InlineStack gap="200">
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="resync-discounts" />
+                    <Button
+                      variant="primary"
+                      submit
+                      disabled={isSubmitting || discountResyncOffer.codeCount === 0}
+                      loading={isSubmitting && submittingIntent === "resync-discounts"}
+                    >
+                      Resynchroniser les discounts
+                    </Button>
+                  </Form>
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="dismiss-resync" />
+                    <Button
+                      submit
+                      disabled={isSubmitting}
+                      loading={isSubmitting && submittingIntent === "dismiss-resync"}
+                    >
+                      Ignorer
+                    </Button>
+                  </Form>
+                </InlineStack>
+              </BlockStack>
+            </Banner>
+          </Layout.Section>
+        )}
         <Layout.Section>
           <Card>
             <BlockStack gap="200">
@@ -17,7 +17,12 @@ import { authenticate } from "app/shopify.server";
 import { getOrCreateCustomerByEmail } from "app/services/customers.server";
 import { getOrCreateReferrerFromCustomer } from "app/services/referrers.server";
 import { getReferralSettings } from "app/services/settings.server";
-import { createCodeForReferrer, linkShopifyDiscountId } from "app/services/codes.server";
+import {
+  buildCashbackSnapshot,
+  createCodeForReferrer,
+  getCodeCashbackEmailValue,
+  linkShopifyDiscountId,
+} from "app/services/codes.server";
 import { recreateShopifyDiscount } from "app/services/discounts.server";
 import prisma from "app/db.server";
 import { sendManualReferrerWelcomeEmail } from "app/services/email.server";
@@ -90,14 +95,14 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         lastName: lastName || null,
         acceptsMarketing,
       },
-      session?.shop,
+      session.shop,
     );
 
     const existingReferrerBefore = await prisma.referrer.findUnique({
-      where: { shopifyCustomerId: customer.id },
+      where: { shop_shopifyCustomerId: { shop: session.shop, shopifyCustomerId: customer.id } },
     });
 
-    const referrer = await getOrCreateReferrerFromCustomer({
+    const referrer = await getOrCreateReferrerFromCustomer(session.shop, {
       id: customer.id,
       email: customer.email,
       first_name: firstName || customer.firstName || null,
@@ -108,7 +113,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       where: { referrerId: referrer.id },
     });
 
-    const settings = await getReferralSettings();
+    const settings = await getReferralSettings(session.shop);
 
     let codeRecord = null;
     let codeAlreadyExists = false;
@@ -131,7 +136,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             expiresAt: computeExpiryDate(settings.codeValidityDays) ?? undefined,
             maxUsage: settings.maxUsagePerCode,
             discountSnapshot: settings.discountPercentage,
-            cashbackSnapshot: settings.cashbackAmount,
+            ...buildCashbackSnapshot(settings),
           },
         });
       }
@@ -139,6 +144,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     if (!codeRecord) {
       codeRecord = await createCodeForReferrer({
+        shopDomain: session.shop,
         referrerId: referrer.id,
         settings,
         sendEmail: false,
@@ -150,7 +156,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
           expiresAt: computeExpiryDate(settings.codeValidityDays) ?? undefined,
           maxUsage: settings.maxUsagePerCode,
           discountSnapshot: settings.discountPercentage,
-          cashbackSnapshot: settings.cashbackAmount,
+          ...buildCashbackSnapshot(settings),
         },
       });
     }
@@ -161,7 +167,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       const discount = await recreateShopifyDiscount({
         code: codeRecord,
         settings,
-        shopDomain: session?.shop,
+        shopDomain: session.shop,
       });
 
       if (discount) {
@@ -183,6 +189,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       if (referrer.email) {
         try {
           await sendManualReferrerWelcomeEmail({
+            shopDomain: session.shop,
             referrerId: referrer.id,
             referrerEmail: referrer.email,
             firstName: referrer.firstName,
@@ -191,7 +198,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             codeId: codeRecord.id,
             expiresAt: codeRecord.expiresAt ?? undefined,
             discountPercentage: codeRecord.discountSnapshot ?? settings.discountPercentage,
-            cashbackAmount: codeRecord.cashbackSnapshot ?? settings.cashbackAmount,
+            cashbackAmount: getCodeCashbackEmailValue(codeRecord, settings),
             shopUrl,
           });
           welcomeEmailSent = true;
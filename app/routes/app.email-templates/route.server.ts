@@ -4,22 +4,28 @@ import { getDefaultTemplate, getEmailTemplate, upsertEmailTemplate } from "app/s
 import { EmailTemplateType } from "app/models/email";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
 
-    const codePromoTemplate = await getEmailTemplate(EmailTemplateType.CODE_PROMO);
-    const cashbackConfirmationTemplate = await getEmailTemplate(EmailTemplateType.CASHBACK_CONFIRMATION);
-    const manualReferrerTemplate = await getEmailTemplate(EmailTemplateType.MANUAL_REFERRER_WELCOME);
+    const codePromoTemplate = await getEmailTemplate(session.shop, EmailTemplateType.CODE_PROMO);
+    const cashbackConfirmationTemplate = await getEmailTemplate(session.shop, EmailTemplateType.CASHBACK_CONFIRMATION);
+    const manualReferrerTemplate = await getEmailTemplate(session.shop, EmailTemplateType.MANUAL_REFERRER_WELCOME);
+    const giftCardRewardTemplate = await getEmailTemplate(session.shop, EmailTemplateType.GIFT_CARD_REWARD);
+    const codeExpiryReminderTemplate = await getEmailTemplate(session.shop, EmailTemplateType.CODE_EXPIRY_REMINDER);
 
     return json({
         codePromoTemplate: codePromoTemplate ?? { subject: "", bodyHtml: "", bodyText: "" },
         cashbackConfirmationTemplate: cashbackConfirmationTemplate ?? { subject: "", bodyHtml: "", bodyText: "" },
         manualReferrerTemplate: manualReferrerTemplate ?? { subject: "", bodyHtml: "", bodyText: "" },
+        giftCardRewardTemplate: giftCardRewardTemplate ?? { subject: "", bodyHtml: "", bodyText: "" },
+        codeExpiryReminderTemplate: codeExpiryReminderTemplate ?? { subject: "", bodyHtml: "", bodyText: "" },
         defaults: {
             [EmailTemplateType.CODE_PROMO]: getDefaultTemplate(EmailTemplateType.CODE_PROMO),
             [EmailTemplateType.CASHBACK_CONFIRMATION]: getDefaultTemplate(EmailTemplateType.CASHBACK_CONFIRMATION),
             [EmailTemplateType.MANUAL_REFERRER_WELCOME]: getDefaultTemplate(
                 EmailTemplateType.MANUAL_REFERRER_WELCOME,
             ),
+            [EmailTemplateType.GIFT_CARD_REWARD]: getDefaultTemplate(EmailTemplateType.GIFT_CARD_REWARD),
+            [EmailTemplateType.CODE_EXPIRY_REMINDER]: getDefaultTemplate(EmailTemplateType.CODE_EXPIRY_REMINDER),
         },
     });
 };
@@ -29,7 +35,9 @@ function parseTemplateType(value: FormDataEntryValue | null): EmailTemplateType
     if (
         value === EmailTemplateType.CODE_PROMO ||
         value === EmailTemplateType.CASHBACK_CONFIRMATION ||
-        value === EmailTemplateType.MANUAL_REFERRER_WELCOME
+        value === EmailTemplateType.MANUAL_REFERRER_WELCOME ||
+        value === EmailTemplateType.GIFT_CARD_REWARD ||
+        value === EmailTemplateType.CODE_EXPIRY_REMINDER
     ) {
         return value;
     }
@@ -71,6 +79,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     if (intent === "reset") {
         const defaults = getDefaultTemplate(type);
         const template = await upsertEmailTemplate({
+            shopDomain: authResult.session.shop,
             type,
             subject: defaults.subject,
             bodyHtml: defaults.bodyHtml,
@@ -99,6 +108,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
     try {
         const template = await upsertEmailTemplate({
+            shopDomain: authResult.session.shop,
             type,
             subject: subjectRaw.trim(),
             bodyHtml: bodyHtmlRaw,
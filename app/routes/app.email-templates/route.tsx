@@ -153,6 +153,29 @@ const defaultSamples: Record<EmailTemplateType, Record<string, string>> = {
             "https://veneziaphoto.myshopify.com/cdn/shop/files/logo--to-replace_b27e332b-e510-4edf-a148-a60c4fcecf48.svg?v=1762347140&width=261",
         logoAlt: "Venezia Photo",
     },
+    [EmailTemplateType.GIFT_CARD_REWARD]: {
+        firstName: "Aline",
+        lastName: "Dupont",
+        cashbackAmount: "20,00 €",
+        giftCardCode: "ABCD EFGH JKLM NPQR",
+        refereeEmail: "marie@example.com",
+        logoUrl:
+            "https://veneziaphoto.myshopify.com/cdn/shop/files/logo--to-replace_b27e332b-e510-4edf-a148-a60c4fcecf48.svg?v=1762347140&width=261",
+        logoAlt: "Venezia Photo",
+    },
+    [EmailTemplateType.CODE_EXPIRY_REMINDER]: {
+        firstName: "Aline",
+        lastName: "Dupont",
+        code: "ABC-1234",
+        discountPercentage: "10%",
+        cashbackAmount: "20 €",
+        expiresAt: "15 décembre 2025",
+        daysUntilExpiry: "7",
+        shopUrl: "https://venezia-photo.myshopify.com",
+        logoUrl:
+            "https://veneziaphoto.myshopify.com/cdn/shop/files/logo--to-replace_b27e332b-e510-4edf-a148-a60c4fcecf48.svg?v=1762347140&width=261",
+        logoAlt: "Venezia Photo",
+    },
 };
 
 const placeholderHints: Record<EmailTemplateType, Array<{ token: string; description: string }>> = {
@@ -187,12 +210,35 @@ const placeholderHints: Record<EmailTemplateType, Array<{ token: string; descrip
         { token: "{{logoUrl}}", description: "URL absolue du logo à afficher" },
         { token: "{{logoAlt}}", description: "Texte alternatif du logo" },
     ],
+    [EmailTemplateType.GIFT_CARD_REWARD]: [
+        { token: "{{firstName}}", description: "Prénom du parrain" },
+        { token: "{{lastName}}", description: "Nom du parrain" },
+        { token: "{{cashbackAmount}}", description: "Montant de la carte cadeau" },
+        { token: "{{giftCardCode}}", description: "Code de la carte cadeau" },
+        { token: "{{refereeEmail}}", description: "Email du filleul concerné" },
+        { token: "{{logoUrl}}", description: "URL absolue du logo à afficher" },
+        { token: "{{logoAlt}}", description: "Texte alternatif du logo" },
+    ],
+    [EmailTemplateType.CODE_EXPIRY_REMINDER]: [
+        { token: "{{firstName}}", description: "Prénom du parrain" },
+        { token: "{{lastName}}", description: "Nom du parrain" },
+        { token: "{{code}}", description: "Code de parrainage qui arrive à expiration" },
+        { token: "{{discountPercentage}}", description: "Remise accordée au filleul" },
+        { token: "{{cashbackAmount}}", description: "Montant du cashback" },
+        { token: "{{expiresAt}}", description: "Date d'expiration du code" },
+        { token: "{{daysUntilExpiry}}", description: "Nombre de jours avant l'expiration" },
+        { token: "{{shopUrl}}", description: "Lien vers la boutique Shopify" },
+        { token: "{{logoUrl}}", description: "URL absolue du logo à afficher" },
+        { token: "{{logoAlt}}", description: "Texte alternatif du logo" },
+    ],
 };
 
 const templateTabs = [
     { id: EmailTemplateType.CODE_PROMO, content: "Email code promo" },
     { id: EmailTemplateType.CASHBACK_CONFIRMATION, content: "Email cashback" },
     { id: EmailTemplateType.MANUAL_REFERRER_WELCOME, content: "Email bienvenue manuel" },
+    { id: EmailTemplateType.GIFT_CARD_REWARD, content: "Email carte cadeau" },
+    { id: EmailTemplateType.CODE_EXPIRY_REMINDER, content: "Email rappel d'expiration" },
 ];
 
 const editorTabs = [
@@ -214,16 +260,23 @@ export default function EmailTemplatesPage() {
     const cashbackConfirmationTemplate =
         data?.cashbackConfirmationTemplate ?? { subject: "", bodyHtml: "", bodyText: "" };
     const manualReferrerTemplate = data?.manualReferrerTemplate ?? { subject: "", bodyHtml: "", bodyText: "" };
+    const giftCardRewardTemplate = data?.giftCardRewardTemplate ?? { subject: "", bodyHtml: "", bodyText: "" };
+    const codeExpiryReminderTemplate =
+        data?.codeExpiryReminderTemplate ?? { subject: "", bodyHtml: "", bodyText: "" };
     const templateDefaults =
         data?.defaults ?? {
             [EmailTemplateType.CODE_PROMO]: { subject: "", bodyHtml: "", bodyText: "" },
             [EmailTemplateType.CASHBACK_CONFIRMATION]: { subject: "", bodyHtml: "", bodyText: "" },
             [EmailTemplateType.MANUAL_REFERRER_WELCOME]: { subject: "", bodyHtml: "", bodyText: "" },
+            [EmailTemplateType.GIFT_CARD_REWARD]: { subject: "", bodyHtml: "", bodyText: "" },
+            [EmailTemplateType.CODE_EXPIRY_REMINDER]: { subject: "", bodyHtml: "", bodyText: "" },
         };
 
     const promoDefaults = templateDefaults[EmailTemplateType.CODE_PROMO];
     const cashbackDefaults = templateDefaults[EmailTemplateType.CASHBACK_CONFIRMATION];
     const manualDefaults = templateDefaults[EmailTemplateType.MANUAL_REFERRER_WELCOME];
+    const giftCardDefaults = templateDefaults[EmailTemplateType.GIFT_CARD_REWARD];
+    const expiryReminderDefaults = templateDefaults[EmailTemplateType.CODE_EXPIRY_REMINDER];
 
     const [selectedTemplateTab, setSelectedTemplateTab] = useState(0);
 
@@ -257,6 +310,26 @@ export default function EmailTemplatesPage() {
         coalesceTemplateValue(manualReferrerTemplate.bodyText, manualDefaults?.bodyText),
     );
 
+    const [giftCardSubject, setGiftCardSubject] = useState(() =>
+        coalesceTemplateValue(giftCardRewardTemplate.subject, giftCardDefaults?.subject),
+    );
+    const [giftCardHtml, setGiftCardHtml] = useState(() =>
+        coalesceTemplateValue(giftCardRewardTemplate.bodyHtml, giftCardDefaults?.bodyHtml),
+    );
+    const [giftCardText, setGiftCardText] = useState(() =>
+        coalesceTemplateValue(giftCardRewardTemplate.bodyText, giftCardDefaults?.bodyText),
+    );
+
+    const [expiryReminderSubject, setExpiryReminderSubject] = useState(() =>
+        coalesceTemplateValue(codeExpiryReminderTemplate.subject, expiryReminderDefaults?.subject),
+    );
+    const [expiryReminderHtml, setExpiryReminderHtml] = useState(() =>
+        coalesceTemplateValue(codeExpiryReminderTemplate.bodyHtml, expiryReminderDefaults?.bodyHtml),
+    );
+    const [expiryReminderText, setExpiryReminderText] = useState(() =>
+        coalesceTemplateValue(codeExpiryReminderTemplate.bodyText, expiryReminderDefaults?.bodyText),
+    );
+
     const [samples, setSamples] = useState<Record<EmailTemplateType, Record<string, string>>>(() => ({
         [EmailTemplateType.CODE_PROMO]: { ...defaultSamples[EmailTemplateType.CODE_PROMO] },
         [EmailTemplateType.CASHBACK_CONFIRMATION]: {
@@ -265,18 +338,28 @@ export default function EmailTemplatesPage() {
         [EmailTemplateType.MANUAL_REFERRER_WELCOME]: {
             ...defaultSamples[EmailTemplateType.MANUAL_REFERRER_WELCOME],
         },
+        [EmailTemplateType.GIFT_CARD_REWARD]: {
+            ...defaultSamples[EmailTemplateType.GIFT_CARD_REWARD],
+        },
+        [EmailTemplateType.CODE_EXPIRY_REMINDER]: {
+            ...defaultSamples[EmailTemplateType.CODE_EXPIRY_REMINDER],
+        },
     }));
 
     const [previewModes, setPreviewModes] = useState<Record<EmailTemplateType, PreviewMode>>({
         [EmailTemplateType.CODE_PROMO]: "html",
         [EmailTemplateType.CASHBACK_CONFIRMATION]: "html",
         [EmailTemplateType.MANUAL_REFERRER_WELCOME]: "html",
+        [EmailTemplateType.GIFT_CARD_REWARD]: "html",
+        [EmailTemplateType.CODE_EXPIRY_REMINDER]: "html",
     });
 
     const [editorTabByTemplate, setEditorTabByTemplate] = useState<Record<EmailTemplateType, number>>({
         [EmailTemplateType.CODE_PROMO]: 0,
         [EmailTemplateType.CASHBACK_CONFIRMATION]: 0,
         [EmailTemplateType.MANUAL_REFERRER_WELCOME]: 0,
+        [EmailTemplateType.GIFT_CARD_REWARD]: 0,
+        [EmailTemplateType.CODE_EXPIRY_REMINDER]: 0,
     });
 
     useEffect(() => {
@@ -300,6 +383,14 @@ export default function EmailTemplatesPage() {
                 setManualSubject(coalesceTemplateValue(template.subject, fallback?.subject));
                 setManualHtml(coalesceTemplateValue(template.bodyHtml, fallback?.bodyHtml));
                 setManualText(coalesceTemplateValue(template.bodyText, fallback?.bodyText));
+            } else if (template.type === EmailTemplateType.GIFT_CARD_REWARD) {
+                setGiftCardSubject(coalesceTemplateValue(template.subject, fallback?.subject));
+                setGiftCardHtml(coalesceTemplateValue(template.bodyHtml, fallback?.bodyHtml));
+                setGiftCardText(coalesceTemplateValue(template.bodyText, fallback?.bodyText));
+            } else if (template.type === EmailTemplateType.CODE_EXPIRY_REMINDER) {
+                setExpiryReminderSubject(coalesceTemplateValue(template.subject, fallback?.subject));
+                setExpiryReminderHtml(coalesceTemplateValue(template.bodyHtml, fallback?.bodyHtml));
+                setExpiryReminderText(coalesceTemplateValue(template.bodyText, fallback?.bodyText));
             }
         }
     }, [actionData, templateDefaults]);
@@ -345,6 +436,22 @@ export default function EmailTemplatesPage() {
             setHtml: setManualHtml,
             setText: setManualText,
         },
+        [EmailTemplateType.GIFT_CARD_REWARD]: {
+            subject: giftCardSubject,
+            html: giftCardHtml,
+            text: giftCardText,
+            setSubject: setGiftCardSubject,
+            setHtml: setGiftCardHtml,
+            setText: setGiftCardText,
+        },
+        [EmailTemplateType.CODE_EXPIRY_REMINDER]: {
+            subject: expiryReminderSubject,
+            html: expiryReminderHtml,
+            text: expiryReminderText,
+            setSubject: setExpiryReminderSubject,
+            setHtml: setExpiryReminderHtml,
+            setText: setExpiryReminderText,
+        },
     };
 
     const currentState = templateStates[currentType];
@@ -410,6 +517,14 @@ export default function EmailTemplatesPage() {
             setManualSubject(fallback.subject ?? "");
             setManualHtml(fallback.bodyHtml ?? "");
             setManualText(fallback.bodyText ?? "");
+        } else if (type === EmailTemplateType.GIFT_CARD_REWARD) {
+            setGiftCardSubject(fallback.subject ?? "");
+            setGiftCardHtml(fallback.bodyHtml ?? "");
+            setGiftCardText(fallback.bodyText ?? "");
+        } else if (type === EmailTemplateType.CODE_EXPIRY_REMINDER) {
+            setExpiryReminderSubject(fallback.subject ?? "");
+            setExpiryReminderHtml(fallback.bodyHtml ?? "");
+            setExpiryReminderText(fallback.bodyText ?? "");
         }
     };
 
@@ -418,13 +533,21 @@ export default function EmailTemplatesPage() {
             ? "codePromoHtml"
             : currentType === EmailTemplateType.CASHBACK_CONFIRMATION
               ? "cashbackHtml"
-              : "manualWelcomeHtml";
+              : currentType === EmailTemplateType.GIFT_CARD_REWARD
+                ? "giftCardHtml"
+                : currentType === EmailTemplateType.CODE_EXPIRY_REMINDER
+                  ? "expiryReminderHtml"
+                  : "manualWelcomeHtml";
     const textFieldId =
         currentType === EmailTemplateType.CODE_PROMO
             ? "codePromoText"
             : currentType === EmailTemplateType.CASHBACK_CONFIRMATION
               ? "cashbackText"
-              : "manualWelcomeText";
+              : currentType === EmailTemplateType.GIFT_CARD_REWARD
+                ? "giftCardText"
+                : currentType === EmailTemplateType.CODE_EXPIRY_REMINDER
+                  ? "expiryReminderText"
+                  : "manualWelcomeText";
 
     return (
         <Page title="Templates d'emails">
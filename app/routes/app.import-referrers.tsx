@@ -18,7 +18,12 @@ import { authenticate } from "app/shopify.server";
 import { getOrCreateCustomerByEmail } from "app/services/customers.server";
 import { getOrCreateReferrerFromCustomer } from "app/services/referrers.server";
 import { getReferralSettings } from "app/services/settings.server";
-import { createCodeForReferrer, linkShopifyDiscountId } from "app/services/codes.server";
+import {
+  buildCashbackSnapshot,
+  createCodeForReferrer,
+  getCodeCashbackEmailValue,
+  linkShopifyDiscountId,
+} from "app/services/codes.server";
 import { recreateShopifyDiscount } from "app/services/discounts.server";
 import prisma from "app/db.server";
 import { sendManualReferrerWelcomeEmail } from "app/services/email.server";
@@ -135,7 +140,7 @@ function computeExpiryDate(codeValidityDays: number): Date | null {
 
 async function processReferrerRow(
   row: ImportRow,
-  session: { shop?: string | null },
+  session: { shop: string },
   settings: Awaited<ReturnType<typeof getReferralSettings>>,
 ): Promise<ImportResult> {
   const errors: string[] = [];
@@ -175,7 +180,7 @@ async function processReferrerRow(
           lastName: row.lastName || null,
           acceptsMarketing: row.acceptsMarketing,
         },
-        session?.shop,
+        session.shop,
       );
       customer = customerResult.customer;
       customerCreated = customerResult.created;
@@ -197,11 +202,11 @@ async function processReferrerRow(
 
     // Vérifier si le parrain existe déjà
     const existingReferrerBefore = await prisma.referrer.findUnique({
-      where: { shopifyCustomerId: customer.id },
+      where: { shop_shopifyCustomerId: { shop: session.shop, shopifyCustomerId: customer.id } },
     });
 
     // Créer ou récupérer le parrain
-    const referrer = await getOrCreateReferrerFromCustomer({
+    const referrer = await getOrCreateReferrerFromCustomer(session.shop, {
       id: customer.id,
       email: customer.email,
       first_name: row.firstName || customer.firstName || null,
@@ -233,7 +238,7 @@ async function processReferrerRow(
             expiresAt: computeExpiryDate(settings.codeValidityDays) ?? undefined,
             maxUsage: settings.maxUsagePerCode,
             discountSnapshot: settings.discountPercentage,
-            cashbackSnapshot: settings.cashbackAmount,
+            ...buildCashbackSnapshot(settings),
           },
         });
       }
@@ -243,6 +248,7 @@ async function processReferrerRow(
     if (!codeRecord) {
       try {
         codeRecord = await createCodeForReferrer({
+          shopDomain: session.shop,
           referrerId: referrer.id,
           settings,
           sendEmail: false, // On enverra l'email manuellement après
@@ -260,7 +266,7 @@ async function processReferrerRow(
           expiresAt: computeExpiryDate(settings.codeValidityDays) ?? undefined,
           maxUsage: settings.maxUsagePerCode,
           discountSnapshot: settings.discountPercentage,
-          cashbackSnapshot: settings.cashbackAmount,
+          ...buildCashbackSnapshot(settings),
         },
       });
     }
@@ -280,7 +286,7 @@ async function processReferrerRow(
           const discount = await recreateShopifyDiscount({
             code: codeRecord,
             settings,
-            shopDomain: session?.shop,
+            shopDomain: session.shop,
           });
 
           if (discount) {
@@ -315,6 +321,7 @@ async function processReferrerRow(
       if (shouldSendWelcome && referrer.email) {
         try {
           await sendManualReferrerWelcomeEmail({
+            shopDomain: session.shop,
             referrerId: referrer.id,
             referrerEmail: referrer.email,
             firstName: referrer.firstName,
@@ -323,7 +330,7 @@ async function processReferrerRow(
             codeId: codeRecord.id,
             expiresAt: codeRecord.expiresAt ?? undefined,
             discountPercentage: codeRecord.discountSnapshot ?? settings.discountPercentage,
-            cashbackAmount: codeRecord.cashbackSnapshot ?? settings.cashbackAmount,
+            cashbackAmount: getCodeCashbackEmailValue(codeRecord, settings),
             shopUrl,
           });
           emailSent = true;
@@ -472,7 +479,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     try {
-      const settings = await getReferralSettings();
+      const settings = await getReferralSettings(session.shop);
 
       const acceptsMarketing = acceptsMarketingRaw === "true" || acceptsMarketingRaw === null;
 
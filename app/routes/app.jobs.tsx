@@ -0,0 +1,192 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, useLoaderData, useNavigation } from "@remix-run/react";
+import { Page, Card, IndexTable, Text, Badge, Button, InlineStack, BlockStack, Banner } from "@shopify/polaris";
+import { authenticate } from "app/shopify.server";
+import { getJobStats, listFailingJobs, retryJob } from "app/services/jobs.server";
+
+const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const jobTypeLabels: Record<string, string> = {
+  ORDER_PAID: "Commande payée",
+  SYNC_DISCOUNT: "Synchronisation discount",
+  SEND_PROMO_CODE_EMAIL: "Email code promo",
+  REFUND_CREATED: "Remboursement commande",
+  ORDER_CANCELLED: "Annulation commande",
+  AUTO_PAYOUT: "Versement automatique",
+  PRIVACY_REQUEST: "Demande RGPD",
+  CODE_EXPIRY_SWEEP: "Expiration des codes",
+};
+
+type LoaderData = {
+  stats: {
+    pending: number;
+    running: number;
+    completed: number;
+    dead: number;
+  };
+  jobs: Array<{
+    id: string;
+    type: string;
+    status: string;
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+    runAt: string;
+    updatedAt: string;
+  }>;
+  flash: { type: "success" | "error"; message: string } | null;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const hasSuccess = url.searchParams.get("success") === "1";
+  const errorMessage = url.searchParams.get("error");
+
+  const [stats, jobs] = await Promise.all([getJobStats(session.shop), listFailingJobs(session.shop, 100)]);
+
+  const flash = hasSuccess
+    ? { type: "success" as const, message: "Job remis en file." }
+    : errorMessage
+      ? { type: "error" as const, message: errorMessage }
+      : null;
+
+  return json<LoaderData>({
+    stats: {
+      pending: stats.PENDING,
+      running: stats.RUNNING,
+      completed: stats.COMPLETED,
+      dead: stats.DEAD,
+    },
+    jobs: jobs.map((job) => ({
+      id: job.id,
+      type: job.type,
+      status: job.status,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      lastError: job.lastError ?? null,
+      runAt: job.runAt.toISOString(),
+      updatedAt: job.updatedAt.toISOString(),
+    })),
+    flash,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const jobId = formData.get("jobId");
+
+  if (typeof jobId !== "string" || !jobId) {
+    return redirect("/app/jobs?error=" + encodeURIComponent("Identifiant de job manquant."));
+  }
+
+  try {
+    await retryJob(session.shop, jobId);
+    return redirect("/app/jobs?success=1");
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Erreur inattendue lors de la relance du job.";
+    return redirect("/app/jobs?error=" + encodeURIComponent(message));
+  }
+};
+
+export default function JobsPage() {
+  const { stats, jobs, flash } = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const rawJobId = navigation.formData?.get("jobId");
+  const submittingJobId = typeof rawJobId === "string" ? rawJobId : null;
+
+  return (
+    <Page title="Tâches en arrière-plan">
+      <BlockStack gap="400">
+        {flash && (
+          <Banner tone={flash.type === "success" ? "success" : "critical"}>
+            {flash.message}
+          </Banner>
+        )}
+        <Card>
+          <BlockStack gap="300">
+            <Text variant="bodyMd" as="p" tone="subdued">
+              Les effets des webhooks (génération des codes, discounts Shopify, emails) sont exécutés par une file de
+              tâches. Chaque tâche en échec est retentée automatiquement ; au-delà du nombre maximal de tentatives elle
+              passe en échec définitif et peut être relancée manuellement ici.
+            </Text>
+            <InlineStack gap="300">
+              <Badge tone="info">{`En attente : ${stats.pending}`}</Badge>
+              <Badge tone="attention">{`En cours : ${stats.running}`}</Badge>
+              <Badge tone="success">{`Terminées : ${stats.completed}`}</Badge>
+              <Badge tone="critical">{`Échec définitif : ${stats.dead}`}</Badge>
+            </InlineStack>
+          </BlockStack>
+        </Card>
+        <Card>
+          <IndexTable
+            resourceName={{ singular: "tâche", plural: "tâches" }}
+            itemCount={jobs.length}
+            selectable={false}
+            emptyState={
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Aucune tâche en échec.
+              </Text>
+            }
+            headings={[
+              { title: "Tâche" },
+              { title: "Statut" },
+              { title: "Tentatives" },
+              { title: "Dernière erreur" },
+              { title: "Prochaine tentative" },
+              { title: "" },
+            ]}
+          >
+            {jobs.map((job, index) => (
+              <IndexTable.Row id={job.id} key={job.id} position={index}>
+                <IndexTable.Cell>
+                  <Text variant="bodyMd" fontWeight="bold" as="h3">
+                    {jobTypeLabels[job.type] ?? job.type}
+                  </Text>
+                  <Text variant="bodySm" as="p" tone="subdued">
+                    {dateFormatter.format(new Date(job.updatedAt))}
+                  </Text>
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  <Badge tone={job.status === "DEAD" ? "critical" : "attention"}>
+                    {job.status === "DEAD" ? "Échec définitif" : "Nouvelle tentative prévue"}
+                  </Badge>
+                </IndexTable.Cell>
+                <IndexTable.Cell>{`${job.attempts} / ${job.maxAttempts}`}</IndexTable.Cell>
+                <IndexTable.Cell>
+                  <Text variant="bodySm" as="p" tone="critical" breakWord>
+                    {job.lastError ?? "—"}
+                  </Text>
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  {job.status === "DEAD" ? "—" : dateFormatter.format(new Date(job.runAt))}
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  <Form method="post">
+                    <input type="hidden" name="jobId" value={job.id} />
+                    <Button
+                      submit
+                      disabled={isSubmitting}
+                      loading={isSubmitting && submittingJobId === job.id}
+                    >
+                      Relancer
+                    </Button>
+                  </Form>
+                </IndexTable.Cell>
+              </IndexTable.Row>
+            ))}
+          </IndexTable>
+        </Card>
+      </BlockStack>
+    </Page>
+  );
+}
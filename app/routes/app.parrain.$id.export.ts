@@ -0,0 +1,28 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "app/shopify.server";
+import { exportReferrerData } from "app/services/privacy.server";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const referrerId = params.id;
+
+  if (!referrerId) {
+    throw new Response("Parrain introuvable", { status: 404 });
+  }
+
+  try {
+    const exportData = await exportReferrerData(session.shop, referrerId);
+
+    return new Response(JSON.stringify(exportData, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="donnees-parrain-${referrerId}.json"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Erreur inattendue lors de l'export des données.";
+    return new Response(message, { status: 400 });
+  }
+};
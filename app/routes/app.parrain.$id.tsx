@@ -17,17 +17,58 @@ import {
   ChoiceList,
   TextField,
   Pagination,
+  Tabs,
 } from "@shopify/polaris";
 import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
 import { authenticate } from "app/shopify.server";
+import { getAdminActor } from "app/services/adminActor.server";
 import { deleteReferrer, getReferrerDetail } from "app/services/referrers.server";
 import { getTotalRefundedForCode, processRewardRefund } from "app/services/rewards.server";
 import { getOrderTotalAmount } from "app/services/shopifyAdmin.server";
 import { getReferralSettings } from "app/services/settings.server";
-import { fetchShopifyDiscountDetails, recreateShopifyDiscount } from "app/services/discounts.server";
+import {
+  buildCashbackSnapshot,
+  getCodeCashbackEmailValue,
+  getCodeCashbackTerms,
+} from "app/services/codes.server";
+import {
+  fetchShopifyDiscountDetails,
+  getTargetedDiscountItems,
+  recreateShopifyDiscount,
+  type DiscountItemsSelection,
+  type DiscountItemsType,
+} from "app/services/discounts.server";
 import prisma from "app/db.server";
 import { listOrdersForCustomer, type SimplifiedOrder } from "app/services/orders.server";
 import { sendManualReferrerWelcomeEmail } from "app/services/email.server";
+import { updateReferrerBankDetails } from "app/services/bankTransfers.server";
+import {
+  areCashbackTermsEqual,
+  describeRewardCashback,
+  formatCashbackTerms,
+  formatCashbackTierRange,
+  getCashbackTerms,
+  resolveCashbackTierRanges,
+  type CashbackTerms,
+  type CashbackTier,
+} from "app/models/cashback";
+import {
+  isPayoutMethod,
+  isRewardInHoldPeriod,
+  PAYABLE_REWARD_STATUSES,
+  PAYOUT_METHOD_DESCRIPTIONS,
+  PAYOUT_METHOD_LABELS,
+  PAYOUT_METHODS,
+  isDirectPayoutMethod,
+  payoutMethodRequiresOrder,
+  REWARD_STATUS_LABELS,
+  REWARD_STATUS_TONES,
+  RewardStatus,
+  type PayoutMethodKey,
+  type RewardStatusKey,
+} from "app/models/reward";
+import { REFERRAL_REJECTION_REASON_LABELS, type ReferralRejectionReasonKey } from "app/models/referral";
+import { FRAUD_SIGNAL_LABELS, isFraudScoreSuspicious, type FraudSignalTypeKey } from "app/models/fraud";
 
 const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
   dateStyle: "medium",
@@ -44,6 +85,16 @@ const percentageFormatter = new Intl.NumberFormat("fr-FR", {
   maximumFractionDigits: 0,
 });
 
+const rewardStatusFilters: Array<RewardStatusKey | "ALL"> = [
+  "ALL",
+  RewardStatus.PENDING,
+  RewardStatus.APPROVED,
+  RewardStatus.ON_HOLD,
+  RewardStatus.PAID,
+  RewardStatus.FAILED,
+  RewardStatus.CANCELLED,
+];
+
 type ActionData = { success: true } | { error: string };
 type LoaderData = {
   referrer: {
@@ -76,10 +127,19 @@ type LoaderData = {
         startsAt: string | null;
         endsAt: string | null;
         status: string | null;
+        items: DiscountItemsSelection | null;
       } | null;
       snapshots: {
         discount: number | null;
-        cashback: number | null;
+        cashback: CashbackTerms | null;
+      };
+      /** Paramètres attendus pour le code : programme de son workshop ou paramètres globaux. */
+      program: {
+        custom: boolean;
+        discountPercentage: number;
+        cashbackTerms: CashbackTerms;
+        cashbackTiers: CashbackTier[];
+        discountItems: { type: DiscountItemsType; ids: string[] };
       };
       emailStatus: {
         status: "SENT" | "PENDING" | "FAILED" | null;
@@ -98,24 +158,50 @@ type LoaderData = {
       workshopProductTitle: string | null;
       reward: {
         id: string;
-        status: string;
+        status: RewardStatusKey;
         amount: number;
         currency: string;
+        payableAt: string | null;
+        payoutMethod: PayoutMethodKey | null;
+        tierDescription: string | null;
       } | null;
     }>;
+    rejections: Array<{
+      id: string;
+      createdAt: string;
+      orderId: string;
+      refereeEmail: string | null;
+      code: string;
+      reason: ReferralRejectionReasonKey;
+      details: string | null;
+    }>;
     rewards: Array<{
       id: string;
-      status: string;
+      status: RewardStatusKey;
       amount: number;
       currency: string;
       createdAt: string;
       paidAt: string | null;
+      payableAt: string | null;
+      recoveryRequiredAt: string | null;
+      tierDescription: string | null;
+      fraudScore: number | null;
+      fraudSignals: Array<{
+        id: string;
+        type: FraudSignalTypeKey;
+        details: string | null;
+      }>;
     }>;
     latestWelcomeEmail: {
       status: "SENT" | "PENDING" | "FAILED" | null;
       sentAt: string | null;
       errorMessage: string | null;
     } | null;
+    bankDetails: {
+      iban: string | null;
+      bic: string | null;
+      bankAccountHolder: string | null;
+    };
   };
   flash: { type: "success" | "error"; message: string } | null;
   orders: SimplifiedOrder[];
@@ -125,6 +211,7 @@ type LoaderData = {
     appliesOncePerCustomer: boolean;
     maxUsagePerCode: number;
     codeValidityDays: number;
+    defaultPayoutMethod: PayoutMethodKey;
   };
 };
 
@@ -132,7 +219,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
 
   const url = new URL(request.url);
-  const hasSuccess = url.searchParams.get("success") === "1";
+  const successParam = url.searchParams.get("success");
   const errorMessage = url.searchParams.get("error");
 
   const referrerId = params.id;
@@ -141,7 +228,7 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     throw new Response("Parrain non trouvé", { status: 404 });
   }
 
-  const referrer = await getReferrerDetail(referrerId);
+  const referrer = await getReferrerDetail(session.shop, referrerId);
 
   if (!referrer) {
     throw new Response("Parrain non trouvé", { status: 404 });
@@ -151,13 +238,13 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     referrer.email ||
     referrer.shopifyCustomerId;
 
-  const settings = await getReferralSettings();
+  const settings = await getReferralSettings(session.shop);
 
   const discountIds = referrer.codes
     .map((code) => code.shopifyDiscountId ?? null)
     .filter((id): id is string => Boolean(id));
 
-  const discountDetailsMap = await fetchShopifyDiscountDetails(discountIds, session?.shop);
+  const discountDetailsMap = await fetchShopifyDiscountDetails(discountIds, session.shop);
 
   // Calculer la progression pour chaque code
   const codesWithProgress = await Promise.all(
@@ -166,6 +253,15 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         ? discountDetailsMap[code.shopifyDiscountId] ?? null
         : null;
 
+      const codeSettings = await getReferralSettings(session.shop, code.workshopProductId);
+      const program = {
+        custom: codeSettings.hasWorkshopProgram,
+        discountPercentage: codeSettings.discountPercentage,
+        cashbackTerms: getCashbackTerms(codeSettings),
+        cashbackTiers: codeSettings.cashbackTiers,
+        discountItems: getTargetedDiscountItems(codeSettings),
+      };
+
       const latestEmailLog = code.emailLogs?.[0] ?? null;
       const emailStatus = latestEmailLog
         ? {
@@ -190,14 +286,15 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
           shopifyDiscount: discountDetails,
           snapshots: {
             discount: code.discountSnapshot ?? null,
-            cashback: code.cashbackSnapshot ?? null,
+            cashback: code.cashbackSnapshot !== null ? getCodeCashbackTerms(code, codeSettings) : null,
           },
+          program,
           emailStatus,
         };
       }
 
-      const totalRefunded = await getTotalRefundedForCode(code.originOrderGid);
-      const orderTotal = await getOrderTotalAmount(code.originOrderGid);
+      const totalRefunded = await getTotalRefundedForCode(session.shop, code.originOrderGid);
+      const orderTotal = await getOrderTotalAmount(code.originOrderGid, session.shop);
       const maxRefund = orderTotal ? orderTotal * settings.maxRefundPercentage : null;
       const percentage = maxRefund && maxRefund > 0 ? Math.min((totalRefunded / maxRefund) * 100, 100) : 0;
 
@@ -219,15 +316,16 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         shopifyDiscount: discountDetails,
         snapshots: {
           discount: code.discountSnapshot ?? null,
-          cashback: code.cashbackSnapshot ?? null,
+          cashback: code.cashbackSnapshot !== null ? getCodeCashbackTerms(code, codeSettings) : null,
         },
+        program,
         emailStatus,
       };
     })
   );
 
   const orders = referrer.shopifyCustomerId
-    ? await listOrdersForCustomer(referrer.shopifyCustomerId, session?.shop, { limit: 20 })
+    ? await listOrdersForCustomer(referrer.shopifyCustomerId, session.shop, { limit: 20 })
     : [];
 
   // Récupérer le dernier email de bienvenue global
@@ -263,9 +361,21 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
             status: referral.reward.status,
             amount: referral.reward.amount,
             currency: referral.reward.currency,
+            payableAt: referral.reward.payableAt ? referral.reward.payableAt.toISOString() : null,
+            payoutMethod: referral.reward.payoutMethod,
+            tierDescription: describeRewardCashback(referral.reward, currencyFormatter.format),
           }
           : null,
       })),
+      rejections: referrer.rejections.map((rejection) => ({
+        id: rejection.id,
+        createdAt: rejection.createdAt.toISOString(),
+        orderId: rejection.orderId,
+        refereeEmail: rejection.refereeEmail ?? null,
+        code: rejection.code.code,
+        reason: rejection.reason,
+        details: rejection.details ?? null,
+      })),
       rewards: referrer.rewards.map((reward) => ({
         id: reward.id,
         status: reward.status,
@@ -273,12 +383,28 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
         currency: reward.currency,
         createdAt: reward.createdAt.toISOString(),
         paidAt: reward.paidAt ? reward.paidAt.toISOString() : null,
+        payableAt: reward.payableAt ? reward.payableAt.toISOString() : null,
+        recoveryRequiredAt: reward.recoveryRequiredAt ? reward.recoveryRequiredAt.toISOString() : null,
+        tierDescription: describeRewardCashback(reward, currencyFormatter.format),
+        fraudScore: reward.fraudScore ?? null,
+        fraudSignals: reward.fraudSignals.map((signal) => ({
+          id: signal.id,
+          type: signal.type,
+          details: signal.details ?? null,
+        })),
       })),
       latestWelcomeEmail,
+      bankDetails: {
+        iban: referrer.iban ?? null,
+        bic: referrer.bic ?? null,
+        bankAccountHolder: referrer.bankAccountHolder ?? null,
+      },
     },
-    flash: hasSuccess
+    flash: successParam === "1"
       ? { type: "success", message: "Refund accepté et envoyé." }
-      : errorMessage
+      : successParam === "bank-details"
+        ? { type: "success", message: "Coordonnées bancaires enregistrées." }
+        : errorMessage
         ? { type: "error", message: errorMessage }
         : null,
     orders,
@@ -288,12 +414,13 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
       appliesOncePerCustomer: settings.appliesOncePerCustomer,
       maxUsagePerCode: settings.maxUsagePerCode,
       codeValidityDays: settings.codeValidityDays,
+      defaultPayoutMethod: settings.defaultPayoutMethod,
     },
   });
 };
 
 export const action = async ({ request, params }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, sessionToken } = await authenticate.admin(request);
 
   const referrerId = params.id;
   if (!referrerId) {
@@ -307,7 +434,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
   if (intent === "delete") {
     try {
-      await deleteReferrer(referrerId, { shopDomain: session?.shop });
+      await deleteReferrer(session.shop, referrerId);
       return redirect(`/app/referrers?success=${encodeURIComponent("Parrain supprimé avec succès.")}`);
     } catch (error) {
       const message =
@@ -318,6 +445,27 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
   }
 
+  if (intent === "save-bank-details") {
+    const iban = formData.get("iban");
+    const bic = formData.get("bic");
+    const bankAccountHolder = formData.get("bankAccountHolder");
+
+    try {
+      await updateReferrerBankDetails(session.shop, referrerId, {
+        iban: typeof iban === "string" ? iban : null,
+        bic: typeof bic === "string" ? bic : null,
+        bankAccountHolder: typeof bankAccountHolder === "string" ? bankAccountHolder : null,
+      });
+      return redirect(`/app/parrain/${referrerId}?success=bank-details`);
+    } catch (error) {
+      const message =
+        error instanceof Error
+          ? error.message
+          : "Impossible d'enregistrer les coordonnées bancaires.";
+      return redirect(`/app/parrain/${referrerId}?error=${encodeURIComponent(message)}`);
+    }
+  }
+
   if (intent === "sync-discount") {
     const codeIdRaw = formData.get("codeId");
     const codeId = typeof codeIdRaw === "string" ? codeIdRaw : null;
@@ -330,7 +478,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
       return redirect(`/app/parrain/${referrerId}?error=${encodeURIComponent(message)}`);
     }
 
-    const code = await prisma.code.findUnique({ where: { id: codeId } });
+    const code = await prisma.code.findUnique({ where: { id: codeId, shop: session.shop } });
 
     if (!code || code.referrerId !== referrerId) {
       const message = "Code introuvable pour ce parrain.";
@@ -349,11 +497,12 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     }
 
     try {
-      const settings = await getReferralSettings();
+      const settings = await getReferralSettings(session.shop, code.workshopProductId);
+      // Resynchronisation explicite : le code adopte les paramètres actuels
       const discount = await recreateShopifyDiscount({
-        code,
+        code: { ...code, maxUsage: settings.maxUsagePerCode, discountSnapshot: settings.discountPercentage },
         settings,
-        shopDomain: session?.shop,
+        shopDomain: session.shop,
       });
 
       if (!discount) {
@@ -366,7 +515,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
           shopifyDiscountId: discount.discountId,
           maxUsage: settings.maxUsagePerCode,
           discountSnapshot: settings.discountPercentage,
-          cashbackSnapshot: settings.cashbackAmount,
+          ...buildCashbackSnapshot(settings),
         },
       });
 
@@ -389,7 +538,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
   if (intent === "resend-welcome-email") {
     try {
-      const referrer = await getReferrerDetail(referrerId);
+      const referrer = await getReferrerDetail(session.shop, referrerId);
       if (!referrer) {
         const message = "Parrain introuvable.";
         if (isFetcherRequest) {
@@ -416,10 +565,11 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         return redirect(`/app/parrain/${referrerId}?error=${encodeURIComponent(message)}`);
       }
 
-      const settings = await getReferralSettings();
+      const settings = await getReferralSettings(session.shop, latestCode.workshopProductId);
       const shopUrl = session?.shop ? `https://${session.shop}` : undefined;
 
       await sendManualReferrerWelcomeEmail({
+        shopDomain: session.shop,
         referrerId: referrer.id,
         referrerEmail: referrer.email,
         firstName: referrer.firstName,
@@ -428,7 +578,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
         codeId: latestCode.id,
         expiresAt: latestCode.expiresAt ?? undefined,
         discountPercentage: latestCode.discountSnapshot ?? settings.discountPercentage,
-        cashbackAmount: latestCode.cashbackSnapshot ?? settings.cashbackAmount,
+        cashbackAmount: getCodeCashbackEmailValue(latestCode, settings),
         shopUrl,
       });
 
@@ -450,6 +600,7 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
 
   const rewardId = formData.get("rewardId");
   const orderGidRaw = formData.get("orderGid");
+  const payoutMethodRaw = formData.get("payoutMethod");
   const orderGid =
     typeof orderGidRaw === "string" && orderGidRaw.trim().length > 0
       ? orderGidRaw.trim()
@@ -462,8 +613,10 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   try {
     await processRewardRefund({
       rewardId,
-      shopDomain: session?.shop,
+      shopDomain: session.shop,
       orderGidOverride: orderGid,
+      actor: getAdminActor({ session, sessionToken }),
+      payoutMethod: isPayoutMethod(payoutMethodRaw) ? payoutMethodRaw : undefined,
     });
     if (isFetcherRequest) {
       return json<ActionData>({ success: true });
@@ -627,23 +780,28 @@ function ReferralsTable({
             <IndexTable.Cell>{referral.code ?? "—"}</IndexTable.Cell>
             <IndexTable.Cell>
               {referral.reward ? (
-                <Badge
-                  tone={
-                    referral.reward.status === "PAID"
-                      ? "success"
-                      : referral.reward.status === "PENDING"
-                        ? "attention"
-                        : "critical"
-                  }
-                >
-                  {currencyFormatter.format(referral.reward.amount)}
-                </Badge>
+                <BlockStack gap="050">
+                  <Badge tone={REWARD_STATUS_TONES[referral.reward.status]}>
+                    {currencyFormatter.format(referral.reward.amount)}
+                  </Badge>
+                  {referral.reward.tierDescription ? (
+                    <Text as="span" variant="bodySm" tone="subdued">
+                      {referral.reward.tierDescription}
+                    </Text>
+                  ) : null}
+                </BlockStack>
               ) : (
                 "—"
               )}
             </IndexTable.Cell>
             <IndexTable.Cell>
-              {referral.reward && referral.reward.status === "PENDING" ? (
+              {referral.reward &&
+              PAYABLE_REWARD_STATUSES.includes(referral.reward.status) &&
+              isRewardInHoldPeriod(referral.reward.payableAt) ? (
+                <Text as="span" variant="bodySm" tone="subdued">
+                  {`Payable le ${dateFormatter.format(new Date(referral.reward.payableAt ?? ""))}`}
+                </Text>
+              ) : referral.reward && PAYABLE_REWARD_STATUSES.includes(referral.reward.status) ? (
                 <Button
                   variant="primary"
                   onClick={() => {
@@ -705,9 +863,35 @@ export default function ReferrerDetail() {
   const [activeRewardId, setActiveRewardId] = useState<string | null>(null);
   const [selectedOrderGid, setSelectedOrderGid] = useState<string | null>(null);
   const [orderError, setOrderError] = useState<string | null>(null);
+  const [bankAccountHolder, setBankAccountHolder] = useState(referrer.bankDetails.bankAccountHolder ?? "");
+  const [iban, setIban] = useState(referrer.bankDetails.iban ?? "");
+  const [bic, setBic] = useState(referrer.bankDetails.bic ?? "");
+  const [selectedPayoutMethod, setSelectedPayoutMethod] = useState<PayoutMethodKey>(
+    settings.defaultPayoutMethod,
+  );
   const [syncingCodeId, setSyncingCodeId] = useState<string | null>(null);
   const [discountError, setDiscountError] = useState<string | null>(null);
   const [detailCodeId, setDetailCodeId] = useState<string | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [selectedRewardTab, setSelectedRewardTab] = useState(0);
+  const rewardStatusTabs = useMemo(
+    () =>
+      rewardStatusFilters.map((status) => ({
+        id: `rewards-${status}`,
+        content:
+          status === "ALL"
+            ? `Toutes (${referrer.rewards.length})`
+            : `${REWARD_STATUS_LABELS[status]} (${referrer.rewards.filter((reward) => reward.status === status).length})`,
+      })),
+    [referrer.rewards],
+  );
+  const filteredRewards = useMemo(() => {
+    const status = rewardStatusFilters[selectedRewardTab] ?? "ALL";
+    return status === "ALL"
+      ? referrer.rewards
+      : referrer.rewards.filter((reward) => reward.status === status);
+  }, [referrer.rewards, selectedRewardTab]);
   const activeReferral = useMemo(() => {
     if (!activeRewardId) return null;
     return referrer.referrals.find(
@@ -716,6 +900,15 @@ export default function ReferrerDetail() {
   }, [activeRewardId, referrer.referrals]);
 
   const isModalOpen = activeRewardId !== null;
+  const requiresOrder = payoutMethodRequiresOrder(selectedPayoutMethod);
+
+  useEffect(() => {
+    if (activeReferral?.reward) {
+      const method = activeReferral.reward.payoutMethod ?? settings.defaultPayoutMethod;
+      // Le virement bancaire passe par un lot SEPA : le versement immédiat propose le refund
+      setSelectedPayoutMethod(isDirectPayoutMethod(method) ? method : "ORDER_REFUND");
+    }
+  }, [activeReferral, settings.defaultPayoutMethod]);
 
   const getCodeStatus = useCallback(
     (code: LoaderData["referrer"]["codes"][number]) => {
@@ -723,7 +916,7 @@ export default function ReferrerDetail() {
       const hasDiscountInfo = code.shopifyDiscount !== null && code.shopifyDiscount !== undefined;
       const discountAligned = hasDiscountInfo
         ? discountPercentage !== null
-          ? Math.abs(discountPercentage - settings.discountPercentage) < 0.0001
+          ? Math.abs(discountPercentage - code.program.discountPercentage) < 0.0001
           : false
         : null;
 
@@ -744,7 +937,15 @@ export default function ReferrerDetail() {
       const cashbackAligned =
         cashbackSnapshot === null || cashbackSnapshot === undefined
           ? null
-          : Math.abs(cashbackSnapshot - settings.cashbackAmount) < 0.01;
+          : areCashbackTermsEqual(cashbackSnapshot, code.program.cashbackTerms);
+
+      const discountItems = code.shopifyDiscount?.items ?? null;
+      const expectedItems = code.program.discountItems;
+      const itemsAligned = discountItems
+        ? discountItems.type === expectedItems.type &&
+          discountItems.ids.length === expectedItems.ids.length &&
+          expectedItems.ids.every((id) => discountItems.ids.includes(id))
+        : null;
 
       const mismatches: string[] = [];
       if (discountAligned === false) {
@@ -761,19 +962,24 @@ export default function ReferrerDetail() {
       if (cashbackAligned === false) {
         mismatches.push("Cashback");
       }
+      if (itemsAligned === false) {
+        mismatches.push("Articles éligibles");
+      }
 
       const needsSync =
         discountAligned === null ||
         discountAligned === false ||
         !usageAligned ||
         appliesOnceAligned === false ||
-        cashbackAligned === false;
+        cashbackAligned === false ||
+        itemsAligned === false;
 
       return {
         discountAligned,
         usageAligned,
         appliesOnceAligned,
         cashbackAligned,
+        itemsAligned,
         maxUsageShopify,
         mismatches,
         needsSync,
@@ -784,8 +990,6 @@ export default function ReferrerDetail() {
     },
     [
       settings.appliesOncePerCustomer,
-      settings.cashbackAmount,
-      settings.discountPercentage,
       settings.maxUsagePerCode,
     ],
   );
@@ -797,6 +1001,35 @@ export default function ReferrerDetail() {
 
   const detailStatus = detailCode ? getCodeStatus(detailCode) : null;
 
+  // Le fichier est récupéré via fetch pour conserver l'authentification de l'app intégrée
+  const handleDataExport = useCallback(async () => {
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      const response = await fetch(`/app/parrain/${referrer.id}/export`);
+
+      if (!response.ok) {
+        setExportError((await response.text()) || "Impossible d'exporter les données du parrain.");
+        return;
+      }
+
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "donnees-parrain.json";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("❌ Export des données du parrain impossible", error);
+      setExportError("Impossible d'exporter les données du parrain.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [referrer.id]);
+
   const handleSyncDiscount = useCallback(
     (codeId: string) => {
       setSyncingCodeId(codeId);
@@ -847,12 +1080,20 @@ export default function ReferrerDetail() {
     <Page
       title={`Parrain : ${referrer.name}`}
       backAction={{ content: "Retour", url: "/app/referrers" }}
+      secondaryActions={[
+        { content: "Exporter les données (RGPD)", onAction: handleDataExport, loading: isExporting },
+      ]}
     >
       {flash && (
         <Banner tone={flash.type === "success" ? "success" : "critical"}>
           {flash.message}
         </Banner>
       )}
+      {exportError && (
+        <Banner tone="critical" onDismiss={() => setExportError(null)}>
+          {exportError}
+        </Banner>
+      )}
       <Layout>
         <Layout.Section>
           <Card>
@@ -959,6 +1200,49 @@ export default function ReferrerDetail() {
           </Card>
         </Layout.Section>
 
+        <Layout.Section>
+          <Card>
+            <Form method="post">
+              <input type="hidden" name="intent" value="save-bank-details" />
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Coordonnées bancaires
+                </Text>
+                <Text as="p" variant="bodySm" tone="subdued">
+                  Utilisées pour les récompenses versées par virement bancaire (fichier SEPA exporté depuis la page
+                  Versements). Laissez l'IBAN vide pour supprimer les coordonnées.
+                </Text>
+                <InlineStack gap="300" wrap>
+                  <TextField
+                    label="Titulaire du compte"
+                    name="bankAccountHolder"
+                    autoComplete="off"
+                    value={bankAccountHolder}
+                    onChange={setBankAccountHolder}
+                  />
+                  <TextField
+                    label="IBAN"
+                    name="iban"
+                    autoComplete="off"
+                    value={iban}
+                    onChange={setIban}
+                  />
+                  <TextField
+                    label="BIC (facultatif)"
+                    name="bic"
+                    autoComplete="off"
+                    value={bic}
+                    onChange={setBic}
+                  />
+                </InlineStack>
+                <InlineStack>
+                  <Button submit>Enregistrer les coordonnées</Button>
+                </InlineStack>
+              </BlockStack>
+            </Form>
+          </Card>
+        </Layout.Section>
+
         <Layout.Section>
           <Card>
             <BlockStack gap="200">
@@ -1069,11 +1353,53 @@ export default function ReferrerDetail() {
           </Card>
         </Layout.Section>
 
+        {referrer.rejections.length > 0 && (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Parrainages refusés
+                </Text>
+                <IndexTable
+                  resourceName={{ singular: "refus", plural: "refus" }}
+                  itemCount={referrer.rejections.length}
+                  headings={[
+                    { title: "Date" },
+                    { title: "Filleul" },
+                    { title: "Code" },
+                    { title: "Motif" },
+                  ]}
+                  selectable={false}
+                >
+                  {referrer.rejections.map((rejection, index) => (
+                    <IndexTable.Row id={rejection.id} key={rejection.id} position={index}>
+                      <IndexTable.Cell>{dateFormatter.format(new Date(rejection.createdAt))}</IndexTable.Cell>
+                      <IndexTable.Cell>{rejection.refereeEmail ?? "—"}</IndexTable.Cell>
+                      <IndexTable.Cell>{rejection.code}</IndexTable.Cell>
+                      <IndexTable.Cell>
+                        <BlockStack gap="050">
+                          <Badge tone="warning">{REFERRAL_REJECTION_REASON_LABELS[rejection.reason]}</Badge>
+                          {rejection.details ? (
+                            <Text as="span" variant="bodySm" tone="subdued">
+                              {rejection.details}
+                            </Text>
+                          ) : null}
+                        </BlockStack>
+                      </IndexTable.Cell>
+                    </IndexTable.Row>
+                  ))}
+                </IndexTable>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        )}
+
         <Layout.Section>
-          <Card>
+          <Card padding="0">
+            <Tabs tabs={rewardStatusTabs} selected={selectedRewardTab} onSelect={setSelectedRewardTab} />
             <IndexTable
               resourceName={{ singular: "récompense", plural: "récompenses" }}
-              itemCount={referrer.rewards.length}
+              itemCount={filteredRewards.length}
               headings={[
                 { title: "Date" },
                 { title: "Montant" },
@@ -1082,30 +1408,43 @@ export default function ReferrerDetail() {
               ]}
               selectable={false}
             >
-              {referrer.rewards.map((reward, index) => (
+              {filteredRewards.map((reward, index) => (
                 <IndexTable.Row id={reward.id} key={reward.id} position={index}>
                   <IndexTable.Cell>
                     {dateFormatter.format(new Date(reward.createdAt))}
                   </IndexTable.Cell>
                   <IndexTable.Cell>
-                    {currencyFormatter.format(reward.amount)}
+                    <BlockStack gap="050">
+                      <Text as="span" variant="bodyMd">
+                        {currencyFormatter.format(reward.amount)}
+                      </Text>
+                      {reward.tierDescription ? (
+                        <Text as="span" variant="bodySm" tone="subdued">
+                          {reward.tierDescription}
+                        </Text>
+                      ) : null}
+                    </BlockStack>
                   </IndexTable.Cell>
                   <IndexTable.Cell>
-                    <Badge
-                      tone={
-                        reward.status === "PAID"
-                          ? "success"
-                          : reward.status === "PENDING"
-                            ? "attention"
-                            : "critical"
-                      }
-                    >
-                      {reward.status === "PAID"
-                        ? "Payée"
-                        : reward.status === "PENDING"
-                          ? "En attente"
-                          : "Erreur"}
-                    </Badge>
+                    <BlockStack gap="100">
+                      <InlineStack gap="100">
+                        <Badge tone={REWARD_STATUS_TONES[reward.status]}>
+                          {REWARD_STATUS_LABELS[reward.status]}
+                        </Badge>
+                        {reward.recoveryRequiredAt && <Badge tone="warning">À récupérer</Badge>}
+                        {reward.fraudSignals.length > 0 && (
+                          <Badge tone={isFraudScoreSuspicious(reward.fraudScore ?? 0) ? "critical" : "attention"}>
+                            {`Fraude : score ${reward.fraudScore ?? 0}`}
+                          </Badge>
+                        )}
+                      </InlineStack>
+                      {reward.fraudSignals.map((signal) => (
+                        <Text as="span" variant="bodySm" tone="subdued" key={signal.id}>
+                          {FRAUD_SIGNAL_LABELS[signal.type]}
+                          {signal.details ? ` (${signal.details})` : ""}
+                        </Text>
+                      ))}
+                    </BlockStack>
                   </IndexTable.Cell>
                   <IndexTable.Cell>
                     {reward.paidAt ? dateFormatter.format(new Date(reward.paidAt)) : "—"}
@@ -1179,7 +1518,8 @@ export default function ReferrerDetail() {
                       : "—"}
                 </Text>
                 <Text variant="bodySm" tone="subdued" as="p">
-                  Paramètre global : {percentageFormatter.format(settings.discountPercentage)}
+                  {detailCode.program.custom ? "Programme du workshop" : "Paramètre global"} :{" "}
+                  {percentageFormatter.format(detailCode.program.discountPercentage)}
                 </Text>
                 {detailCode.snapshots.discount !== null &&
                   detailCode.snapshots.discount !== undefined ? (
@@ -1194,6 +1534,25 @@ export default function ReferrerDetail() {
                 )}
               </BlockStack>
 
+              <BlockStack gap="100">
+                <Text as="h3" variant="headingSm">
+                  Articles éligibles
+                </Text>
+                <Text variant="bodyMd" as="p">
+                  {!detailCode.shopifyDiscount?.items
+                    ? "—"
+                    : detailCode.shopifyDiscount.items.type === "ALL"
+                      ? "Toute la boutique"
+                      : `${detailCode.shopifyDiscount.items.type === "PRODUCTS" ? "Produits" : "Collections"} : ${detailCode.shopifyDiscount.items.titles.join(", ")}`}
+                </Text>
+                <Text variant="bodySm" tone="subdued" as="p">
+                  Paramètre :{" "}
+                  {detailCode.program.discountItems.type === "ALL"
+                    ? "Toute la boutique"
+                    : `${detailCode.program.discountItems.ids.length} ${detailCode.program.discountItems.type === "PRODUCTS" ? "produit(s)" : "collection(s)"} ciblé(s)`}
+                </Text>
+              </BlockStack>
+
               <BlockStack gap="100">
                 <Text as="h3" variant="headingSm">
                   Usage et limites
@@ -1227,12 +1586,19 @@ export default function ReferrerDetail() {
                   Historique code :{" "}
                   {detailCode.snapshots.cashback !== null &&
                     detailCode.snapshots.cashback !== undefined
-                    ? currencyFormatter.format(detailCode.snapshots.cashback)
+                    ? formatCashbackTerms(detailCode.snapshots.cashback, currencyFormatter.format)
                     : "—"}
                 </Text>
                 <Text variant="bodySm" tone="subdued" as="p">
-                  Paramètre global : {currencyFormatter.format(settings.cashbackAmount)}
+                  {detailCode.program.custom ? "Programme du workshop" : "Paramètre global"} :{" "}
+                  {formatCashbackTerms(detailCode.program.cashbackTerms, currencyFormatter.format)}
                 </Text>
+                {resolveCashbackTierRanges(detailCode.program.cashbackTiers).map((tier) => (
+                  <Text key={tier.minReferrals} variant="bodySm" tone="subdued" as="p">
+                    Palier {formatCashbackTierRange(tier.minReferrals, tier.maxReferrals)} :{" "}
+                    {currencyFormatter.format(tier.amount)}
+                  </Text>
+                ))}
               </BlockStack>
 
               <BlockStack gap="100">
@@ -1268,10 +1634,20 @@ export default function ReferrerDetail() {
           setSelectedOrderGid(null);
           setOrderError(null);
         }}
-        title="Sélectionner une commande à rembourser"
+        title="Verser la récompense"
         primaryAction={{
-          content: "Rembourser",
+          content: requiresOrder ? "Rembourser" : "Verser",
           onAction: () => {
+            if (!requiresOrder) {
+              refundFetcher.submit(
+                {
+                  rewardId: activeRewardId ?? "",
+                  payoutMethod: selectedPayoutMethod,
+                },
+                { method: "post" },
+              );
+              return;
+            }
             if (!selectedOrderGid) {
               setOrderError("Sélectionne la commande à rembourser.");
               return;
@@ -1280,12 +1656,13 @@ export default function ReferrerDetail() {
               {
                 rewardId: activeRewardId ?? "",
                 orderGid: selectedOrderGid ?? "",
+                payoutMethod: selectedPayoutMethod,
               },
               { method: "post" },
             );
           },
           loading: isModalSubmitting,
-          disabled: isModalSubmitting || orders.length === 0,
+          disabled: isModalSubmitting || (requiresOrder && orders.length === 0),
         }}
         secondaryActions={[
           {
@@ -1304,12 +1681,29 @@ export default function ReferrerDetail() {
           <BlockStack gap="300">
             {activeReferral?.reward ? (
               <Text as="p" variant="bodyMd" tone="subdued">
-                Refund de {currencyFormatter.format(activeReferral.reward.amount)} pour{" "}
+                {PAYOUT_METHOD_LABELS[selectedPayoutMethod]} de{" "}
+                {currencyFormatter.format(activeReferral.reward.amount)} pour{" "}
                 {referrer.email ?? referrer.shopifyCustomerId}.
               </Text>
             ) : null}
 
-            {orders.length === 0 ? (
+            <ChoiceList
+              title="Mode de versement"
+              choices={PAYOUT_METHODS.filter(isDirectPayoutMethod).map((method) => ({
+                label: PAYOUT_METHOD_LABELS[method],
+                value: method,
+                helpText: PAYOUT_METHOD_DESCRIPTIONS[method],
+              }))}
+              selected={[selectedPayoutMethod]}
+              onChange={(value) => {
+                if (isPayoutMethod(value[0])) {
+                  setSelectedPayoutMethod(value[0]);
+                  setOrderError(null);
+                }
+              }}
+            />
+
+            {!requiresOrder ? null : orders.length === 0 ? (
               <Banner tone="warning">
                 Aucune commande trouvée pour ce parrain sur Shopify. Il doit avoir acheté pour déclencher un remboursement.
               </Banner>
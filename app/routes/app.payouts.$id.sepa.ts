@@ -0,0 +1,29 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "app/shopify.server";
+import { buildSepaCreditTransferXml } from "app/services/bankTransfers.server";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const batchId = params.id;
+
+  if (!batchId) {
+    throw new Response("Virement introuvable", { status: 404 });
+  }
+
+  try {
+    const { fileName, xml } = await buildSepaCreditTransferXml(session.shop, batchId);
+
+    return new Response(xml, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Erreur inattendue lors de l'export du virement.";
+    return new Response(message, { status: 400 });
+  }
+};
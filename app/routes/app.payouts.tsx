@@ -0,0 +1,444 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Form, Link, useLoaderData, useNavigation } from "@remix-run/react";
+import { Page, Card, IndexTable, Text, Badge, Button, InlineStack, BlockStack, Banner } from "@shopify/polaris";
+import { useCallback, useState } from "react";
+import { authenticate } from "app/shopify.server";
+import { getAdminActor } from "app/services/adminActor.server";
+import {
+  listPayableRewards,
+  listPayoutBatches,
+  parsePayoutReport,
+  runPayoutBatch,
+  type PayoutReportEntry,
+} from "app/services/payouts.server";
+import { getReferralSettings } from "app/services/settings.server";
+import {
+  cancelBankTransferBatch,
+  confirmBankTransferBatch,
+  createBankTransferBatch,
+  listBankTransferRewards,
+} from "app/services/bankTransfers.server";
+import { PAYOUT_OUTCOME_LABELS, PAYOUT_OUTCOME_TONES } from "app/models/reward";
+
+const currencyFormatter = new Intl.NumberFormat("fr-FR", {
+  style: "currency",
+  currency: "EUR",
+});
+
+const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+type BatchTrigger = "SCHEDULED" | "MANUAL" | "BANK_TRANSFER";
+type BatchStatus = "RUNNING" | "AWAITING_CONFIRMATION" | "COMPLETED" | "FAILED" | "CANCELLED";
+
+const triggerLabels: Record<BatchTrigger, string> = {
+  SCHEDULED: "Automatique",
+  MANUAL: "Manuel",
+  BANK_TRANSFER: "Virement SEPA",
+};
+
+const statusLabels: Record<BatchStatus, string> = {
+  RUNNING: "En cours",
+  AWAITING_CONFIRMATION: "À confirmer",
+  COMPLETED: "Terminé",
+  FAILED: "Interrompu",
+  CANCELLED: "Annulé",
+};
+
+const statusTones: Record<BatchStatus, "success" | "attention" | "critical" | "info" | undefined> = {
+  RUNNING: "attention",
+  AWAITING_CONFIRMATION: "info",
+  COMPLETED: "success",
+  FAILED: "critical",
+  CANCELLED: undefined,
+};
+
+type LoaderData = {
+  autoPayoutEnabled: boolean;
+  payableCount: number;
+  payableAmount: number;
+  bankTransferCount: number;
+  bankTransferAmount: number;
+  batches: Array<{
+    id: string;
+    trigger: BatchTrigger;
+    status: BatchStatus;
+    totalCount: number;
+    paidCount: number;
+    failedCount: number;
+    skippedCount: number;
+    paidAmount: number;
+    errorMessage: string | null;
+    startedAt: string;
+    completedAt: string | null;
+  }>;
+  selectedBatch: {
+    id: string;
+    trigger: BatchTrigger;
+    status: BatchStatus;
+    sepaMessageId: string | null;
+    confirmedBy: string | null;
+    startedAt: string;
+    errorMessage: string | null;
+    report: PayoutReportEntry[];
+  } | null;
+  flash: { type: "success" | "error"; message: string } | null;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const successMessage = url.searchParams.get("success");
+  const errorMessage = url.searchParams.get("error");
+  const selectedBatchId = url.searchParams.get("batch");
+
+  const settings = await getReferralSettings(session.shop);
+  const [payableRewards, bankTransferRewards, batches] = await Promise.all([
+    listPayableRewards(session.shop),
+    listBankTransferRewards(session.shop, settings),
+    listPayoutBatches(session.shop, 30),
+  ]);
+
+  // Par défaut, le rapport du dernier versement est affiché
+  const selected = batches.find((batch) => batch.id === selectedBatchId) ?? batches[0] ?? null;
+
+  const flash = successMessage
+    ? { type: "success" as const, message: successMessage }
+    : errorMessage
+      ? { type: "error" as const, message: errorMessage }
+      : null;
+
+  return json<LoaderData>({
+    autoPayoutEnabled: settings.autoPayoutEnabled,
+    payableCount: payableRewards.length,
+    payableAmount: payableRewards.reduce((total, reward) => total + reward.amount, 0),
+    bankTransferCount: bankTransferRewards.length,
+    bankTransferAmount: bankTransferRewards.reduce((total, reward) => total + reward.amount, 0),
+    batches: batches.map((batch) => ({
+      id: batch.id,
+      trigger: batch.trigger,
+      status: batch.status,
+      totalCount: batch.totalCount,
+      paidCount: batch.paidCount,
+      failedCount: batch.failedCount,
+      skippedCount: batch.skippedCount,
+      paidAmount: batch.paidAmount,
+      errorMessage: batch.errorMessage,
+      startedAt: batch.startedAt.toISOString(),
+      completedAt: batch.completedAt ? batch.completedAt.toISOString() : null,
+    })),
+    selectedBatch: selected
+      ? {
+          id: selected.id,
+          trigger: selected.trigger,
+          status: selected.status,
+          sepaMessageId: selected.sepaMessageId,
+          confirmedBy: selected.confirmedBy,
+          startedAt: selected.startedAt.toISOString(),
+          errorMessage: selected.errorMessage,
+          report: parsePayoutReport(selected.report),
+        }
+      : null,
+    flash,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const actor = getAdminActor({ session, sessionToken });
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const batchId = formData.get("batchId");
+
+  try {
+    if (intent === "prepare-transfer") {
+      const batch = await createBankTransferBatch({ shopDomain: session.shop, actor });
+      const message = `Virement préparé : ${batch.totalCount - batch.skippedCount} récompense(s) à virer, ${batch.skippedCount} ignorée(s). Téléchargez le fichier SEPA puis confirmez une fois le virement exécuté.`;
+      return redirect(`/app/payouts?batch=${batch.id}&success=${encodeURIComponent(message)}`);
+    }
+
+    if (intent === "confirm-transfer" || intent === "cancel-transfer") {
+      if (typeof batchId !== "string" || !batchId) {
+        throw new Error("Identifiant de virement manquant.");
+      }
+
+      if (intent === "cancel-transfer") {
+        await cancelBankTransferBatch(session.shop, batchId, actor);
+        return redirect(`/app/payouts?batch=${batchId}&success=${encodeURIComponent("Virement annulé.")}`);
+      }
+
+      const batch = await confirmBankTransferBatch(session.shop, batchId, actor);
+      const message = `Virement confirmé : ${batch.paidCount} récompense(s) payée(s), ${batch.failedCount} en erreur.`;
+      return redirect(`/app/payouts?batch=${batch.id}&success=${encodeURIComponent(message)}`);
+    }
+
+    const batch = await runPayoutBatch({
+      trigger: "MANUAL",
+      shopDomain: session.shop,
+      actor,
+    });
+    const message = `Versement terminé : ${batch.paidCount} payée(s), ${batch.failedCount} en erreur, ${batch.skippedCount} ignorée(s).`;
+    return redirect(`/app/payouts?batch=${batch.id}&success=${encodeURIComponent(message)}`);
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Erreur inattendue lors du versement.";
+    return redirect("/app/payouts?error=" + encodeURIComponent(message));
+  }
+};
+
+export default function PayoutsPage() {
+  const {
+    autoPayoutEnabled,
+    payableCount,
+    payableAmount,
+    bankTransferCount,
+    bankTransferAmount,
+    batches,
+    selectedBatch,
+    flash,
+  } = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+  const submittingIntent = navigation.formData?.get("intent") ?? null;
+  const isAwaitingTransfer =
+    selectedBatch?.trigger === "BANK_TRANSFER" && selectedBatch.status === "AWAITING_CONFIRMATION";
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Le fichier est récupéré via fetch pour conserver l'authentification de l'app intégrée
+  const handleSepaDownload = useCallback(async (batchId: string) => {
+    setIsDownloading(true);
+    setDownloadError(null);
+
+    try {
+      const response = await fetch(`/app/payouts/${batchId}/sepa`);
+
+      if (!response.ok) {
+        setDownloadError((await response.text()) || "Impossible de télécharger le fichier SEPA.");
+        return;
+      }
+
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "virement-sepa.xml";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("❌ Téléchargement du fichier SEPA impossible", error);
+      setDownloadError("Impossible de télécharger le fichier SEPA.");
+    } finally {
+      setIsDownloading(false);
+    }
+  }, []);
+
+  return (
+    <Page title="Versements">
+      <BlockStack gap="400">
+        {flash && (
+          <Banner tone={flash.type === "success" ? "success" : "critical"}>
+            {flash.message}
+          </Banner>
+        )}
+        <Card>
+          <BlockStack gap="300">
+            <Text variant="bodyMd" as="p" tone="subdued">
+              Un versement paie toutes les récompenses approuvées dont la période de rétention est écoulée, dans la limite
+              de refund par commande. Les récompenses qui dépassent la limite sont ignorées et restent approuvées.
+            </Text>
+            <InlineStack gap="300" blockAlign="center">
+              <Badge tone={autoPayoutEnabled ? "success" : undefined}>
+                {autoPayoutEnabled ? "Versement automatique quotidien activé" : "Versement automatique désactivé"}
+              </Badge>
+              <Link to="/app/settings">Modifier dans les paramètres</Link>
+            </InlineStack>
+            <InlineStack align="space-between" blockAlign="center">
+              <Text variant="bodyMd" as="p">
+                {`${payableCount} récompense(s) éligible(s) pour ${currencyFormatter.format(payableAmount)}`}
+              </Text>
+              <Form method="post">
+                <input type="hidden" name="intent" value="run" />
+                <Button
+                  variant="primary"
+                  submit
+                  disabled={isSubmitting || payableCount === 0}
+                  loading={isSubmitting && submittingIntent === "run"}
+                >
+                  Lancer un versement maintenant
+                </Button>
+              </Form>
+            </InlineStack>
+          </BlockStack>
+        </Card>
+        <Card>
+          <BlockStack gap="300">
+            <Text variant="headingMd" as="h2">
+              Virements bancaires
+            </Text>
+            <Text variant="bodyMd" as="p" tone="subdued">
+              Les récompenses versées par virement bancaire sont regroupées dans un fichier SEPA (pain.001) à importer
+              dans votre banque. Elles passent en payées une fois le virement confirmé ici. Les parrains sans IBAN sont
+              ignorés.
+            </Text>
+            <InlineStack align="space-between" blockAlign="center">
+              <Text variant="bodyMd" as="p">
+                {`${bankTransferCount} récompense(s) à virer pour ${currencyFormatter.format(bankTransferAmount)}`}
+              </Text>
+              <Form method="post">
+                <input type="hidden" name="intent" value="prepare-transfer" />
+                <Button
+                  submit
+                  disabled={isSubmitting || bankTransferCount === 0}
+                  loading={isSubmitting && submittingIntent === "prepare-transfer"}
+                >
+                  Préparer un virement SEPA
+                </Button>
+              </Form>
+            </InlineStack>
+          </BlockStack>
+        </Card>
+        <Card>
+          <IndexTable
+            resourceName={{ singular: "versement", plural: "versements" }}
+            itemCount={batches.length}
+            selectable={false}
+            emptyState={
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Aucun versement effectué pour le moment.
+              </Text>
+            }
+            headings={[
+              { title: "Date" },
+              { title: "Déclenchement" },
+              { title: "Statut" },
+              { title: "Payées" },
+              { title: "Erreurs" },
+              { title: "Ignorées" },
+              { title: "Montant versé" },
+              { title: "" },
+            ]}
+          >
+            {batches.map((batch, index) => (
+              <IndexTable.Row
+                id={batch.id}
+                key={batch.id}
+                position={index}
+                selected={selectedBatch?.id === batch.id}
+              >
+                <IndexTable.Cell>{dateFormatter.format(new Date(batch.startedAt))}</IndexTable.Cell>
+                <IndexTable.Cell>{triggerLabels[batch.trigger]}</IndexTable.Cell>
+                <IndexTable.Cell>
+                  <Badge tone={statusTones[batch.status]}>{statusLabels[batch.status]}</Badge>
+                </IndexTable.Cell>
+                <IndexTable.Cell>{`${batch.paidCount} / ${batch.totalCount}`}</IndexTable.Cell>
+                <IndexTable.Cell>{batch.failedCount}</IndexTable.Cell>
+                <IndexTable.Cell>{batch.skippedCount}</IndexTable.Cell>
+                <IndexTable.Cell>{currencyFormatter.format(batch.paidAmount)}</IndexTable.Cell>
+                <IndexTable.Cell>
+                  <Link to={`/app/payouts?batch=${batch.id}`}>Rapport</Link>
+                </IndexTable.Cell>
+              </IndexTable.Row>
+            ))}
+          </IndexTable>
+        </Card>
+        {selectedBatch && (
+          <Card>
+            <BlockStack gap="300">
+              <Text variant="headingMd" as="h2">
+                {`Rapport du versement du ${dateFormatter.format(new Date(selectedBatch.startedAt))}`}
+              </Text>
+              {selectedBatch.sepaMessageId && (
+                <Text variant="bodySm" as="p" tone="subdued">
+                  {`Référence SEPA : ${selectedBatch.sepaMessageId}${
+                    selectedBatch.confirmedBy ? ` · confirmé par ${selectedBatch.confirmedBy}` : ""
+                  }`}
+                </Text>
+              )}
+              {selectedBatch.errorMessage && <Banner tone="warning">{selectedBatch.errorMessage}</Banner>}
+              {downloadError && (
+                <Banner tone="critical" onDismiss={() => setDownloadError(null)}>
+                  {downloadError}
+                </Banner>
+              )}
+              {selectedBatch.trigger === "BANK_TRANSFER" && selectedBatch.status !== "CANCELLED" && (
+                <InlineStack gap="200">
+                  <Button onClick={() => handleSepaDownload(selectedBatch.id)} loading={isDownloading}>
+                    Télécharger le fichier SEPA
+                  </Button>
+                  {isAwaitingTransfer && (
+                    <>
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="confirm-transfer" />
+                        <input type="hidden" name="batchId" value={selectedBatch.id} />
+                        <Button
+                          variant="primary"
+                          submit
+                          disabled={isSubmitting}
+                          loading={isSubmitting && submittingIntent === "confirm-transfer"}
+                        >
+                          Confirmer le virement
+                        </Button>
+                      </Form>
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="cancel-transfer" />
+                        <input type="hidden" name="batchId" value={selectedBatch.id} />
+                        <Button
+                          tone="critical"
+                          submit
+                          disabled={isSubmitting}
+                          loading={isSubmitting && submittingIntent === "cancel-transfer"}
+                        >
+                          Annuler le virement
+                        </Button>
+                      </Form>
+                    </>
+                  )}
+                </InlineStack>
+              )}
+              <IndexTable
+                resourceName={{ singular: "récompense", plural: "récompenses" }}
+                itemCount={selectedBatch.report.length}
+                selectable={false}
+                emptyState={
+                  <Text as="p" variant="bodyMd" tone="subdued">
+                    Aucune récompense éligible lors de ce versement.
+                  </Text>
+                }
+                headings={[
+                  { title: "Parrain" },
+                  { title: "Montant" },
+                  { title: "Résultat" },
+                  { title: "Détail" },
+                ]}
+              >
+                {selectedBatch.report.map((entry, index) => (
+                  <IndexTable.Row id={entry.rewardId} key={entry.rewardId} position={index}>
+                    <IndexTable.Cell>
+                      <Link to={`/app/parrain/${entry.referrerId}`}>{entry.referrerName}</Link>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{currencyFormatter.format(entry.amount)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={PAYOUT_OUTCOME_TONES[entry.outcome]}>{PAYOUT_OUTCOME_LABELS[entry.outcome]}</Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Text variant="bodySm" as="p" tone="subdued" breakWord>
+                        {entry.message ?? "—"}
+                      </Text>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </BlockStack>
+          </Card>
+        )}
+      </BlockStack>
+    </Page>
+  );
+}
@@ -0,0 +1,28 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "app/shopify.server";
+import { getPrivacyRequestExport } from "app/services/privacy.server";
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const privacyRequestId = params.id;
+
+  if (!privacyRequestId) {
+    throw new Response("Demande introuvable", { status: 404 });
+  }
+
+  try {
+    const { exportData, shopifyCustomerId } = await getPrivacyRequestExport(session.shop, privacyRequestId);
+
+    return new Response(JSON.stringify(exportData, null, 2), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="donnees-client-${shopifyCustomerId ?? privacyRequestId}.json"`,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Erreur inattendue lors de l'export des données.";
+    return new Response(message, { status: 400 });
+  }
+};
@@ -0,0 +1,155 @@
+import type { LoaderFunctionArgs } from "@remix-run/node";
+import { json } from "@remix-run/node";
+import { useLoaderData } from "@remix-run/react";
+import { Page, Card, IndexTable, Text, Badge, Button, BlockStack, Banner } from "@shopify/polaris";
+import { useCallback, useState } from "react";
+import { authenticate } from "app/shopify.server";
+import { listPrivacyRequests } from "app/services/privacy.server";
+import { PRIVACY_REQUEST_TOPIC_LABELS, PrivacyRequestTopic, type PrivacyRequestTopicKey } from "app/models/privacy";
+
+const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+type LoaderData = {
+  requests: Array<{
+    id: string;
+    topic: PrivacyRequestTopicKey;
+    shopifyCustomerId: string | null;
+    email: string | null;
+    orderCount: number;
+    completedAt: string | null;
+    createdAt: string;
+  }>;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const requests = await listPrivacyRequests(session.shop, 100);
+
+  return json<LoaderData>({
+    requests: requests.map((privacyRequest) => ({
+      id: privacyRequest.id,
+      topic: privacyRequest.topic,
+      shopifyCustomerId: privacyRequest.shopifyCustomerId,
+      email: privacyRequest.email,
+      orderCount: privacyRequest.orderIds.length,
+      completedAt: privacyRequest.completedAt ? privacyRequest.completedAt.toISOString() : null,
+      createdAt: privacyRequest.createdAt.toISOString(),
+    })),
+  });
+};
+
+export default function PrivacyPage() {
+  const { requests } = useLoaderData<typeof loader>();
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // Le fichier est récupéré via fetch pour conserver l'authentification de l'app intégrée
+  const handleExportDownload = useCallback(async (privacyRequestId: string) => {
+    setDownloadingId(privacyRequestId);
+    setDownloadError(null);
+
+    try {
+      const response = await fetch(`/app/privacy/${privacyRequestId}/export`);
+
+      if (!response.ok) {
+        setDownloadError((await response.text()) || "Impossible de télécharger l'export.");
+        return;
+      }
+
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="(.+)"/)?.[1] ?? "donnees-client.json";
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("❌ Téléchargement de l'export impossible", error);
+      setDownloadError("Impossible de télécharger l'export.");
+    } finally {
+      setDownloadingId(null);
+    }
+  }, []);
+
+  return (
+    <Page title="Données personnelles (RGPD)">
+      <BlockStack gap="400">
+        {downloadError && (
+          <Banner tone="critical" onDismiss={() => setDownloadError(null)}>
+            {downloadError}
+          </Banner>
+        )}
+        <Card>
+          <Text variant="bodyMd" as="p" tone="subdued">
+            Demandes reçues via les webhooks de conformité Shopify. Une demande d'accès produit un export JSON à
+            transmettre au client ; un effacement anonymise ses données sans modifier les montants ni l'historique des
+            récompenses. Les données de la boutique sont supprimées 48 h après la désinstallation de l'app.
+          </Text>
+        </Card>
+        <Card>
+          <IndexTable
+            resourceName={{ singular: "demande", plural: "demandes" }}
+            itemCount={requests.length}
+            selectable={false}
+            emptyState={
+              <Text as="p" variant="bodyMd" tone="subdued">
+                Aucune demande reçue.
+              </Text>
+            }
+            headings={[
+              { title: "Demande" },
+              { title: "Client" },
+              { title: "Commandes" },
+              { title: "Statut" },
+              { title: "" },
+            ]}
+          >
+            {requests.map((privacyRequest, index) => (
+              <IndexTable.Row id={privacyRequest.id} key={privacyRequest.id} position={index}>
+                <IndexTable.Cell>
+                  <Text variant="bodyMd" fontWeight="bold" as="h3">
+                    {PRIVACY_REQUEST_TOPIC_LABELS[privacyRequest.topic]}
+                  </Text>
+                  <Text variant="bodySm" as="p" tone="subdued">
+                    {dateFormatter.format(new Date(privacyRequest.createdAt))}
+                  </Text>
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  {privacyRequest.topic === PrivacyRequestTopic.SHOP_REDACT
+                    ? "Toute la boutique"
+                    : [privacyRequest.email, privacyRequest.shopifyCustomerId].filter(Boolean).join(" · ") || "—"}
+                </IndexTable.Cell>
+                <IndexTable.Cell>{privacyRequest.orderCount || "—"}</IndexTable.Cell>
+                <IndexTable.Cell>
+                  {privacyRequest.completedAt ? (
+                    <Badge tone="success">
+                      {`Traitée le ${dateFormatter.format(new Date(privacyRequest.completedAt))}`}
+                    </Badge>
+                  ) : (
+                    <Badge tone="attention">En cours</Badge>
+                  )}
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  {privacyRequest.topic === PrivacyRequestTopic.CUSTOMER_DATA_REQUEST &&
+                    privacyRequest.completedAt && (
+                      <Button
+                        onClick={() => handleExportDownload(privacyRequest.id)}
+                        loading={downloadingId === privacyRequest.id}
+                      >
+                        Télécharger l'export
+                      </Button>
+                    )}
+                </IndexTable.Cell>
+              </IndexTable.Row>
+            ))}
+          </IndexTable>
+        </Card>
+      </BlockStack>
+    </Page>
+  );
+}
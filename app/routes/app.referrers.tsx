@@ -4,6 +4,7 @@ import { Form, useLoaderData, useNavigation, useSearchParams } from "@remix-run/
 import { Page, Card, IndexTable, Text, Badge, Button, BlockStack, InlineStack, Banner, TextField, Pagination } from "@shopify/polaris";
 import { useState, useCallback } from "react";
 import { authenticate } from "app/shopify.server";
+import { getAdminActor } from "app/services/adminActor.server";
 import { listReferrersWithStats } from "app/services/referrers.server";
 import { processRewardRefund } from "app/services/rewards.server";
 
@@ -42,7 +43,7 @@ type LoaderData = {
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   const url = new URL(request.url);
   const hasSuccess = url.searchParams.get("success") === "1";
@@ -53,7 +54,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
   const offset = (page - 1) * perPage;
 
-  const result = await listReferrersWithStats({
+  const result = await listReferrersWithStats(session.shop, {
     limit: perPage,
     offset,
     search: search.trim() || undefined,
@@ -93,7 +94,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, sessionToken } = await authenticate.admin(request);
 
   const formData = await request.formData();
   const rewardId = formData.get("rewardId");
@@ -105,7 +106,8 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   try {
     await processRewardRefund({
       rewardId,
-      shopDomain: session?.shop,
+      shopDomain: session.shop,
+      actor: getAdminActor({ session, sessionToken }),
     });
     return redirect("/app/referrers?success=1");
   } catch (error) {
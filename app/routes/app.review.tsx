@@ -0,0 +1,443 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { json, redirect } from "@remix-run/node";
+import { Link, useLoaderData, useNavigation, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Card,
+  IndexTable,
+  Text,
+  Badge,
+  Button,
+  InlineStack,
+  BlockStack,
+  Banner,
+  Divider,
+  Modal,
+  TextField,
+} from "@shopify/polaris";
+import { useEffect, useState } from "react";
+import { authenticate } from "app/shopify.server";
+import { getAdminActor } from "app/services/adminActor.server";
+import {
+  approveHeldReward,
+  listHeldRewardsForReview,
+  listReviewDecisions,
+  rejectHeldReward,
+} from "app/services/fraudReview.server";
+import { formatReferrerName } from "app/services/payouts.server";
+import { FRAUD_SIGNAL_LABELS, isFraudScoreSuspicious, type FraudSignalTypeKey } from "app/models/fraud";
+import { REWARD_STATUS_LABELS, REWARD_STATUS_TONES, type RewardStatusKey } from "app/models/reward";
+
+const currencyFormatter = new Intl.NumberFormat("fr-FR", {
+  style: "currency",
+  currency: "EUR",
+});
+
+const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const successMessages: Record<string, string> = {
+  approve: "Récompense approuvée, la fraude a été écartée.",
+  reject: "Parrainage refusé et récompense annulée.",
+};
+
+type ReviewIntent = "approve" | "reject";
+
+type LoaderData = {
+  rewards: Array<{
+    id: string;
+    amount: number;
+    createdAt: string;
+    fraudScore: number | null;
+    referrerId: string;
+    referrerName: string;
+    referrerEmail: string | null;
+    refereeName: string | null;
+    refereeEmail: string | null;
+    orderId: string | null;
+    code: string | null;
+    codeCreatedAt: string | null;
+    referredAt: string | null;
+    referralsInPreviousDay: number;
+    signals: Array<{ id: string; type: FraudSignalTypeKey; score: number; details: string | null }>;
+    history: Array<{
+      id: string;
+      createdAt: string;
+      toStatus: RewardStatusKey;
+      reason: string | null;
+      actor: string | null;
+    }>;
+  }>;
+  decisions: Array<{
+    id: string;
+    createdAt: string;
+    rewardId: string;
+    referrerId: string;
+    referrerName: string;
+    amount: number;
+    toStatus: RewardStatusKey;
+    reason: string | null;
+    actor: string | null;
+  }>;
+  flash: { type: "success" | "error"; message: string } | null;
+};
+
+/** "45 min", "5 h" ou "3 j". */
+function formatDelay(from: string, to: string) {
+  const minutes = Math.max(Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000), 0);
+
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 48 * 60) return `${Math.round(minutes / 60)} h`;
+  return `${Math.round(minutes / (24 * 60))} j`;
+}
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const successIntent = url.searchParams.get("success");
+  const errorMessage = url.searchParams.get("error");
+
+  const [heldRewards, decisions] = await Promise.all([
+    listHeldRewardsForReview(session.shop),
+    listReviewDecisions(session.shop),
+  ]);
+
+  const flash = successIntent && successMessages[successIntent]
+    ? { type: "success" as const, message: successMessages[successIntent] }
+    : errorMessage
+      ? { type: "error" as const, message: errorMessage }
+      : null;
+
+  return json<LoaderData>({
+    rewards: heldRewards.map((reward) => ({
+      id: reward.id,
+      amount: reward.amount,
+      createdAt: reward.createdAt.toISOString(),
+      fraudScore: reward.fraudScore ?? null,
+      referrerId: reward.referrerId,
+      referrerName: formatReferrerName(reward.referrer),
+      referrerEmail: reward.referrer.email,
+      refereeName:
+        [reward.referral?.refereeFirstName, reward.referral?.refereeLastName].filter(Boolean).join(" ") || null,
+      refereeEmail: reward.referral?.refereeEmail ?? null,
+      orderId: reward.referral?.orderId ?? null,
+      code: reward.referral?.code?.code ?? null,
+      codeCreatedAt: reward.referral?.code?.createdAt.toISOString() ?? null,
+      referredAt: reward.referral?.createdAt.toISOString() ?? null,
+      referralsInPreviousDay: reward.referralsInPreviousDay,
+      signals: reward.fraudSignals.map((signal) => ({
+        id: signal.id,
+        type: signal.type,
+        score: signal.score,
+        details: signal.details ?? null,
+      })),
+      history: reward.transitions.map((transition) => ({
+        id: transition.id,
+        createdAt: transition.createdAt.toISOString(),
+        toStatus: transition.toStatus,
+        reason: transition.reason ?? null,
+        actor: transition.actor ?? null,
+      })),
+    })),
+    decisions: decisions.map((decision) => ({
+      id: decision.id,
+      createdAt: decision.createdAt.toISOString(),
+      rewardId: decision.rewardId,
+      referrerId: decision.reward.referrerId,
+      referrerName: formatReferrerName(decision.reward.referrer),
+      amount: decision.reward.amount,
+      toStatus: decision.toStatus,
+      reason: decision.reason ?? null,
+      actor: decision.actor ?? null,
+    })),
+    flash,
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+
+  const formData = await request.formData();
+  const rewardId = formData.get("rewardId");
+  const intent = formData.get("intent");
+  const noteRaw = formData.get("note");
+  const note = typeof noteRaw === "string" && noteRaw.trim() ? noteRaw.trim() : null;
+
+  const actor = getAdminActor({ session, sessionToken });
+
+  if (typeof rewardId !== "string" || !rewardId) {
+    return redirect("/app/review?error=" + encodeURIComponent("Identifiant de récompense manquant."));
+  }
+
+  try {
+    switch (intent) {
+      case "approve":
+        await approveHeldReward(session.shop, rewardId, { actor, note });
+        break;
+      case "reject":
+        await rejectHeldReward(session.shop, rewardId, { actor, note });
+        break;
+      default:
+        throw new Error("Action inconnue.");
+    }
+    return redirect(`/app/review?success=${intent}`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Erreur inattendue lors de la vérification.";
+    return redirect("/app/review?error=" + encodeURIComponent(message));
+  }
+};
+
+export default function ReviewPage() {
+  const { rewards, decisions, flash } = useLoaderData<typeof loader>();
+  const submit = useSubmit();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state !== "idle";
+  const [decision, setDecision] = useState<{ rewardId: string; intent: ReviewIntent } | null>(null);
+  const [note, setNote] = useState("");
+
+  const decisionReward = decision ? rewards.find((reward) => reward.id === decision.rewardId) ?? null : null;
+
+  useEffect(() => {
+    if (navigation.state === "idle") {
+      setDecision(null);
+      setNote("");
+    }
+  }, [navigation.state]);
+
+  const openDecision = (rewardId: string, intent: ReviewIntent) => {
+    setNote("");
+    setDecision({ rewardId, intent });
+  };
+
+  const confirmDecision = () => {
+    if (!decision) return;
+
+    const formData = new FormData();
+    formData.set("rewardId", decision.rewardId);
+    formData.set("intent", decision.intent);
+    formData.set("note", note);
+    submit(formData, { method: "post" });
+  };
+
+  return (
+    <Page title="Vérification des fraudes">
+      <BlockStack gap="400">
+        {flash && (
+          <Banner tone={flash.type === "success" ? "success" : "critical"}>
+            {flash.message}
+          </Banner>
+        )}
+        <Card>
+          <Text variant="bodyMd" as="p" tone="subdued">
+            Récompenses bloquées en attente de vérification, les plus suspectes en premier. Approuver écarte la
+            fraude et remet la récompense dans le circuit de paiement ; refuser annule le parrainage et la
+            récompense. Chaque décision est enregistrée avec son auteur dans l'historique de la récompense.
+          </Text>
+        </Card>
+
+        {rewards.length === 0 ? (
+          <Card>
+            <Text as="p" variant="bodyMd">
+              Aucune récompense en attente de vérification.
+            </Text>
+          </Card>
+        ) : (
+          rewards.map((reward) => (
+            <Card key={reward.id}>
+              <BlockStack gap="300">
+                <InlineStack align="space-between" blockAlign="center">
+                  <BlockStack gap="050">
+                    <Text as="h2" variant="headingMd">
+                      <Link to={`/app/parrain/${reward.referrerId}`}>{reward.referrerName}</Link>
+                      {` · ${currencyFormatter.format(reward.amount)}`}
+                    </Text>
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      {[reward.referrerEmail, `récompense créée le ${dateFormatter.format(new Date(reward.createdAt))}`]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </Text>
+                  </BlockStack>
+                  {reward.fraudScore !== null ? (
+                    <Badge tone={isFraudScoreSuspicious(reward.fraudScore) ? "critical" : "attention"}>
+                      {`Score de fraude : ${reward.fraudScore}`}
+                    </Badge>
+                  ) : (
+                    <Badge>Bloquée manuellement</Badge>
+                  )}
+                </InlineStack>
+
+                <BlockStack gap="100">
+                  <Text as="h3" variant="headingSm">
+                    Filleul
+                  </Text>
+                  <Text as="p" variant="bodyMd">
+                    {[reward.refereeName, reward.refereeEmail].filter(Boolean).join(" · ") || "—"}
+                  </Text>
+                  <Text as="p" variant="bodySm" tone="subdued">
+                    {[reward.orderId ? `Commande ${reward.orderId}` : null, reward.code ? `Code ${reward.code}` : null]
+                      .filter(Boolean)
+                      .join(" · ") || "Aucune commande liée"}
+                  </Text>
+                </BlockStack>
+
+                <BlockStack gap="100">
+                  <Text as="h3" variant="headingSm">
+                    Signaux
+                  </Text>
+                  {reward.signals.length === 0 ? (
+                    <Text as="p" variant="bodySm" tone="subdued">
+                      Aucun signal automatique.
+                    </Text>
+                  ) : (
+                    reward.signals.map((signal) => (
+                      <InlineStack key={signal.id} gap="200" blockAlign="center">
+                        <Badge tone="warning">{`+${signal.score}`}</Badge>
+                        <Text as="span" variant="bodyMd">
+                          {FRAUD_SIGNAL_LABELS[signal.type]}
+                        </Text>
+                        {signal.details && (
+                          <Text as="span" variant="bodySm" tone="subdued" breakWord>
+                            {signal.details}
+                          </Text>
+                        )}
+                      </InlineStack>
+                    ))
+                  )}
+                </BlockStack>
+
+                <BlockStack gap="100">
+                  <Text as="h3" variant="headingSm">
+                    Chronologie
+                  </Text>
+                  {reward.codeCreatedAt && reward.referredAt && (
+                    <Text as="p" variant="bodySm">
+                      {`Code émis le ${dateFormatter.format(new Date(reward.codeCreatedAt))}, utilisé le ${dateFormatter.format(
+                        new Date(reward.referredAt),
+                      )} (${formatDelay(reward.codeCreatedAt, reward.referredAt)} plus tard)`}
+                    </Text>
+                  )}
+                  <Text as="p" variant="bodySm" tone={reward.referralsInPreviousDay > 0 ? "caution" : "subdued"}>
+                    {reward.referralsInPreviousDay > 0
+                      ? `${reward.referralsInPreviousDay} autre(s) parrainage(s) de ce parrain dans les 24 h précédentes`
+                      : "Aucun autre parrainage de ce parrain dans les 24 h précédentes"}
+                  </Text>
+                  {reward.history.map((transition) => (
+                    <Text as="p" variant="bodySm" tone="subdued" key={transition.id}>
+                      {`${dateFormatter.format(new Date(transition.createdAt))} · ${REWARD_STATUS_LABELS[transition.toStatus]}${
+                        transition.reason ? ` · ${transition.reason}` : ""
+                      }${transition.actor ? ` (${transition.actor})` : ""}`}
+                    </Text>
+                  ))}
+                </BlockStack>
+
+                <Divider />
+
+                <InlineStack gap="200" align="end">
+                  <Button
+                    tone="critical"
+                    onClick={() => openDecision(reward.id, "reject")}
+                    disabled={isSubmitting}
+                  >
+                    Refuser
+                  </Button>
+                  <Button variant="primary" onClick={() => openDecision(reward.id, "approve")} disabled={isSubmitting}>
+                    Approuver
+                  </Button>
+                </InlineStack>
+              </BlockStack>
+            </Card>
+          ))
+        )}
+
+        <Card>
+          <BlockStack gap="300">
+            <Text as="h2" variant="headingMd">
+              Décisions récentes
+            </Text>
+            <IndexTable
+              resourceName={{ singular: "décision", plural: "décisions" }}
+              itemCount={decisions.length}
+              headings={[
+                { title: "Date" },
+                { title: "Parrain" },
+                { title: "Montant" },
+                { title: "Décision" },
+                { title: "Par" },
+                { title: "Motif" },
+              ]}
+              selectable={false}
+            >
+              {decisions.map((entry, index) => (
+                <IndexTable.Row id={entry.id} key={entry.id} position={index}>
+                  <IndexTable.Cell>{dateFormatter.format(new Date(entry.createdAt))}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Link to={`/app/parrain/${entry.referrerId}`}>{entry.referrerName}</Link>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>{currencyFormatter.format(entry.amount)}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Badge tone={REWARD_STATUS_TONES[entry.toStatus]}>{REWARD_STATUS_LABELS[entry.toStatus]}</Badge>
+                  </IndexTable.Cell>
+                  <IndexTable.Cell>{entry.actor ?? "—"}</IndexTable.Cell>
+                  <IndexTable.Cell>
+                    <Text as="span" variant="bodySm" breakWord>
+                      {entry.reason ?? "—"}
+                    </Text>
+                  </IndexTable.Cell>
+                </IndexTable.Row>
+              ))}
+            </IndexTable>
+          </BlockStack>
+        </Card>
+      </BlockStack>
+
+      {decision && decisionReward && (
+        <Modal
+          open
+          onClose={() => {
+            if (isSubmitting) return;
+            setDecision(null);
+          }}
+          title={
+            decision.intent === "approve"
+              ? `Approuver la récompense de ${decisionReward.referrerName}`
+              : `Refuser le parrainage de ${decisionReward.referrerName}`
+          }
+          primaryAction={{
+            content: decision.intent === "approve" ? "Approuver" : "Refuser",
+            destructive: decision.intent === "reject",
+            onAction: confirmDecision,
+            loading: isSubmitting,
+          }}
+          secondaryActions={[
+            {
+              content: "Annuler",
+              onAction: () => setDecision(null),
+              disabled: isSubmitting,
+            },
+          ]}
+        >
+          <Modal.Section>
+            <BlockStack gap="300">
+              <Text as="p" tone="subdued">
+                {decision.intent === "approve"
+                  ? "La récompense sera approuvée et pourra être payée à la fin de sa période de rétention."
+                  : "Le parrainage sera annulé : la récompense passe en annulée et l'utilisation du code est décomptée."}
+              </Text>
+              <TextField
+                label="Note (facultatif)"
+                value={note}
+                onChange={setNote}
+                multiline={3}
+                autoComplete="off"
+                helpText="Enregistrée dans l'historique de la récompense avec votre nom."
+              />
+            </BlockStack>
+          </Modal.Section>
+        </Modal>
+      )}
+    </Page>
+  );
+}
@@ -1,9 +1,52 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json, redirect } from "@remix-run/node";
-import { Form, useLoaderData, useNavigation } from "@remix-run/react";
-import { Page, Card, IndexTable, Text, Badge, Button, InlineStack, BlockStack, Banner } from "@shopify/polaris";
+import { Form, useActionData, useLoaderData, useNavigation, useSearchParams, useSubmit } from "@remix-run/react";
+import {
+  Page,
+  Card,
+  IndexTable,
+  Text,
+  Badge,
+  Button,
+  InlineStack,
+  BlockStack,
+  Banner,
+  Select,
+  Tabs,
+  useIndexResourceState,
+} from "@shopify/polaris";
+import { useCallback, useEffect } from "react";
 import { authenticate } from "app/shopify.server";
-import { listRewards, processRewardRefund } from "app/services/rewards.server";
+import { getAdminActor } from "app/services/adminActor.server";
+import {
+  approveReward,
+  cancelReward,
+  countRewardsByStatus,
+  holdReward,
+  listRewards,
+  processRewardRefund,
+  releaseReward,
+  setRewardPayoutMethod,
+} from "app/services/rewards.server";
+import { parsePayoutReport, runPayoutBatch } from "app/services/payouts.server";
+import { getReferralSettings } from "app/services/settings.server";
+import {
+  canTransitionReward,
+  isPayoutMethod,
+  isRewardInHoldPeriod,
+  isRewardStatus,
+  PAYABLE_REWARD_STATUSES,
+  PAYOUT_METHOD_LABELS,
+  PAYOUT_METHODS,
+  PAYOUT_OUTCOME_LABELS,
+  PAYOUT_OUTCOME_TONES,
+  REWARD_STATUS_LABELS,
+  REWARD_STATUS_TONES,
+  RewardStatus,
+  type PayoutMethodKey,
+  type PayoutOutcome,
+  type RewardStatusKey,
+} from "app/models/reward";
 
 const currencyFormatter = new Intl.NumberFormat("fr-FR", {
   style: "currency",
@@ -15,35 +58,85 @@ const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
   timeStyle: "short",
 });
 
+const statusTabs: Array<RewardStatusKey | "ALL"> = [
+  "ALL",
+  RewardStatus.PENDING,
+  RewardStatus.APPROVED,
+  RewardStatus.ON_HOLD,
+  RewardStatus.PAID,
+  RewardStatus.FAILED,
+  RewardStatus.CANCELLED,
+];
+
+const successMessages: Record<string, string> = {
+  refund: "Refund accepté et récompense marquée comme payée.",
+  approve: "Récompense approuvée.",
+  hold: "Récompense bloquée.",
+  release: "Récompense remise en attente.",
+  cancel: "Récompense annulée.",
+  "set-payout-method": "Mode de versement mis à jour.",
+};
+
 type LoaderData = {
   rewards: Array<{
     id: string;
     amount: number;
     currency: string;
-    status: string;
+    status: RewardStatusKey;
     createdAt: string;
     paidAt: string | null;
+    payableAt: string | null;
+    recoveryRequiredAt: string | null;
+    lastTransitionReason: string | null;
+    payoutMethod: PayoutMethodKey | null;
     referrerId: string;
     referrerName: string;
     referrerEmail: string | null;
   }>;
+  counts: Record<RewardStatusKey, number>;
+  status: RewardStatusKey | null;
+  defaultPayoutMethod: PayoutMethodKey;
   flash: { type: "success" | "error"; message: string } | null;
 };
 
+type ActionData =
+  | {
+      bulk: {
+        paidCount: number;
+        failedCount: number;
+        skippedCount: number;
+        stopReason: string | null;
+        results: Record<string, { outcome: PayoutOutcome; message: string | null }>;
+      };
+    }
+  | { error: string };
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   const url = new URL(request.url);
-  const hasSuccess = url.searchParams.get("success") === "1";
+  const successIntent = url.searchParams.get("success");
   const errorMessage = url.searchParams.get("error");
+  const statusParam = url.searchParams.get("status");
+  const status = isRewardStatus(statusParam) ? statusParam : null;
+
+  const [rewardRecords, counts, settings] = await Promise.all([
+    listRewards(session.shop, 200, { status }),
+    countRewardsByStatus(session.shop),
+    getReferralSettings(session.shop),
+  ]);
 
-  const rewards = (await listRewards(200)).map((reward) => ({
+  const rewards = rewardRecords.map((reward) => ({
     id: reward.id,
     amount: reward.amount,
     currency: reward.currency,
     status: reward.status,
     createdAt: reward.createdAt.toISOString(),
     paidAt: reward.paidAt ? reward.paidAt.toISOString() : null,
+    payableAt: reward.payableAt ? reward.payableAt.toISOString() : null,
+    recoveryRequiredAt: reward.recoveryRequiredAt ? reward.recoveryRequiredAt.toISOString() : null,
+    lastTransitionReason: reward.transitions[0]?.reason ?? null,
+    payoutMethod: reward.payoutMethod,
     referrerId: reward.referrerId,
     referrerName:
       [reward.referrer.firstName, reward.referrer.lastName]
@@ -52,46 +145,226 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     referrerEmail: reward.referrer.email,
   }));
 
-  const flash = hasSuccess
-    ? { type: "success" as const, message: "Refund accepté et récompense marquée comme payée." }
+  const flash = successIntent
+    ? { type: "success" as const, message: successMessages[successIntent] ?? successMessages.refund }
     : errorMessage
       ? { type: "error" as const, message: errorMessage }
       : null;
 
-  return json<LoaderData>({ rewards, flash });
+  return json<LoaderData>({
+    rewards,
+    counts,
+    status,
+    defaultPayoutMethod: settings.defaultPayoutMethod,
+    flash,
+  });
 };
 
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, sessionToken } = await authenticate.admin(request);
+  const actor = getAdminActor({ session, sessionToken });
 
   const formData = await request.formData();
   const rewardId = formData.get("rewardId");
+  const intentRaw = formData.get("intent");
+  const intent = typeof intentRaw === "string" && intentRaw ? intentRaw : "refund";
+  const statusRaw = formData.get("status");
+  const statusQuery = isRewardStatus(statusRaw) ? `&status=${statusRaw}` : "";
+
+  if (intent === "bulk-refund") {
+    const rewardIds = formData
+      .getAll("rewardIds")
+      .filter((value): value is string => typeof value === "string" && value.length > 0);
+
+    if (rewardIds.length === 0) {
+      return json<ActionData>({ error: "Aucune récompense sélectionnée." }, { status: 400 });
+    }
+
+    try {
+      // Chaque récompense est payée une à une ; le lot s'arrête dès qu'une limite de refund est atteinte
+      const batch = await runPayoutBatch({
+        trigger: "MANUAL",
+        shopDomain: session.shop,
+        rewardIds,
+        stopOnRefundLimit: true,
+        actor,
+      });
+
+      const results = Object.fromEntries(
+        parsePayoutReport(batch.report).map((entry) => [
+          entry.rewardId,
+          { outcome: entry.outcome, message: entry.message },
+        ]),
+      );
+
+      return json<ActionData>({
+        bulk: {
+          paidCount: batch.paidCount,
+          failedCount: batch.failedCount,
+          skippedCount: batch.skippedCount,
+          stopReason: batch.errorMessage,
+          results,
+        },
+      });
+    } catch (error) {
+      const message =
+        error instanceof Error ? error.message : "Erreur inattendue lors du paiement groupé.";
+      return json<ActionData>({ error: message }, { status: 400 });
+    }
+  }
 
   if (typeof rewardId !== "string" || !rewardId) {
-    return redirect("/app/rewards?error=" + encodeURIComponent("Identifiant de récompense manquant."));
+    return redirect(
+      "/app/rewards?error=" + encodeURIComponent("Identifiant de récompense manquant.") + statusQuery,
+    );
   }
 
+  const options = { actor, shopDomain: session.shop };
+
   try {
-    await processRewardRefund({
-      rewardId,
-      shopDomain: session?.shop,
-    });
-    return redirect("/app/rewards?success=1");
+    switch (intent) {
+      case "approve":
+        await approveReward(rewardId, { ...options, reason: "Approuvée manuellement" });
+        break;
+      case "hold":
+        await holdReward(rewardId, { ...options, reason: "Bloquée manuellement" });
+        break;
+      case "release":
+        await releaseReward(rewardId, { ...options, reason: "Débloquée manuellement" });
+        break;
+      case "cancel":
+        await cancelReward(rewardId, { ...options, reason: "Annulée manuellement" });
+        break;
+      case "set-payout-method": {
+        // Une valeur vide revient au mode par défaut des paramètres
+        const payoutMethodRaw = formData.get("payoutMethod");
+        await setRewardPayoutMethod(session.shop, rewardId, isPayoutMethod(payoutMethodRaw) ? payoutMethodRaw : null);
+        break;
+      }
+      case "refund":
+        await processRewardRefund({
+          rewardId,
+          shopDomain: session.shop,
+          actor: options.actor,
+        });
+        break;
+      default:
+        throw new Error("Action inconnue.");
+    }
+    return redirect(`/app/rewards?success=${intent}${statusQuery}`);
   } catch (error) {
     const message =
       error instanceof Error
         ? error.message
-        : "Erreur inattendue lors du déclenchement du refund.";
-    return redirect("/app/rewards?error=" + encodeURIComponent(message));
+        : "Erreur inattendue lors de la mise à jour de la récompense.";
+    return redirect("/app/rewards?error=" + encodeURIComponent(message) + statusQuery);
   }
 };
 
 export default function RewardsPage() {
-  const { rewards, flash } = useLoaderData<typeof loader>();
+  const { rewards, counts, status, defaultPayoutMethod, flash } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const submit = useSubmit();
   const navigation = useNavigation();
+  const [searchParams, setSearchParams] = useSearchParams();
   const isSubmitting = navigation.state === "submitting";
   const rawRewardId = navigation.formData?.get("rewardId");
   const submittingRewardId = typeof rawRewardId === "string" ? rawRewardId : null;
+  const rawIntent = navigation.formData?.get("intent");
+  const submittingIntent = typeof rawIntent === "string" ? rawIntent : null;
+  const isBulkSubmitting = isSubmitting && submittingIntent === "bulk-refund";
+
+  const { selectedResources, allResourcesSelected, handleSelectionChange, clearSelection } =
+    useIndexResourceState(rewards);
+
+  const bulkResult = actionData && "bulk" in actionData ? actionData.bulk : null;
+  const bulkError = actionData && "error" in actionData ? actionData.error : null;
+
+  useEffect(() => {
+    if (actionData) {
+      clearSelection();
+    }
+  }, [actionData, clearSelection]);
+
+  const handleBulkPay = useCallback(() => {
+    const selectedIds = allResourcesSelected ? rewards.map((reward) => reward.id) : selectedResources;
+    const formData = new FormData();
+    formData.set("intent", "bulk-refund");
+    selectedIds.forEach((id) => formData.append("rewardIds", id));
+    if (status) {
+      formData.set("status", status);
+    }
+    submit(formData, { method: "post" });
+  }, [allResourcesSelected, rewards, selectedResources, status, submit]);
+
+  const totalCount = Object.values(counts).reduce((total, count) => total + count, 0);
+  const tabs = statusTabs.map((tab) => ({
+    id: tab,
+    content:
+      tab === "ALL"
+        ? `Toutes (${totalCount})`
+        : `${REWARD_STATUS_LABELS[tab]} (${counts[tab]})`,
+  }));
+  const selectedTab = Math.max(statusTabs.indexOf(status ?? "ALL"), 0);
+
+  const handleTabChange = useCallback(
+    (index: number) => {
+      const newSearchParams = new URLSearchParams(searchParams);
+      const tab = statusTabs[index];
+      newSearchParams.delete("success");
+      newSearchParams.delete("error");
+      if (tab === "ALL") {
+        newSearchParams.delete("status");
+      } else {
+        newSearchParams.set("status", tab);
+      }
+      setSearchParams(newSearchParams);
+    },
+    [searchParams, setSearchParams],
+  );
+
+  const payoutMethodOptions = [
+    { label: `Par défaut (${PAYOUT_METHOD_LABELS[defaultPayoutMethod]})`, value: "" },
+    ...PAYOUT_METHODS.map((method) => ({
+      label: PAYOUT_METHOD_LABELS[method],
+      value: method,
+    })),
+  ];
+
+  const handlePayoutMethodChange = (rewardId: string, value: string) => {
+    const formData = new FormData();
+    formData.set("intent", "set-payout-method");
+    formData.set("rewardId", rewardId);
+    formData.set("payoutMethod", value);
+    if (status) {
+      formData.set("status", status);
+    }
+    submit(formData, { method: "post" });
+  };
+
+  const renderActionButton = (
+    rewardId: string,
+    intent: string,
+    label: string,
+    variant?: "primary" | "secondary",
+    tone?: "critical",
+  ) => (
+    <Form method="post" key={intent}>
+      <input type="hidden" name="rewardId" value={rewardId} />
+      <input type="hidden" name="intent" value={intent} />
+      {status && <input type="hidden" name="status" value={status} />}
+      <Button
+        variant={variant}
+        tone={tone}
+        size="slim"
+        submit
+        disabled={isSubmitting}
+        loading={isSubmitting && submittingRewardId === rewardId && submittingIntent === intent}
+      >
+        {label}
+      </Button>
+    </Form>
+  );
 
   return (
     <Page title="Récompenses">
@@ -101,29 +374,58 @@ export default function RewardsPage() {
             {flash.message}
           </Banner>
         )}
+        {bulkResult && (
+          <Banner
+            tone={bulkResult.stopReason || bulkResult.failedCount > 0 ? "warning" : "success"}
+            title={`Paiement groupé : ${bulkResult.paidCount} payée(s), ${bulkResult.failedCount} en erreur, ${bulkResult.skippedCount} ignorée(s)`}
+          >
+            {bulkResult.stopReason && <p>{bulkResult.stopReason}</p>}
+          </Banner>
+        )}
+        {bulkError && <Banner tone="critical">{bulkError}</Banner>}
         <Card>
           <BlockStack gap="300">
             <Text variant="bodyMd" as="p" tone="subdued">
-              Gestion des récompenses attribuées aux parrains. Consultez toutes les récompenses, leur statut (en attente, payée, échouée) et marquez-les comme payées lorsque les refunds ont été effectués.
+              Gestion des récompenses attribuées aux parrains. Une récompense est créée en attente, peut être approuvée,
+              bloquée ou annulée, puis passe en payée une fois le refund ou le crédit boutique effectué. Le paiement
+              n'est possible qu'après la période de rétention définie dans les paramètres. Sélectionnez plusieurs
+              récompenses pour les payer en une fois. Chaque changement de statut est conservé dans l'historique.
             </Text>
           </BlockStack>
         </Card>
-        <Card>
+        <Card padding="0">
+          <Tabs tabs={tabs} selected={selectedTab} onSelect={handleTabChange} />
           <IndexTable
             resourceName={{ singular: "récompense", plural: "récompenses" }}
             itemCount={rewards.length}
-            selectable={false}
+            selectedItemsCount={allResourcesSelected ? "All" : selectedResources.length}
+            onSelectionChange={handleSelectionChange}
+            promotedBulkActions={[
+              {
+                content: isBulkSubmitting ? "Paiement en cours…" : "Payer la sélection",
+                onAction: handleBulkPay,
+                disabled: isSubmitting,
+              },
+            ]}
             headings={[
               { title: "Parrain" },
               { title: "Montant" },
               { title: "Statut" },
               { title: "Demandé le" },
+              { title: "Payable le" },
               { title: "Payée le" },
+              { title: "Versement" },
+              { title: "Résultat" },
               { title: "" },
             ]}
           >
             {rewards.map((reward, index) => (
-              <IndexTable.Row id={reward.id} key={reward.id} position={index}>
+              <IndexTable.Row
+                id={reward.id}
+                key={reward.id}
+                position={index}
+                selected={selectedResources.includes(reward.id)}
+              >
                 <IndexTable.Cell>
                   <Text variant="bodyMd" fontWeight="bold" as="h3">
                     {reward.referrerName}
@@ -136,42 +438,98 @@ export default function RewardsPage() {
                 </IndexTable.Cell>
                 <IndexTable.Cell>{currencyFormatter.format(reward.amount)}</IndexTable.Cell>
                 <IndexTable.Cell>
-                  <Badge
-                    tone={
-                      reward.status === "PAID"
-                        ? "success"
-                        : reward.status === "PENDING"
-                          ? "attention"
-                          : "critical"
-                    }
-                  >
-                    {reward.status === "PAID"
-                      ? "Payée"
-                      : reward.status === "PENDING"
-                        ? "En attente"
-                        : "Erreur"}
-                  </Badge>
+                  <BlockStack gap="100">
+                    <InlineStack gap="100">
+                      <Badge tone={REWARD_STATUS_TONES[reward.status]}>
+                        {REWARD_STATUS_LABELS[reward.status]}
+                      </Badge>
+                      {reward.recoveryRequiredAt && <Badge tone="warning">À récupérer</Badge>}
+                    </InlineStack>
+                    {reward.lastTransitionReason && (
+                      <Text variant="bodySm" as="p" tone="subdued">
+                        {reward.lastTransitionReason}
+                      </Text>
+                    )}
+                  </BlockStack>
                 </IndexTable.Cell>
                 <IndexTable.Cell>{dateFormatter.format(new Date(reward.createdAt))}</IndexTable.Cell>
+                <IndexTable.Cell>
+                  {reward.payableAt ? (
+                    <Text
+                      as="span"
+                      variant="bodyMd"
+                      tone={
+                        reward.status !== RewardStatus.PAID && isRewardInHoldPeriod(reward.payableAt)
+                          ? "caution"
+                          : undefined
+                      }
+                    >
+                      {dateFormatter.format(new Date(reward.payableAt))}
+                    </Text>
+                  ) : (
+                    "—"
+                  )}
+                </IndexTable.Cell>
                 <IndexTable.Cell>
                   {reward.paidAt ? dateFormatter.format(new Date(reward.paidAt)) : "—"}
                 </IndexTable.Cell>
                 <IndexTable.Cell>
-                  {reward.status === "PENDING" ? (
-                    <Form method="post">
-                      <input type="hidden" name="rewardId" value={reward.id} />
-                      <InlineStack gap="200">
-                        <Button
-                          variant="primary"
-                          submit
-                          disabled={isSubmitting}
-                          loading={isSubmitting && submittingRewardId === reward.id}
-                        >
-                          Accepter refund
-                        </Button>
-                      </InlineStack>
-                    </Form>
-                  ) : null}
+                  {PAYABLE_REWARD_STATUSES.includes(reward.status) || reward.status === RewardStatus.ON_HOLD ? (
+                    <div onClick={(event) => event.stopPropagation()}>
+                      <Select
+                        label="Mode de versement"
+                        labelHidden
+                        options={payoutMethodOptions}
+                        value={reward.payoutMethod ?? ""}
+                        onChange={(value) => handlePayoutMethodChange(reward.id, value)}
+                        disabled={isSubmitting}
+                      />
+                    </div>
+                  ) : reward.payoutMethod ? (
+                    PAYOUT_METHOD_LABELS[reward.payoutMethod]
+                  ) : (
+                    "—"
+                  )}
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  {bulkResult?.results[reward.id] ? (
+                    <BlockStack gap="100">
+                      <Badge tone={PAYOUT_OUTCOME_TONES[bulkResult.results[reward.id].outcome]}>
+                        {PAYOUT_OUTCOME_LABELS[bulkResult.results[reward.id].outcome]}
+                      </Badge>
+                      {bulkResult.results[reward.id].message && (
+                        <Text variant="bodySm" as="p" tone="subdued" breakWord>
+                          {bulkResult.results[reward.id].message}
+                        </Text>
+                      )}
+                    </BlockStack>
+                  ) : (
+                    "—"
+                  )}
+                </IndexTable.Cell>
+                <IndexTable.Cell>
+                  {/* Les boutons ne doivent pas (dé)sélectionner la ligne */}
+                  <div onClick={(event) => event.stopPropagation()}>
+                    <InlineStack gap="200">
+                      {PAYABLE_REWARD_STATUSES.includes(reward.status) &&
+                        (isRewardInHoldPeriod(reward.payableAt) ? (
+                          <Button size="slim" disabled>
+                            En rétention
+                          </Button>
+                        ) : (
+                          renderActionButton(reward.id, "refund", "Accepter refund", "primary")
+                        ))}
+                      {reward.status === RewardStatus.PENDING &&
+                        renderActionButton(reward.id, "approve", "Approuver")}
+                      {reward.status === RewardStatus.ON_HOLD &&
+                        renderActionButton(reward.id, "release", "Débloquer")}
+                      {reward.status !== RewardStatus.ON_HOLD &&
+                        canTransitionReward(reward.status, RewardStatus.ON_HOLD) &&
+                        renderActionButton(reward.id, "hold", "Bloquer")}
+                      {canTransitionReward(reward.status, RewardStatus.CANCELLED) &&
+                        renderActionButton(reward.id, "cancel", "Annuler", undefined, "critical")}
+                    </InlineStack>
+                  </div>
                 </IndexTable.Cell>
               </IndexTable.Row>
             ))}
@@ -16,6 +16,7 @@ import {
   InlineStack,
   Layout,
   Page,
+  Select,
   Text,
   TextField,
 } from "@shopify/polaris";
@@ -26,6 +27,27 @@ import {
   updateReferralSettings,
   type ReferralSettings,
 } from "app/services/settings.server";
+import {
+  CASHBACK_MODE_LABELS,
+  CASHBACK_MODES,
+  CashbackMode,
+  formatCashbackTiersInput,
+  isCashbackMode,
+  type CashbackTier,
+} from "app/models/cashback";
+import { isPayoutMethod, PAYOUT_METHOD_LABELS, PAYOUT_METHODS, PayoutMethod } from "app/models/reward";
+import {
+  CODE_REUSE_POLICIES,
+  CODE_REUSE_POLICY_LABELS,
+  CodeReusePolicy,
+  isCodeReusePolicy,
+  isWorkshopCodeMode,
+  WORKSHOP_CODE_MODE_LABELS,
+  WORKSHOP_CODE_MODES,
+  WorkshopCodeMode,
+} from "app/models/purchase";
+import { isValidBic, isValidIban, normalizeIban } from "app/services/bankTransfers.server";
+import { toShopifyGid } from "app/services/discounts.server";
 
 type LoaderData = {
   settings: ReferralSettings;
@@ -36,19 +58,37 @@ type ActionData = {
   errors?: Partial<{
     discountPercentage: string;
     cashbackAmount: string;
+    cashbackTiers: string;
+    cashbackMode: string;
+    cashbackPercentage: string;
+    cashbackMinAmount: string;
+    cashbackMaxAmount: string;
     codeValidityDays: string;
+    codeExpiryReminderDays: string;
+    workshopCodeMode: string;
+    codeReusePolicy: string;
+    qualifyingProductIds: string;
+    qualifyingCollectionIds: string;
+    qualifyingProductTags: string;
+    minimumQualifyingOrderAmount: string;
     maxUsagePerCode: string;
     maxRefundPercentage: string;
+    rewardHoldDays: string;
+    defaultPayoutMethod: string;
+    sepaDebtorIban: string;
+    sepaDebtorBic: string;
     customerSegmentIds: string;
+    discountProductIds: string;
+    discountCollectionIds: string;
     form: string;
   }>;
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   const [settings, success] = await Promise.all([
-    getReferralSettings(),
+    getReferralSettings(session.shop),
     (async () => new URL(request.url).searchParams.get("success") === "1")(),
   ]);
 
@@ -72,8 +112,58 @@ function parseInteger(raw: FormDataEntryValue | null) {
   return Number.isInteger(value) ? value : null;
 }
 
+/**
+ * Une ligne par palier au format "rang: montant", ex. "3: 30" = 30 € à partir du 3e parrainage.
+ */
+function parseCashbackTiers(raw: FormDataEntryValue | null) {
+  if (typeof raw !== "string") return { tiers: [] as CashbackTier[], error: null };
+
+  const tiers: CashbackTier[] = [];
+  const lines = raw.split("\n").map((line) => line.trim()).filter(Boolean);
+
+  for (const line of lines) {
+    const match = line.match(/^(\d+)\s*[:=]\s*(\d+(?:[.,]\d+)?)\s*€?$/);
+    if (!match) {
+      return { tiers, error: `Ligne invalide : "${line}". Format attendu : "3: 30".` };
+    }
+
+    const minReferrals = Number(match[1]);
+    const amount = Number(match[2].replace(",", "."));
+
+    if (minReferrals < 1) {
+      return { tiers, error: "Le rang d'un palier doit être supérieur ou égal à 1." };
+    }
+
+    if (tiers.some((tier) => tier.minReferrals === minReferrals)) {
+      return { tiers, error: `Plusieurs paliers commencent au parrainage n°${minReferrals}.` };
+    }
+
+    tiers.push({ minReferrals, amount });
+  }
+
+  return { tiers, error: null };
+}
+
+/**
+ * IDs numériques ou GID Shopify d'un type de ressource, séparés par des virgules ou des retours à la ligne.
+ */
+function parseResourceIds(raw: FormDataEntryValue | null, resource: "Product" | "Collection") {
+  if (typeof raw !== "string") return { ids: [] as string[], invalid: [] as string[] };
+
+  const entries = raw
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const pattern = new RegExp(`^(\\d+|gid://shopify/${resource}/\\d+)$`);
+
+  return {
+    ids: Array.from(new Set(entries.filter((entry) => pattern.test(entry)).map((entry) => toShopifyGid(resource, entry)))),
+    invalid: entries.filter((entry) => !pattern.test(entry)),
+  };
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
 
   const formData = await request.formData();
 
@@ -81,11 +171,32 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const discountPercentageRaw = formData.get("discountPercentage");
   const cashbackAmountRaw = formData.get("cashbackAmount");
+  const cashbackTiersRaw = formData.get("cashbackTiers");
+  const cashbackModeRaw = formData.get("cashbackMode");
+  const cashbackPercentageRaw = formData.get("cashbackPercentage");
+  const cashbackMinAmountRaw = formData.get("cashbackMinAmount");
+  const cashbackMaxAmountRaw = formData.get("cashbackMaxAmount");
   const codeValidityDaysRaw = formData.get("codeValidityDays");
+  const codeExpiryReminderDaysRaw = formData.get("codeExpiryReminderDays");
+  const workshopCodeModeRaw = formData.get("workshopCodeMode");
+  const codeReusePolicyRaw = formData.get("codeReusePolicy");
+  const qualifyingProductIdsRaw = formData.get("qualifyingProductIds");
+  const qualifyingCollectionIdsRaw = formData.get("qualifyingCollectionIds");
+  const qualifyingProductTagsRaw = formData.get("qualifyingProductTags");
+  const minimumQualifyingOrderAmountRaw = formData.get("minimumQualifyingOrderAmount");
   const maxUsagePerCodeRaw = formData.get("maxUsagePerCode");
   const maxRefundPercentageRaw = formData.get("maxRefundPercentage");
+  const rewardHoldDaysRaw = formData.get("rewardHoldDays");
   const appliesOncePerCustomerRaw = formData.get("appliesOncePerCustomer");
+  const autoPayoutEnabledRaw = formData.get("autoPayoutEnabled");
+  const deactivateCodesOnUninstallRaw = formData.get("deactivateCodesOnUninstall");
+  const defaultPayoutMethodRaw = formData.get("defaultPayoutMethod");
+  const sepaDebtorNameRaw = formData.get("sepaDebtorName");
+  const sepaDebtorIbanRaw = formData.get("sepaDebtorIban");
+  const sepaDebtorBicRaw = formData.get("sepaDebtorBic");
   const customerSegmentIdsRaw = formData.get("customerSegmentIds");
+  const discountProductIdsRaw = formData.get("discountProductIds");
+  const discountCollectionIdsRaw = formData.get("discountCollectionIds");
 
   const discountPercentage = parseNumber(discountPercentageRaw);
   if (discountPercentage === null || discountPercentage < 0) {
@@ -97,11 +208,53 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     errors.cashbackAmount = "Veuillez saisir un montant de cashback valide (>= 0).";
   }
 
+  const { tiers: cashbackTiers, error: cashbackTiersError } = parseCashbackTiers(cashbackTiersRaw);
+  if (cashbackTiersError) {
+    errors.cashbackTiers = cashbackTiersError;
+  }
+
+  if (!isCashbackMode(cashbackModeRaw)) {
+    errors.cashbackMode = "Veuillez choisir un mode de cashback valide.";
+  }
+  const cashbackMode = isCashbackMode(cashbackModeRaw) ? cashbackModeRaw : CashbackMode.FIXED;
+
+  // Les champs du pourcentage ne sont affichés (et envoyés) qu'en mode pourcentage
+  const hasPercentageFields = cashbackPercentageRaw !== null;
+  const cashbackPercentage = parseNumber(cashbackPercentageRaw);
+  const cashbackMinAmount = parseNumber(cashbackMinAmountRaw);
+  const cashbackMaxAmount = parseNumber(cashbackMaxAmountRaw);
+
+  if (hasPercentageFields) {
+    if (cashbackPercentage === null || cashbackPercentage <= 0 || cashbackPercentage > 100) {
+      errors.cashbackPercentage = "Veuillez saisir un pourcentage valide entre 0 et 100.";
+    }
+
+    if (cashbackMinAmount !== null && cashbackMinAmount < 0) {
+      errors.cashbackMinAmount = "Veuillez saisir un montant minimum valide (>= 0).";
+    }
+
+    if (cashbackMaxAmount !== null && cashbackMaxAmount < 0) {
+      errors.cashbackMaxAmount = "Veuillez saisir un montant maximum valide (>= 0).";
+    } else if (cashbackMinAmount !== null && cashbackMaxAmount !== null && cashbackMaxAmount < cashbackMinAmount) {
+      errors.cashbackMaxAmount = "Le montant maximum doit être supérieur ou égal au minimum.";
+    }
+  }
+
   const codeValidityDays = parseInteger(codeValidityDaysRaw);
   if (codeValidityDays === null || codeValidityDays < 0) {
     errors.codeValidityDays = "Veuillez saisir une durée valide en jours (>= 0).";
   }
 
+  let codeExpiryReminderDays = 0;
+  if (typeof codeExpiryReminderDaysRaw === "string" && codeExpiryReminderDaysRaw.trim() !== "") {
+    const parsedReminderDays = parseInteger(codeExpiryReminderDaysRaw);
+    if (parsedReminderDays === null || parsedReminderDays < 0) {
+      errors.codeExpiryReminderDays = "Veuillez saisir un nombre de jours valide (>= 0).";
+    } else {
+      codeExpiryReminderDays = parsedReminderDays;
+    }
+  }
+
   let maxUsagePerCode: number | null = null;
   if (typeof maxUsagePerCodeRaw === "string" && maxUsagePerCodeRaw.trim() !== "") {
     maxUsagePerCode = parseInteger(maxUsagePerCodeRaw);
@@ -115,7 +268,76 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     errors.maxRefundPercentage = "Veuillez saisir un pourcentage valide entre 0 et 100.";
   }
 
+  const rewardHoldDays = parseInteger(rewardHoldDaysRaw);
+  if (rewardHoldDays === null || rewardHoldDays < 0) {
+    errors.rewardHoldDays = "Veuillez saisir une durée valide en jours (>= 0).";
+  }
+
   const appliesOncePerCustomer = appliesOncePerCustomerRaw === "on" || appliesOncePerCustomerRaw === "true";
+  const autoPayoutEnabled = autoPayoutEnabledRaw === "on" || autoPayoutEnabledRaw === "true";
+  const deactivateCodesOnUninstall =
+    deactivateCodesOnUninstallRaw === "on" || deactivateCodesOnUninstallRaw === "true";
+
+  if (!isWorkshopCodeMode(workshopCodeModeRaw)) {
+    errors.workshopCodeMode = "Veuillez choisir un mode de génération des codes valide.";
+  }
+  const workshopCodeMode = isWorkshopCodeMode(workshopCodeModeRaw)
+    ? workshopCodeModeRaw
+    : WorkshopCodeMode.SINGLE_CODE;
+
+  if (!isCodeReusePolicy(codeReusePolicyRaw)) {
+    errors.codeReusePolicy = "Veuillez choisir une règle de réutilisation des codes valide.";
+  }
+  const codeReusePolicy = isCodeReusePolicy(codeReusePolicyRaw)
+    ? codeReusePolicyRaw
+    : CodeReusePolicy.EXTEND_EXISTING;
+
+  const qualifyingProducts = parseResourceIds(qualifyingProductIdsRaw, "Product");
+  const qualifyingCollections = parseResourceIds(qualifyingCollectionIdsRaw, "Collection");
+
+  if (qualifyingProducts.invalid.length > 0) {
+    errors.qualifyingProductIds = `ID(s) produit invalide(s) : ${qualifyingProducts.invalid.join(", ")}`;
+  }
+
+  if (qualifyingCollections.invalid.length > 0) {
+    errors.qualifyingCollectionIds = `ID(s) collection invalide(s) : ${qualifyingCollections.invalid.join(", ")}`;
+  }
+
+  const qualifyingProductTags =
+    typeof qualifyingProductTagsRaw === "string"
+      ? Array.from(
+        new Set(
+          qualifyingProductTagsRaw
+            .split(/[\n,]/)
+            .map((tag) => tag.trim())
+            .filter(Boolean),
+        ),
+      )
+      : [];
+
+  const minimumQualifyingOrderAmount = parseNumber(minimumQualifyingOrderAmountRaw);
+  if (minimumQualifyingOrderAmount !== null && minimumQualifyingOrderAmount < 0) {
+    errors.minimumQualifyingOrderAmount = "Veuillez saisir un montant minimum valide (>= 0).";
+  }
+
+  if (!isPayoutMethod(defaultPayoutMethodRaw)) {
+    errors.defaultPayoutMethod = "Veuillez choisir un mode de versement valide.";
+  }
+  const defaultPayoutMethod = isPayoutMethod(defaultPayoutMethodRaw)
+    ? defaultPayoutMethodRaw
+    : PayoutMethod.ORDER_REFUND;
+
+  const sepaDebtorName = typeof sepaDebtorNameRaw === "string" ? sepaDebtorNameRaw.trim() : "";
+  const sepaDebtorIban = typeof sepaDebtorIbanRaw === "string" ? normalizeIban(sepaDebtorIbanRaw) : "";
+  const sepaDebtorBic = typeof sepaDebtorBicRaw === "string" ? sepaDebtorBicRaw.replace(/\s+/g, "").toUpperCase() : "";
+
+  if (sepaDebtorIban && !isValidIban(sepaDebtorIban)) {
+    errors.sepaDebtorIban = "IBAN invalide, vérifiez sa saisie.";
+  }
+
+  if (sepaDebtorBic && !isValidBic(sepaDebtorBic)) {
+    errors.sepaDebtorBic = "BIC invalide, vérifiez sa saisie.";
+  }
 
   const customerSegmentIds =
     typeof customerSegmentIdsRaw === "string"
@@ -125,18 +347,56 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         .filter(Boolean)
       : [];
 
+  const discountProducts = parseResourceIds(discountProductIdsRaw, "Product");
+  const discountCollections = parseResourceIds(discountCollectionIdsRaw, "Collection");
+
+  if (discountProducts.invalid.length > 0) {
+    errors.discountProductIds = `ID(s) produit invalide(s) : ${discountProducts.invalid.join(", ")}`;
+  }
+
+  if (discountCollections.invalid.length > 0) {
+    errors.discountCollectionIds = `ID(s) collection invalide(s) : ${discountCollections.invalid.join(", ")}`;
+  } else if (discountProducts.ids.length > 0 && discountCollections.ids.length > 0) {
+    errors.discountCollectionIds = "Shopify n'accepte qu'un type de sélection : choisissez des produits ou des collections.";
+  }
+
   if (Object.keys(errors).length > 0) {
     return json<ActionData>({ errors }, { status: 400 });
   }
 
-  await updateReferralSettings({
+  await updateReferralSettings(session.shop, {
     discountPercentage: (discountPercentage ?? 0) / 100,
     cashbackAmount: cashbackAmount ?? 0,
+    cashbackTiers,
+    cashbackMode,
+    ...(hasPercentageFields
+      ? {
+        cashbackPercentage: (cashbackPercentage ?? 0) / 100,
+        cashbackMinAmount,
+        cashbackMaxAmount,
+      }
+      : {}),
     codeValidityDays: codeValidityDays ?? 0,
+    codeExpiryReminderDays,
+    workshopCodeMode,
+    codeReusePolicy,
+    qualifyingProductIds: qualifyingProducts.ids,
+    qualifyingCollectionIds: qualifyingCollections.ids,
+    qualifyingProductTags,
+    minimumQualifyingOrderAmount: minimumQualifyingOrderAmount || null,
+    deactivateCodesOnUninstall,
     appliesOncePerCustomer,
     maxUsagePerCode: maxUsagePerCode ?? 0,
     maxRefundPercentage: (maxRefundPercentage ?? 100) / 100,
+    rewardHoldDays: rewardHoldDays ?? 0,
+    autoPayoutEnabled,
+    defaultPayoutMethod,
+    sepaDebtorName: sepaDebtorName || null,
+    sepaDebtorIban: sepaDebtorIban || null,
+    sepaDebtorBic: sepaDebtorBic || null,
     customerSegmentIds,
+    discountProductIds: discountProducts.ids,
+    discountCollectionIds: discountCollections.ids,
   });
 
   return redirect("/app/settings?success=1");
@@ -152,20 +412,62 @@ export default function SettingsPage() {
     () => ({
       discountPercentage: (settings.discountPercentage * 100).toString(),
       cashbackAmount: settings.cashbackAmount.toString(),
+      cashbackTiers: formatCashbackTiersInput(settings.cashbackTiers),
+      cashbackMode: settings.cashbackMode as string,
+      cashbackPercentage: (settings.cashbackPercentage * 100).toString(),
+      cashbackMinAmount: settings.cashbackMinAmount?.toString() ?? "",
+      cashbackMaxAmount: settings.cashbackMaxAmount?.toString() ?? "",
       codeValidityDays: settings.codeValidityDays.toString(),
+      codeExpiryReminderDays: settings.codeExpiryReminderDays ? settings.codeExpiryReminderDays.toString() : "",
+      workshopCodeMode: settings.workshopCodeMode as string,
+      codeReusePolicy: settings.codeReusePolicy as string,
+      qualifyingProductIds: settings.qualifyingProductIds.join("\n"),
+      qualifyingCollectionIds: settings.qualifyingCollectionIds.join("\n"),
+      qualifyingProductTags: settings.qualifyingProductTags.join("\n"),
+      minimumQualifyingOrderAmount: settings.minimumQualifyingOrderAmount?.toString() ?? "",
+      deactivateCodesOnUninstall: settings.deactivateCodesOnUninstall,
       appliesOncePerCustomer: settings.appliesOncePerCustomer,
       maxUsagePerCode: settings.maxUsagePerCode ? settings.maxUsagePerCode.toString() : "",
       maxRefundPercentage: (settings.maxRefundPercentage * 100).toString(),
+      rewardHoldDays: settings.rewardHoldDays.toString(),
+      autoPayoutEnabled: settings.autoPayoutEnabled,
+      defaultPayoutMethod: settings.defaultPayoutMethod as string,
+      sepaDebtorName: settings.sepaDebtorName ?? "",
+      sepaDebtorIban: settings.sepaDebtorIban ?? "",
+      sepaDebtorBic: settings.sepaDebtorBic ?? "",
       customerSegmentIds: settings.customerSegmentIds.join("\n"),
+      discountProductIds: settings.discountProductIds.join("\n"),
+      discountCollectionIds: settings.discountCollectionIds.join("\n"),
     }),
     [
       settings.discountPercentage,
       settings.cashbackAmount,
+      settings.cashbackTiers,
+      settings.cashbackMode,
+      settings.cashbackPercentage,
+      settings.cashbackMinAmount,
+      settings.cashbackMaxAmount,
       settings.codeValidityDays,
+      settings.codeExpiryReminderDays,
+      settings.workshopCodeMode,
+      settings.codeReusePolicy,
+      settings.qualifyingProductIds,
+      settings.qualifyingCollectionIds,
+      settings.qualifyingProductTags,
+      settings.minimumQualifyingOrderAmount,
+      settings.deactivateCodesOnUninstall,
       settings.appliesOncePerCustomer,
       settings.maxUsagePerCode,
       settings.maxRefundPercentage,
+      settings.rewardHoldDays,
+      settings.autoPayoutEnabled,
+      settings.defaultPayoutMethod,
+      settings.sepaDebtorName,
+      settings.sepaDebtorIban,
+      settings.sepaDebtorBic,
       settings.customerSegmentIds,
+      settings.discountProductIds,
+      settings.discountCollectionIds,
     ],
   );
 
@@ -226,6 +528,72 @@ export default function SettingsPage() {
                     helpText="Pourcentage appliqué sur le panier du filleul. Exemple : 10 pour 10 %."
                   />
 
+                  <Select
+                    label="Mode de cashback"
+                    name="cashbackMode"
+                    options={CASHBACK_MODES.map((mode) => ({
+                      label: CASHBACK_MODE_LABELS[mode],
+                      value: mode,
+                    }))}
+                    value={formValues.cashbackMode}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, cashbackMode: value }))
+                    }
+                    error={errors.cashbackMode}
+                    helpText="Le mode est figé sur chaque code à sa création : un changement ne s'applique qu'aux codes créés ou synchronisés ensuite."
+                  />
+
+                  {formValues.cashbackMode === CashbackMode.PERCENTAGE ? (
+                    <InlineStack gap="300" wrap={false}>
+                      <TextField
+                        label="Pourcentage de la commande"
+                        name="cashbackPercentage"
+                        type="number"
+                        min={0}
+                        max={100}
+                        step={0.5}
+                        suffix="%"
+                        value={formValues.cashbackPercentage}
+                        onChange={(value) =>
+                          setFormValues((prev) => ({ ...prev, cashbackPercentage: value }))
+                        }
+                        autoComplete=""
+                        error={errors.cashbackPercentage}
+                        helpText="Appliqué au sous-total de la commande du filleul (après remise, hors livraison)."
+                      />
+                      <TextField
+                        label="Minimum"
+                        name="cashbackMinAmount"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        prefix="€"
+                        value={formValues.cashbackMinAmount}
+                        onChange={(value) =>
+                          setFormValues((prev) => ({ ...prev, cashbackMinAmount: value }))
+                        }
+                        autoComplete=""
+                        error={errors.cashbackMinAmount}
+                        helpText="Vide : pas de minimum."
+                      />
+                      <TextField
+                        label="Maximum"
+                        name="cashbackMaxAmount"
+                        type="number"
+                        min={0}
+                        step={0.5}
+                        prefix="€"
+                        value={formValues.cashbackMaxAmount}
+                        onChange={(value) =>
+                          setFormValues((prev) => ({ ...prev, cashbackMaxAmount: value }))
+                        }
+                        autoComplete=""
+                        error={errors.cashbackMaxAmount}
+                        helpText="Vide : pas de plafond."
+                      />
+                    </InlineStack>
+                  ) : null}
+
                   <TextField
                     label="Montant du cashback"
                     name="cashbackAmount"
@@ -238,7 +606,21 @@ export default function SettingsPage() {
                     }
                     autoComplete=""
                     error={errors.cashbackAmount}
-                    helpText="Montant versé au parrain pour chaque commande validée."
+                    helpText="Montant versé au parrain pour chaque commande validée, avec les codes émis en mode montant fixe."
+                  />
+
+                  <TextField
+                    autoComplete=""
+                    label="Paliers de cashback"
+                    name="cashbackTiers"
+                    value={formValues.cashbackTiers}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, cashbackTiers: value }))
+                    }
+                    multiline={3}
+                    placeholder={"1: 20\n3: 30\n6: 50"}
+                    error={errors.cashbackTiers}
+                    helpText="Une ligne par palier « rang: montant », selon le nombre de parrainages réussis du parrain. Exemple : 1: 20, 3: 30, 6: 50 donne 20 € pour les 1er et 2e parrainages, 30 € du 3e au 5e, 50 € à partir du 6e. En dessous du premier palier ou si vide, le montant du cashback ci-dessus s'applique."
                   />
 
                   <TextField
@@ -256,6 +638,106 @@ export default function SettingsPage() {
                     helpText="Nombre de jours pendant lesquels un code reste utilisable. 0 = aucun expiration (infini)."
                   />
 
+                  <TextField
+                    label="Rappel avant expiration"
+                    name="codeExpiryReminderDays"
+                    autoComplete=""
+                    type="number"
+                    min={0}
+                    value={formValues.codeExpiryReminderDays}
+                    suffix="jours"
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, codeExpiryReminderDays: value }))
+                    }
+                    error={errors.codeExpiryReminderDays}
+                    helpText="Le parrain reçoit l'email « rappel d'expiration » ce nombre de jours avant l'expiration de son code. Vide ou 0 : aucun rappel. Les codes expirés sont désactivés chaque jour."
+                  />
+
+                  <Select
+                    label="Commandes avec plusieurs workshops"
+                    name="workshopCodeMode"
+                    options={WORKSHOP_CODE_MODES.map((mode) => ({
+                      label: WORKSHOP_CODE_MODE_LABELS[mode],
+                      value: mode,
+                    }))}
+                    value={formValues.workshopCodeMode}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, workshopCodeMode: value }))
+                    }
+                    error={errors.workshopCodeMode}
+                    helpText="Chaque workshop acheté est enregistré. Un code unique suit le programme du premier workshop de la commande ; un code par workshop suit le programme de chacun."
+                  />
+
+                  <Select
+                    label="Nouvel achat d'un parrain déjà doté d'un code"
+                    name="codeReusePolicy"
+                    options={CODE_REUSE_POLICIES.map((policy) => ({
+                      label: CODE_REUSE_POLICY_LABELS[policy],
+                      value: policy,
+                    }))}
+                    value={formValues.codeReusePolicy}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, codeReusePolicy: value }))
+                    }
+                    error={errors.codeReusePolicy}
+                    helpText="Chaque achat est enregistré séparément. Un code existant garde sa commande d'origine et ses conditions ; seule sa date d'expiration peut être prolongée."
+                  />
+
+                  <TextField
+                    autoComplete=""
+                    label="Produits donnant un code"
+                    name="qualifyingProductIds"
+                    value={formValues.qualifyingProductIds}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, qualifyingProductIds: value }))
+                    }
+                    multiline
+                    error={errors.qualifyingProductIds}
+                    helpText="IDs produits Shopify (ex. 1234567890 ou gid://shopify/Product/1234567890), séparés par des virgules ou des retours à la ligne."
+                  />
+
+                  <TextField
+                    autoComplete=""
+                    label="Collections donnant un code"
+                    name="qualifyingCollectionIds"
+                    value={formValues.qualifyingCollectionIds}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, qualifyingCollectionIds: value }))
+                    }
+                    multiline
+                    error={errors.qualifyingCollectionIds}
+                    helpText="IDs collections Shopify, séparés par des virgules ou des retours à la ligne."
+                  />
+
+                  <TextField
+                    autoComplete=""
+                    label="Tags produits donnant un code"
+                    name="qualifyingProductTags"
+                    value={formValues.qualifyingProductTags}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, qualifyingProductTags: value }))
+                    }
+                    multiline
+                    error={errors.qualifyingProductTags}
+                    helpText="Une commande donne un code si elle contient un produit listé, d'une collection listée ou portant un de ces tags. Laissez les trois champs vides pour tous les produits."
+                  />
+
+                  <TextField
+                    label="Montant minimum de commande pour obtenir un code"
+                    name="minimumQualifyingOrderAmount"
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    prefix="€"
+                    value={formValues.minimumQualifyingOrderAmount}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, minimumQualifyingOrderAmount: value }))
+                    }
+                    autoComplete=""
+                    error={errors.minimumQualifyingOrderAmount}
+                    helpText="Sous-total après remises, hors livraison. Vide : pas de minimum. Les commandes écartées sont journalisées avec leur motif."
+                  />
+
                   <input
                     type="hidden"
                     name="appliesOncePerCustomer"
@@ -284,6 +766,20 @@ export default function SettingsPage() {
                     helpText="Laissez vide ou 0 pour autoriser un nombre illimité d'utilisations."
                   />
 
+                  <input
+                    type="hidden"
+                    name="deactivateCodesOnUninstall"
+                    value={formValues.deactivateCodesOnUninstall ? "on" : "off"}
+                  />
+                  <Checkbox
+                    label="Désactiver les codes à la désinstallation de l'app"
+                    checked={formValues.deactivateCodesOnUninstall}
+                    onChange={(checked) =>
+                      setFormValues((prev) => ({ ...prev, deactivateCodesOnUninstall: checked }))
+                    }
+                    helpText="Les codes ne génèrent plus de récompense tant que l'app est désinstallée. À la réinstallation, vous pourrez réactiver et resynchroniser les codes encore valides."
+                  />
+
                   <TextField
                     autoComplete=""
                     label="Limite de refund par commande"
@@ -300,6 +796,84 @@ export default function SettingsPage() {
                     helpText="Pourcentage maximum de la commande originale qui peut être refundé via le système de parrainage. 100% = aucun limite."
                   />
 
+                  <TextField
+                    autoComplete=""
+                    label="Période de rétention des récompenses"
+                    name="rewardHoldDays"
+                    type="number"
+                    min={0}
+                    value={formValues.rewardHoldDays}
+                    suffix="jours"
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, rewardHoldDays: value }))
+                    }
+                    error={errors.rewardHoldDays}
+                    helpText="Nombre de jours après la commande du filleul avant que la récompense puisse être payée (délai de remboursement du workshop). 0 = payable immédiatement."
+                  />
+
+                  <input
+                    type="hidden"
+                    name="autoPayoutEnabled"
+                    value={formValues.autoPayoutEnabled ? "on" : "off"}
+                  />
+                  <Checkbox
+                    label="Versement automatique des récompenses"
+                    checked={formValues.autoPayoutEnabled}
+                    onChange={(checked) =>
+                      setFormValues((prev) => ({ ...prev, autoPayoutEnabled: checked }))
+                    }
+                    helpText="Une fois par jour, toutes les récompenses approuvées dont la période de rétention est écoulée sont versées automatiquement."
+                  />
+
+                  <Select
+                    label="Mode de versement par défaut"
+                    name="defaultPayoutMethod"
+                    options={PAYOUT_METHODS.map((method) => ({
+                      label: PAYOUT_METHOD_LABELS[method],
+                      value: method,
+                    }))}
+                    value={formValues.defaultPayoutMethod}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, defaultPayoutMethod: value }))
+                    }
+                    error={errors.defaultPayoutMethod}
+                    helpText="Utilisé pour les récompenses sans mode choisi. Seul le refund de commande est soumis à la limite de refund par commande ; la carte cadeau est envoyée au parrain par email."
+                  />
+
+                  <TextField
+                    autoComplete="off"
+                    label="Compte émetteur des virements : titulaire"
+                    name="sepaDebtorName"
+                    value={formValues.sepaDebtorName}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, sepaDebtorName: value }))
+                    }
+                    helpText="Nom du titulaire du compte débité, repris dans le fichier de virement SEPA."
+                  />
+
+                  <TextField
+                    autoComplete="off"
+                    label="Compte émetteur des virements : IBAN"
+                    name="sepaDebtorIban"
+                    value={formValues.sepaDebtorIban}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, sepaDebtorIban: value }))
+                    }
+                    error={errors.sepaDebtorIban}
+                  />
+
+                  <TextField
+                    autoComplete="off"
+                    label="Compte émetteur des virements : BIC"
+                    name="sepaDebtorBic"
+                    value={formValues.sepaDebtorBic}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, sepaDebtorBic: value }))
+                    }
+                    error={errors.sepaDebtorBic}
+                    helpText="Facultatif pour les virements SEPA."
+                  />
+
                   <TextField
                     autoComplete=""
                     label="Segments clients ciblés"
@@ -313,6 +887,32 @@ export default function SettingsPage() {
                     helpText="IDs Shopify séparés par des virgules ou des retours à la ligne. Laissez vide pour tous les clients."
                   />
 
+                  <TextField
+                    autoComplete=""
+                    label="Produits éligibles à la remise"
+                    name="discountProductIds"
+                    value={formValues.discountProductIds}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, discountProductIds: value }))
+                    }
+                    multiline
+                    error={errors.discountProductIds}
+                    helpText="IDs produits Shopify (ex. 1234567890 ou gid://shopify/Product/1234567890), séparés par des virgules ou des retours à la ligne."
+                  />
+
+                  <TextField
+                    autoComplete=""
+                    label="Collections éligibles à la remise"
+                    name="discountCollectionIds"
+                    value={formValues.discountCollectionIds}
+                    onChange={(value) =>
+                      setFormValues((prev) => ({ ...prev, discountCollectionIds: value }))
+                    }
+                    multiline
+                    error={errors.discountCollectionIds}
+                    helpText="À utiliser à la place des produits. Laissez les deux champs vides pour appliquer la remise à toute la boutique. Les codes existants sont mis à jour à leur prochaine synchronisation."
+                  />
+
                   <InlineStack align="end">
                     <Button submit variant="primary" loading={isSubmitting} disabled={isSubmitting}>
                       Enregistrer
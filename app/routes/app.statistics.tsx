@@ -42,12 +42,12 @@ const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
 type LoaderData = StatisticsData;
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
 
     const url = new URL(request.url);
     const days = parseInt(url.searchParams.get("days") || "30", 10);
 
-    const statistics = await getStatisticsData(days);
+    const statistics = await getStatisticsData(session.shop, days);
 
     return json<LoaderData>(statistics);
 };
@@ -25,8 +25,12 @@ export default function App() {
         <Link to="/app/add-referrer">Ajouter un parrain</Link>
         <Link to="/app/workshops">Workshops</Link>
         <Link to="/app/rewards">Récompenses</Link>
+        <Link to="/app/review">Vérification fraudes</Link>
         <Link to="/app/statistics">Statistiques</Link>
         <Link to="/app/email-templates">Templates Emails</Link>
+        <Link to="/app/payouts">Versements</Link>
+        <Link to="/app/jobs">Tâches</Link>
+        <Link to="/app/privacy">Données personnelles</Link>
         <Link to="/app/settings">Paramètres</Link>
       </NavMenu>
       <Outlet />
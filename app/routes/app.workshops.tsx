@@ -1,18 +1,53 @@
-import type { LoaderFunctionArgs } from "@remix-run/node";
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
-import { useLoaderData } from "@remix-run/react";
-import { Page, Card, IndexTable, Text, Button, BlockStack, InlineStack, Layout, Badge } from "@shopify/polaris";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import {
+    Page,
+    Card,
+    IndexTable,
+    Text,
+    Button,
+    BlockStack,
+    InlineStack,
+    Layout,
+    Badge,
+    Banner,
+    Checkbox,
+    Modal,
+    TextField,
+} from "@shopify/polaris";
 import { authenticate } from "app/shopify.server";
 import prisma from "app/db.server";
+import { getReferralSettings } from "app/services/settings.server";
+import {
+    deleteWorkshopProgram,
+    listWorkshopPrograms,
+    upsertWorkshopProgram,
+} from "app/services/workshopPrograms.server";
 
 const dateFormatter = new Intl.DateTimeFormat("fr-FR", {
     dateStyle: "medium",
     timeStyle: "short",
 });
 
+type WorkshopProgramData = {
+    discountPercentage: number | null;
+    cashbackAmount: number | null;
+    codeValidityDays: number | null;
+    generatesCodes: boolean;
+};
+
 type LoaderData = {
+    defaults: {
+        discountPercentage: number;
+        cashbackAmount: number;
+        codeValidityDays: number;
+    };
     workshops: Array<{
         workshopProductTitle: string;
+        workshopProductId: string | null;
+        program: WorkshopProgramData | null;
         participants: Array<{
             id: string;
             name: string;
@@ -29,17 +64,23 @@ type LoaderData = {
 };
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-    await authenticate.admin(request);
+    const { session } = await authenticate.admin(request);
 
     // Récupérer tous les codes avec leurs workshops (tous les participants)
     const codesWithWorkshops = await prisma.code.findMany({
         where: {
+            shop: session.shop,
             workshopProductTitle: {
                 not: null,
             },
         },
         include: {
             referrer: true,
+            purchases: {
+                orderBy: {
+                    createdAt: "desc",
+                },
+            },
             emailLogs: {
                 where: {
                     templateType: "CODE_PROMO",
@@ -55,20 +96,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         },
     });
 
-    // Grouper par workshop
+    const [settings, programs] = await Promise.all([getReferralSettings(session.shop), listWorkshopPrograms(session.shop)]);
+    const programsByProductId = new Map(programs.map((program) => [program.productId, program]));
+
+    // Grouper par workshop (produit Shopify, à défaut par titre pour les anciens codes)
     const workshopsMap = new Map<string, LoaderData["workshops"][0]>();
 
     for (const code of codesWithWorkshops) {
-        const workshopTitle = code.workshopProductTitle!;
-
-        if (!workshopsMap.has(workshopTitle)) {
-            workshopsMap.set(workshopTitle, {
-                workshopProductTitle: workshopTitle,
-                participants: [],
-            });
-        }
-
-        const workshop = workshopsMap.get(workshopTitle)!;
         const fullName = [code.referrer.firstName, code.referrer.lastName].filter(Boolean).join(" ") ||
             code.referrer.email ||
             code.referrer.shopifyCustomerId;
@@ -86,18 +120,55 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
             emailError = latestEmailLog.errorMessage ?? null;
         }
 
-        workshop.participants.push({
-            id: code.referrer.id,
-            name: fullName,
-            email: code.referrer.email,
-            shopifyCustomerId: code.referrer.shopifyCustomerId,
-            purchaseDate: code.createdAt.toISOString(),
-            code: code.code,
-            quantity: (code as any).workshopQuantity ?? 1,
-            emailStatus,
-            emailSentAt,
-            emailError,
-        });
+        // Un code peut couvrir plusieurs workshops achetés ; les anciens codes n'ont pas d'achats enregistrés
+        const purchases = code.purchases.length > 0
+            ? code.purchases.map((purchase) => ({
+                productId: purchase.productId,
+                productTitle: purchase.productTitle ?? code.workshopProductTitle!,
+                quantity: purchase.quantity,
+                purchaseDate: purchase.createdAt,
+            }))
+            : [{
+                productId: code.workshopProductId,
+                productTitle: code.workshopProductTitle!,
+                quantity: code.workshopQuantity,
+                purchaseDate: code.createdAt,
+            }];
+
+        for (const purchase of purchases) {
+            const workshopKey = purchase.productId ?? purchase.productTitle;
+
+            if (!workshopsMap.has(workshopKey)) {
+                const program = purchase.productId ? programsByProductId.get(purchase.productId) : undefined;
+
+                workshopsMap.set(workshopKey, {
+                    workshopProductTitle: purchase.productTitle,
+                    workshopProductId: purchase.productId ?? null,
+                    program: program
+                        ? {
+                            discountPercentage: program.discountPercentage,
+                            cashbackAmount: program.cashbackAmount,
+                            codeValidityDays: program.codeValidityDays,
+                            generatesCodes: program.generatesCodes,
+                        }
+                        : null,
+                    participants: [],
+                });
+            }
+
+            workshopsMap.get(workshopKey)!.participants.push({
+                id: code.referrer.id,
+                name: fullName,
+                email: code.referrer.email,
+                shopifyCustomerId: code.referrer.shopifyCustomerId,
+                purchaseDate: purchase.purchaseDate.toISOString(),
+                code: code.code,
+                quantity: purchase.quantity,
+                emailStatus,
+                emailSentAt,
+                emailError,
+            });
+        }
     }
 
     const workshops = Array.from(workshopsMap.values()).map((w) => ({
@@ -107,7 +178,71 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         ),
     }));
 
-    return json<LoaderData>({ workshops });
+    return json<LoaderData>({
+        defaults: {
+            discountPercentage: settings.discountPercentage,
+            cashbackAmount: settings.cashbackAmount,
+            codeValidityDays: settings.codeValidityDays,
+        },
+        workshops,
+    });
+};
+
+type ActionData = { success?: boolean; error?: string };
+
+function parseOptionalNumber(raw: FormDataEntryValue | null) {
+    if (typeof raw !== "string" || !raw.trim()) return null;
+    const value = Number(raw.trim().replace(",", "."));
+    return Number.isFinite(value) ? value : Number.NaN;
+}
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+    const { session } = await authenticate.admin(request);
+
+    const formData = await request.formData();
+    const intent = formData.get("intent");
+    const productId = formData.get("productId");
+
+    if (typeof productId !== "string" || !productId) {
+        return json<ActionData>({ error: "Workshop introuvable." }, { status: 400 });
+    }
+
+    if (intent === "reset-program") {
+        await deleteWorkshopProgram(session.shop, productId);
+        return json<ActionData>({ success: true });
+    }
+
+    if (intent !== "save-program") {
+        return json<ActionData>({ error: "Action inconnue." }, { status: 400 });
+    }
+
+    const discountPercentage = parseOptionalNumber(formData.get("discountPercentage"));
+    const cashbackAmount = parseOptionalNumber(formData.get("cashbackAmount"));
+    const codeValidityDays = parseOptionalNumber(formData.get("codeValidityDays"));
+    const productTitle = formData.get("productTitle");
+
+    if (discountPercentage !== null && (Number.isNaN(discountPercentage) || discountPercentage < 0 || discountPercentage > 100)) {
+        return json<ActionData>({ error: "Veuillez saisir une remise valide entre 0 et 100 %." }, { status: 400 });
+    }
+
+    if (cashbackAmount !== null && (Number.isNaN(cashbackAmount) || cashbackAmount < 0)) {
+        return json<ActionData>({ error: "Veuillez saisir un montant de cashback valide (>= 0)." }, { status: 400 });
+    }
+
+    if (codeValidityDays !== null && (!Number.isInteger(codeValidityDays) || codeValidityDays < 0)) {
+        return json<ActionData>({ error: "Veuillez saisir une durée de validité valide en jours (>= 0)." }, { status: 400 });
+    }
+
+    await upsertWorkshopProgram(session.shop, {
+        productId,
+        productTitle: typeof productTitle === "string" ? productTitle : null,
+        discountPercentage: discountPercentage !== null ? discountPercentage / 100 : null,
+        cashbackAmount,
+        codeValidityDays,
+        generatesCodes: formData.get("generatesCodes") === "true",
+    });
+
+    return json<ActionData>({ success: true });
 };
 
 function exportToCSV(workshopTitle: string, participants: LoaderData["workshops"][0]["participants"]) {
@@ -137,8 +272,85 @@ function exportToCSV(workshopTitle: string, participants: LoaderData["workshops"
     URL.revokeObjectURL(url);
 }
 
+const percentageFormatter = new Intl.NumberFormat("fr-FR", {
+    style: "percent",
+    maximumFractionDigits: 2,
+});
+
+const currencyFormatter = new Intl.NumberFormat("fr-FR", {
+    style: "currency",
+    currency: "EUR",
+});
+
+function describeProgram(program: WorkshopProgramData | null, defaults: LoaderData["defaults"]) {
+    if (!program) {
+        return "Paramètres globaux";
+    }
+
+    if (!program.generatesCodes) {
+        return "Ne génère pas de code de parrainage";
+    }
+
+    return [
+        `Remise ${percentageFormatter.format(program.discountPercentage ?? defaults.discountPercentage)}`,
+        `cashback ${currencyFormatter.format(program.cashbackAmount ?? defaults.cashbackAmount)}`,
+        `validité ${program.codeValidityDays ?? defaults.codeValidityDays} jours`,
+    ].join(", ");
+}
+
+type ProgramFormValues = {
+    productId: string;
+    productTitle: string;
+    discountPercentage: string;
+    cashbackAmount: string;
+    codeValidityDays: string;
+    generatesCodes: boolean;
+};
+
 export default function WorkshopsPage() {
-    const { workshops } = useLoaderData<typeof loader>();
+    const { workshops, defaults } = useLoaderData<typeof loader>();
+    const programFetcher = useFetcher<ActionData>();
+    const [programForm, setProgramForm] = useState<ProgramFormValues | null>(null);
+    const isProgramSubmitting = programFetcher.state !== "idle";
+
+    useEffect(() => {
+        if (programFetcher.state === "idle" && programFetcher.data?.success) {
+            setProgramForm(null);
+        }
+    }, [programFetcher.state, programFetcher.data]);
+
+    const openProgramForm = (workshop: LoaderData["workshops"][0]) => {
+        if (!workshop.workshopProductId) return;
+
+        setProgramForm({
+            productId: workshop.workshopProductId,
+            productTitle: workshop.workshopProductTitle,
+            discountPercentage:
+                workshop.program?.discountPercentage !== null && workshop.program?.discountPercentage !== undefined
+                    ? (workshop.program.discountPercentage * 100).toString()
+                    : "",
+            cashbackAmount: workshop.program?.cashbackAmount?.toString() ?? "",
+            codeValidityDays: workshop.program?.codeValidityDays?.toString() ?? "",
+            generatesCodes: workshop.program?.generatesCodes ?? true,
+        });
+    };
+
+    const submitProgram = (intent: "save-program" | "reset-program") => {
+        if (!programForm) return;
+
+        programFetcher.submit(
+            {
+                intent,
+                productId: programForm.productId,
+                productTitle: programForm.productTitle,
+                discountPercentage: programForm.discountPercentage,
+                cashbackAmount: programForm.cashbackAmount,
+                codeValidityDays: programForm.codeValidityDays,
+                generatesCodes: String(programForm.generatesCodes),
+            },
+            { method: "post" },
+        );
+    };
 
     return (
         <Page title="Workshops">
@@ -167,15 +379,30 @@ export default function WorkshopsPage() {
                         <Card key={workshop.workshopProductTitle}>
                             <BlockStack gap="400">
                                 <InlineStack align="space-between" blockAlign="center">
-                                    <Text variant="headingLg" as="h2">
-                                        {workshop.workshopProductTitle}
-                                    </Text>
-                                    <Button
-                                        variant="primary"
-                                        onClick={() => exportToCSV(workshop.workshopProductTitle, workshop.participants)}
-                                    >
-                                        Exporter CSV ({workshop.participants.length.toString()} participant{workshop.participants.length > 1 ? "s" : ""})
-                                    </Button>
+                                    <BlockStack gap="100">
+                                        <InlineStack gap="200" blockAlign="center">
+                                            <Text variant="headingLg" as="h2">
+                                                {workshop.workshopProductTitle}
+                                            </Text>
+                                            {workshop.program ? <Badge tone="info">Programme spécifique</Badge> : null}
+                                        </InlineStack>
+                                        <Text variant="bodySm" tone="subdued" as="p">
+                                            {describeProgram(workshop.program, defaults)}
+                                        </Text>
+                                    </BlockStack>
+                                    <InlineStack gap="200">
+                                        {workshop.workshopProductId ? (
+                                            <Button onClick={() => openProgramForm(workshop)}>
+                                                Programme de parrainage
+                                            </Button>
+                                        ) : null}
+                                        <Button
+                                            variant="primary"
+                                            onClick={() => exportToCSV(workshop.workshopProductTitle, workshop.participants)}
+                                        >
+                                            Exporter CSV ({workshop.participants.length.toString()} participant{workshop.participants.length > 1 ? "s" : ""})
+                                        </Button>
+                                    </InlineStack>
                                 </InlineStack>
 
                                 <IndexTable
@@ -242,6 +469,87 @@ export default function WorkshopsPage() {
                     ))
                 )}
             </BlockStack>
+
+            {programForm && (
+                <Modal
+                    open
+                    onClose={() => {
+                        if (isProgramSubmitting) return;
+                        setProgramForm(null);
+                    }}
+                    title={`Programme de parrainage : ${programForm.productTitle}`}
+                    primaryAction={{
+                        content: "Enregistrer",
+                        onAction: () => submitProgram("save-program"),
+                        loading: isProgramSubmitting,
+                    }}
+                    secondaryActions={[
+                        {
+                            content: "Revenir aux paramètres globaux",
+                            destructive: true,
+                            onAction: () => submitProgram("reset-program"),
+                            disabled: isProgramSubmitting,
+                        },
+                    ]}
+                >
+                    <Modal.Section>
+                        <BlockStack gap="300">
+                            {programFetcher.data?.error ? (
+                                <Banner tone="critical">{programFetcher.data.error}</Banner>
+                            ) : null}
+                            <Text as="p" tone="subdued">
+                                Laissez un champ vide pour appliquer le paramètre global. Les codes déjà émis gardent leurs conditions jusqu'à leur prochaine synchronisation.
+                            </Text>
+                            <Checkbox
+                                label="Générer un code de parrainage pour les acheteurs de ce workshop"
+                                checked={programForm.generatesCodes}
+                                onChange={(checked) =>
+                                    setProgramForm((prev) => (prev ? { ...prev, generatesCodes: checked } : prev))
+                                }
+                            />
+                            <TextField
+                                label="Remise filleul"
+                                type="number"
+                                min={0}
+                                max={100}
+                                suffix="%"
+                                autoComplete="off"
+                                value={programForm.discountPercentage}
+                                placeholder={(defaults.discountPercentage * 100).toString()}
+                                onChange={(value) =>
+                                    setProgramForm((prev) => (prev ? { ...prev, discountPercentage: value } : prev))
+                                }
+                            />
+                            <TextField
+                                label="Cashback parrain"
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                prefix="€"
+                                autoComplete="off"
+                                value={programForm.cashbackAmount}
+                                placeholder={defaults.cashbackAmount.toString()}
+                                helpText="Montant fixe qui remplace le mode de cashback et les paliers globaux pour ce workshop."
+                                onChange={(value) =>
+                                    setProgramForm((prev) => (prev ? { ...prev, cashbackAmount: value } : prev))
+                                }
+                            />
+                            <TextField
+                                label="Validité des codes"
+                                type="number"
+                                min={0}
+                                suffix="jours"
+                                autoComplete="off"
+                                value={programForm.codeValidityDays}
+                                placeholder={defaults.codeValidityDays.toString()}
+                                onChange={(value) =>
+                                    setProgramForm((prev) => (prev ? { ...prev, codeValidityDays: value } : prev))
+                                }
+                            />
+                        </BlockStack>
+                    </Modal.Section>
+                </Modal>
+            )}
         </Page>
     );
 }
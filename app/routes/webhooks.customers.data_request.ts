@@ -0,0 +1,44 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { PrivacyRequestTopic } from "@prisma/client";
+import { enqueueJob, JobType } from "app/services/jobs.server";
+import { recordPrivacyRequest, type ShopifyCustomerPrivacyPayload } from "app/services/privacy.server";
+import {
+  claimWebhookEvent,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+} from "app/services/webhookEvents.server";
+import { authenticate } from "app/shopify.server";
+
+const respondOk = () => new Response("OK", { status: 200 });
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop: shopDomain, topic, webhookId, payload: rawPayload } = await authenticate.webhook(request);
+  const payload = rawPayload as ShopifyCustomerPrivacyPayload;
+  const customerId = payload.customer?.id ? String(payload.customer.id) : null;
+
+  console.log(`🎯 Webhook ${topic} reçu${customerId ? ` pour le client ${customerId}` : ""} (${webhookId})`);
+
+  const event = await claimWebhookEvent({
+    webhookId,
+    topic: String(topic),
+    shop: shopDomain,
+    resourceId: customerId,
+  });
+
+  if (!event.shouldProcess) {
+    console.log(`ℹ️ Webhook ${webhookId} déjà reçu (${event.status}), retry Shopify ignoré.`);
+    return respondOk();
+  }
+
+  try {
+    const privacyRequest = await recordPrivacyRequest(shopDomain, PrivacyRequestTopic.CUSTOMER_DATA_REQUEST, payload);
+    await enqueueJob(JobType.PRIVACY_REQUEST, { privacyRequestId: privacyRequest.id }, { shop: shopDomain });
+    await markWebhookEventProcessed(event.eventId);
+  } catch (runtimeError) {
+    console.error("❌ Impossible de mettre en file le webhook customers/data_request", runtimeError);
+    await markWebhookEventFailed(event.eventId, runtimeError);
+    return new Response("Erreur de traitement", { status: 500 });
+  }
+
+  return respondOk();
+};
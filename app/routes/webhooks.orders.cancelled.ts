@@ -0,0 +1,48 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { toOrderCancelledJobPayload, type ShopifyOrderCancelledPayload } from "app/services/clawback.server";
+import { enqueueJob, JobType } from "app/services/jobs.server";
+import {
+  claimWebhookEvent,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+} from "app/services/webhookEvents.server";
+import { authenticate } from "app/shopify.server";
+
+const respondOk = () => new Response("OK", { status: 200 });
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop: shopDomain, topic, webhookId, payload: rawPayload } = await authenticate.webhook(request);
+  const payload = rawPayload as ShopifyOrderCancelledPayload;
+
+  console.log(
+    `🎯 Webhook ${topic} reçu${payload.id ? ` pour la commande ${payload.id}` : ""} (${webhookId})`,
+  );
+
+  if (!payload.id) {
+    console.warn("⚠️ Webhook orders/cancelled incomplet : order ID manquant");
+    return respondOk();
+  }
+
+  const event = await claimWebhookEvent({
+    webhookId,
+    topic: String(topic),
+    shop: shopDomain,
+    resourceId: String(payload.id),
+  });
+
+  if (!event.shouldProcess) {
+    console.log(`ℹ️ Webhook ${webhookId} déjà reçu (${event.status}), retry Shopify ignoré.`);
+    return respondOk();
+  }
+
+  try {
+    await enqueueJob(JobType.ORDER_CANCELLED, toOrderCancelledJobPayload(shopDomain, payload), { shop: shopDomain });
+    await markWebhookEventProcessed(event.eventId);
+  } catch (runtimeError) {
+    console.error("❌ Impossible de mettre en file le webhook orders/cancelled", runtimeError);
+    await markWebhookEventFailed(event.eventId, runtimeError);
+    return new Response("Erreur de traitement", { status: 500 });
+  }
+
+  return respondOk();
+};
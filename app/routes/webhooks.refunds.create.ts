@@ -0,0 +1,48 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { toRefundCreatedJobPayload, type ShopifyRefundPayload } from "app/services/clawback.server";
+import { enqueueJob, JobType } from "app/services/jobs.server";
+import {
+  claimWebhookEvent,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+} from "app/services/webhookEvents.server";
+import { authenticate } from "app/shopify.server";
+
+const respondOk = () => new Response("OK", { status: 200 });
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop: shopDomain, topic, webhookId, payload: rawPayload } = await authenticate.webhook(request);
+  const payload = rawPayload as ShopifyRefundPayload;
+
+  console.log(
+    `🎯 Webhook ${topic} reçu${payload.order_id ? ` pour la commande ${payload.order_id}` : ""} (${webhookId})`,
+  );
+
+  if (!payload.id || !payload.order_id) {
+    console.warn("⚠️ Webhook refunds/create incomplet : refund ou order ID manquant");
+    return respondOk();
+  }
+
+  const event = await claimWebhookEvent({
+    webhookId,
+    topic: String(topic),
+    shop: shopDomain,
+    resourceId: String(payload.order_id),
+  });
+
+  if (!event.shouldProcess) {
+    console.log(`ℹ️ Webhook ${webhookId} déjà reçu (${event.status}), retry Shopify ignoré.`);
+    return respondOk();
+  }
+
+  try {
+    await enqueueJob(JobType.REFUND_CREATED, toRefundCreatedJobPayload(shopDomain, payload), { shop: shopDomain });
+    await markWebhookEventProcessed(event.eventId);
+  } catch (runtimeError) {
+    console.error("❌ Impossible de mettre en file le webhook refunds/create", runtimeError);
+    await markWebhookEventFailed(event.eventId, runtimeError);
+    return new Response("Erreur de traitement", { status: 500 });
+  }
+
+  return respondOk();
+};
@@ -0,0 +1,42 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { PrivacyRequestTopic } from "@prisma/client";
+import { enqueueJob, JobType } from "app/services/jobs.server";
+import { recordPrivacyRequest } from "app/services/privacy.server";
+import {
+  claimWebhookEvent,
+  markWebhookEventFailed,
+  markWebhookEventProcessed,
+} from "app/services/webhookEvents.server";
+import { authenticate } from "app/shopify.server";
+
+const respondOk = () => new Response("OK", { status: 200 });
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop: shopDomain, topic, webhookId } = await authenticate.webhook(request);
+
+  console.log(`🎯 Webhook ${topic} reçu pour ${shopDomain} (${webhookId})`);
+
+  const event = await claimWebhookEvent({
+    webhookId,
+    topic: String(topic),
+    shop: shopDomain,
+    resourceId: shopDomain,
+  });
+
+  if (!event.shouldProcess) {
+    console.log(`ℹ️ Webhook ${webhookId} déjà reçu (${event.status}), retry Shopify ignoré.`);
+    return respondOk();
+  }
+
+  try {
+    const privacyRequest = await recordPrivacyRequest(shopDomain, PrivacyRequestTopic.SHOP_REDACT);
+    await enqueueJob(JobType.PRIVACY_REQUEST, { privacyRequestId: privacyRequest.id }, { shop: shopDomain });
+    await markWebhookEventProcessed(event.eventId);
+  } catch (runtimeError) {
+    console.error("❌ Impossible de mettre en file le webhook shop/redact", runtimeError);
+    await markWebhookEventFailed(event.eventId, runtimeError);
+    return new Response("Erreur de traitement", { status: 500 });
+  }
+
+  return respondOk();
+};
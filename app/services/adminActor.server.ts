@@ -0,0 +1,16 @@
+import type { authenticate } from "app/shopify.server";
+
+type AdminContext = Awaited<ReturnType<typeof authenticate.admin>>;
+
+/**
+ * Auteur d'une action d'administration : l'utilisateur Shopify connecté (session en ligne ou jeton de session).
+ */
+export function getAdminActor({ session, sessionToken }: Pick<AdminContext, "session" | "sessionToken">) {
+  const user = session.onlineAccessInfo?.associated_user;
+
+  if (user) {
+    return [user.first_name, user.last_name].filter(Boolean).join(" ") || user.email;
+  }
+
+  return sessionToken?.sub ? `Utilisateur Shopify ${sessionToken.sub}` : "admin";
+}
@@ -0,0 +1,447 @@
+import { PayoutBatchStatus, PayoutMethod, PayoutTrigger, RewardStatus, type Prisma } from "@prisma/client";
+import prisma from "app/db.server";
+import { sendCashbackConfirmationEmail } from "./email.server";
+import {
+  formatReferrerName,
+  listPayableRewards,
+  parsePayoutReport,
+  summarizeReport,
+  type PayoutReportEntry,
+} from "./payouts.server";
+import { markRewardAsPaid } from "./rewards.server";
+import { getReferralSettings, type ReferralSettings } from "./settings.server";
+
+const SEPA_CURRENCY = "EUR";
+const SEPA_REMITTANCE_INFO = "Cashback parrainage";
+
+export function normalizeIban(raw: string) {
+  return raw.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Vérifie le format et la clé de contrôle (modulo 97) d'un IBAN normalisé.
+ */
+export function isValidIban(iban: string) {
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) {
+    return false;
+  }
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+
+  for (const char of rearranged) {
+    const digits = /\d/.test(char) ? char : String(char.charCodeAt(0) - 55);
+    for (const digit of digits) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+
+  return remainder === 1;
+}
+
+export function isValidBic(bic: string) {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(bic);
+}
+
+export function maskIban(iban: string) {
+  return `${iban.slice(0, 4)} •••• ${iban.slice(-4)}`;
+}
+
+type BankDetailsInput = {
+  iban?: string | null;
+  bic?: string | null;
+  bankAccountHolder?: string | null;
+};
+
+/**
+ * Enregistre les coordonnées bancaires du parrain. Un IBAN vide efface les coordonnées.
+ */
+export async function updateReferrerBankDetails(
+  shopDomain: string,
+  referrerId: string,
+  { iban, bic, bankAccountHolder }: BankDetailsInput,
+) {
+  const normalizedIban = iban ? normalizeIban(iban) : "";
+
+  if (!normalizedIban) {
+    return prisma.referrer.update({
+      where: { id: referrerId, shop: shopDomain },
+      data: { iban: null, bic: null, bankAccountHolder: null },
+    });
+  }
+
+  if (!isValidIban(normalizedIban)) {
+    throw new Error("IBAN invalide, vérifiez sa saisie.");
+  }
+
+  const normalizedBic = bic ? bic.replace(/\s+/g, "").toUpperCase() : "";
+
+  if (normalizedBic && !isValidBic(normalizedBic)) {
+    throw new Error("BIC invalide, vérifiez sa saisie.");
+  }
+
+  const holder = bankAccountHolder?.trim();
+
+  if (!holder) {
+    throw new Error("Le titulaire du compte est obligatoire.");
+  }
+
+  return prisma.referrer.update({
+    where: { id: referrerId, shop: shopDomain },
+    data: {
+      iban: normalizedIban,
+      bic: normalizedBic || null,
+      bankAccountHolder: holder,
+    },
+  });
+}
+
+/**
+ * Récompenses payables dont le mode de versement (ou celui des paramètres) est le virement bancaire.
+ */
+export async function listBankTransferRewards(shopDomain: string, settings?: ReferralSettings) {
+  const { defaultPayoutMethod } = settings ?? (await getReferralSettings(shopDomain));
+  const rewards = await listPayableRewards(shopDomain);
+
+  return rewards.filter(
+    (reward) => (reward.payoutMethod ?? defaultPayoutMethod) === PayoutMethod.BANK_TRANSFER,
+  );
+}
+
+function generateSepaMessageId(now = new Date()) {
+  const timestamp = now.toISOString().replace(/\D/g, "").slice(0, 14);
+  return `PARRAINAGE-${timestamp}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+}
+
+/**
+ * Regroupe les récompenses à verser par virement dans un lot en attente de confirmation.
+ * Les récompenses du lot restent approuvées jusqu'à la confirmation du virement.
+ */
+export async function createBankTransferBatch({ shopDomain, actor = "admin" }: { shopDomain: string; actor?: string }) {
+  const settings = await getReferralSettings(shopDomain);
+
+  if (!settings.sepaDebtorName || !settings.sepaDebtorIban) {
+    throw new Error(
+      "Renseignez le titulaire et l'IBAN du compte émetteur dans les paramètres avant de préparer un virement.",
+    );
+  }
+
+  const rewards = await listBankTransferRewards(shopDomain, settings);
+
+  if (rewards.length === 0) {
+    throw new Error("Aucune récompense à verser par virement bancaire.");
+  }
+
+  const report: PayoutReportEntry[] = [];
+  const includedIds: string[] = [];
+
+  for (const reward of rewards) {
+    const entry: PayoutReportEntry = {
+      rewardId: reward.id,
+      referrerId: reward.referrerId,
+      referrerName: formatReferrerName(reward.referrer),
+      amount: reward.amount,
+      currency: reward.currency,
+      outcome: "NOT_PROCESSED",
+      message: null,
+    };
+
+    if (!reward.referrer.iban) {
+      entry.outcome = "SKIPPED";
+      entry.message = "IBAN manquant pour ce parrain.";
+    } else if (reward.currency !== SEPA_CURRENCY) {
+      entry.outcome = "SKIPPED";
+      entry.message = `Devise ${reward.currency} non prise en charge par le virement SEPA.`;
+    } else {
+      entry.message = `En attente de confirmation du virement (${maskIban(reward.referrer.iban)}).`;
+      includedIds.push(reward.id);
+    }
+
+    report.push(entry);
+  }
+
+  if (includedIds.length === 0) {
+    throw new Error("Aucune récompense ne peut être virée : IBAN manquant ou devise non prise en charge.");
+  }
+
+  const batch = await prisma.$transaction(async (tx) => {
+    const created = await tx.payoutBatch.create({
+      data: {
+        shop: shopDomain,
+        trigger: PayoutTrigger.BANK_TRANSFER,
+        status: PayoutBatchStatus.AWAITING_CONFIRMATION,
+        totalCount: report.length,
+        sepaMessageId: generateSepaMessageId(),
+        ...summarizeReport(report),
+      },
+    });
+
+    // Garde sur le lot pour qu'une récompense ne soit jamais incluse dans deux virements
+    const linked = await tx.reward.updateMany({
+      where: { id: { in: includedIds }, status: RewardStatus.APPROVED, payoutBatchId: null, payoutClaimedAt: null },
+      data: { payoutBatchId: created.id },
+    });
+
+    if (linked.count !== includedIds.length) {
+      throw new Error("Des récompenses ont été modifiées entre-temps, veuillez réessayer.");
+    }
+
+    return created;
+  });
+
+  console.log(
+    `🏦 Virement ${batch.id} préparé par ${actor} : ${includedIds.length} récompense(s), ${report.length - includedIds.length} ignorée(s)`,
+  );
+
+  return batch;
+}
+
+async function getBankTransferBatch(shopDomain: string, batchId: string) {
+  const batch = await prisma.payoutBatch.findUnique({
+    where: { id: batchId, shop: shopDomain },
+    include: {
+      rewards: {
+        include: { referrer: true, referral: true },
+        orderBy: { createdAt: "asc" },
+      },
+    },
+  });
+
+  if (!batch || batch.trigger !== PayoutTrigger.BANK_TRANSFER) {
+    throw new Error("Virement introuvable.");
+  }
+
+  return batch;
+}
+
+function escapeXml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Restreint un texte au jeu de caractères latin SEPA (accents retirés) et à sa longueur maximale.
+ */
+function toSepaText(value: string, maxLength = 70) {
+  const text = value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9/\-?:().,'+ ]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, maxLength);
+
+  return escapeXml(text);
+}
+
+function formatSepaAmount(amount: number) {
+  return amount.toFixed(2);
+}
+
+function financialInstitution(bic: string | null | undefined) {
+  return bic
+    ? `<FinInstnId><BIC>${escapeXml(bic)}</BIC></FinInstnId>`
+    : "<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>";
+}
+
+/**
+ * Génère le fichier de virement SEPA (pain.001.001.03) du lot, à importer dans la banque.
+ */
+export async function buildSepaCreditTransferXml(shopDomain: string, batchId: string) {
+  const [batch, settings] = await Promise.all([
+    getBankTransferBatch(shopDomain, batchId),
+    getReferralSettings(shopDomain),
+  ]);
+
+  if (batch.status !== PayoutBatchStatus.AWAITING_CONFIRMATION && batch.status !== PayoutBatchStatus.COMPLETED) {
+    throw new Error("Ce virement a été annulé.");
+  }
+
+  if (!settings.sepaDebtorName || !settings.sepaDebtorIban || !batch.sepaMessageId) {
+    throw new Error("Compte émetteur SEPA non configuré dans les paramètres.");
+  }
+
+  const transactions = batch.rewards.map((reward) => {
+    const { iban, bic, bankAccountHolder } = reward.referrer;
+
+    if (!iban) {
+      throw new Error(`IBAN manquant pour ${formatReferrerName(reward.referrer)}.`);
+    }
+
+    return `
+      <CdtTrfTxInf>
+        <PmtId><EndToEndId>${escapeXml(reward.id)}</EndToEndId></PmtId>
+        <Amt><InstdAmt Ccy="${SEPA_CURRENCY}">${formatSepaAmount(reward.amount)}</InstdAmt></Amt>${
+          bic ? `\n        <CdtrAgt>${financialInstitution(bic)}</CdtrAgt>` : ""
+        }
+        <Cdtr><Nm>${toSepaText(bankAccountHolder ?? formatReferrerName(reward.referrer))}</Nm></Cdtr>
+        <CdtrAcct><Id><IBAN>${escapeXml(iban)}</IBAN></Id></CdtrAcct>
+        <RmtInf><Ustrd>${toSepaText(`${SEPA_REMITTANCE_INFO} ${reward.id}`, 140)}</Ustrd></RmtInf>
+      </CdtTrfTxInf>`;
+  });
+
+  const totalAmount = formatSepaAmount(batch.rewards.reduce((total, reward) => total + reward.amount, 0));
+  const now = new Date();
+  const debtorName = toSepaText(settings.sepaDebtorName);
+
+  const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <CstmrCdtTrfInitn>
+    <GrpHdr>
+      <MsgId>${escapeXml(batch.sepaMessageId)}</MsgId>
+      <CreDtTm>${now.toISOString().slice(0, 19)}</CreDtTm>
+      <NbOfTxs>${batch.rewards.length}</NbOfTxs>
+      <CtrlSum>${totalAmount}</CtrlSum>
+      <InitgPty><Nm>${debtorName}</Nm></InitgPty>
+    </GrpHdr>
+    <PmtInf>
+      <PmtInfId>${escapeXml(batch.sepaMessageId)}</PmtInfId>
+      <PmtMtd>TRF</PmtMtd>
+      <BtchBookg>true</BtchBookg>
+      <NbOfTxs>${batch.rewards.length}</NbOfTxs>
+      <CtrlSum>${totalAmount}</CtrlSum>
+      <PmtTpInf><SvcLvl><Cd>SEPA</Cd></SvcLvl></PmtTpInf>
+      <ReqdExctnDt>${now.toISOString().slice(0, 10)}</ReqdExctnDt>
+      <Dbtr><Nm>${debtorName}</Nm></Dbtr>
+      <DbtrAcct><Id><IBAN>${escapeXml(settings.sepaDebtorIban)}</IBAN></Id></DbtrAcct>
+      <DbtrAgt>${financialInstitution(settings.sepaDebtorBic)}</DbtrAgt>
+      <ChrgBr>SLEV</ChrgBr>${transactions.join("")}
+    </PmtInf>
+  </CstmrCdtTrfInitn>
+</Document>
+`;
+
+  return {
+    fileName: `${batch.sepaMessageId.toLowerCase()}.xml`,
+    xml,
+  };
+}
+
+/**
+ * Confirme que le virement a été exécuté par la banque : les récompenses du lot passent en payées.
+ * Une récompense qui ne peut plus être payée (ex. annulée entre-temps) est signalée en erreur et retirée du lot.
+ */
+export async function confirmBankTransferBatch(shopDomain: string, batchId: string, actor = "admin") {
+  // Un seul administrateur peut confirmer le lot
+  const claimed = await prisma.payoutBatch.updateMany({
+    where: {
+      id: batchId,
+      shop: shopDomain,
+      trigger: PayoutTrigger.BANK_TRANSFER,
+      status: PayoutBatchStatus.AWAITING_CONFIRMATION,
+      confirmedBy: null,
+    },
+    data: { confirmedBy: actor },
+  });
+
+  if (claimed.count === 0) {
+    throw new Error("Ce virement n'est plus en attente de confirmation.");
+  }
+
+  const batch = await getBankTransferBatch(shopDomain, batchId);
+  const entries = new Map(parsePayoutReport(batch.report).map((entry) => [entry.rewardId, entry]));
+
+  for (const reward of batch.rewards) {
+    const entry = entries.get(reward.id) ?? {
+      rewardId: reward.id,
+      referrerId: reward.referrerId,
+      referrerName: formatReferrerName(reward.referrer),
+      amount: reward.amount,
+      currency: reward.currency,
+      outcome: "NOT_PROCESSED" as const,
+      message: null,
+    };
+
+    try {
+      await markRewardAsPaid(reward.id, {
+        reason: "Virement SEPA confirmé",
+        actor,
+        payoutBatchId: batch.id,
+        payoutMethod: PayoutMethod.BANK_TRANSFER,
+        payoutReference: `${batch.sepaMessageId}/${reward.id}`,
+      });
+      entry.outcome = "PAID";
+      entry.message = null;
+    } catch (error) {
+      entry.outcome = "FAILED";
+      entry.message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Récompense ${reward.id} du virement ${batch.id} non marquée comme payée`, error);
+      await prisma.reward.update({ where: { id: reward.id }, data: { payoutBatchId: null } });
+      entries.set(reward.id, entry);
+      continue;
+    }
+
+    entries.set(reward.id, entry);
+
+    try {
+      await sendCashbackConfirmationEmail({
+        shopDomain,
+        referrerId: reward.referrerId,
+        referrerEmail: reward.referrer.email,
+        firstName: reward.referrer.firstName,
+        lastName: reward.referrer.lastName,
+        cashbackAmount: reward.amount,
+        refereeEmail: reward.referral?.refereeEmail ?? null,
+      });
+    } catch (error) {
+      console.error(
+        `❌ Erreur lors de l'envoi de l'email de confirmation cashback pour la récompense ${reward.id}`,
+        error,
+      );
+    }
+  }
+
+  const report = Array.from(entries.values());
+  const completed = await prisma.payoutBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: PayoutBatchStatus.COMPLETED,
+      completedAt: new Date(),
+      ...summarizeReport(report),
+    },
+  });
+
+  console.log(
+    `✅ Virement ${batch.id} confirmé par ${actor} : ${completed.paidCount} payée(s), ${completed.failedCount} en erreur`,
+  );
+
+  return completed;
+}
+
+/**
+ * Annule un virement non exécuté : les récompenses sont retirées du lot et redeviennent disponibles.
+ */
+export async function cancelBankTransferBatch(shopDomain: string, batchId: string, actor = "admin") {
+  const batch = await getBankTransferBatch(shopDomain, batchId);
+
+  const report = parsePayoutReport(batch.report).map((entry) =>
+    entry.outcome === "NOT_PROCESSED" ? { ...entry, message: "Virement annulé." } : entry,
+  );
+
+  await prisma.$transaction(async (tx) => {
+    const cancelled = await tx.payoutBatch.updateMany({
+      where: { id: batchId, status: PayoutBatchStatus.AWAITING_CONFIRMATION, confirmedBy: null },
+      data: {
+        status: PayoutBatchStatus.CANCELLED,
+        completedAt: new Date(),
+        errorMessage: `Virement annulé par ${actor}.`,
+        report: report as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    if (cancelled.count === 0) {
+      throw new Error("Ce virement n'est plus en attente de confirmation.");
+    }
+
+    await tx.reward.updateMany({
+      where: { payoutBatchId: batchId, status: { not: RewardStatus.PAID } },
+      data: { payoutBatchId: null },
+    });
+  });
+
+  console.log(`ℹ️ Virement ${batchId} annulé par ${actor}`);
+}
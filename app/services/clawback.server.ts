@@ -0,0 +1,251 @@
+import { RewardStatus } from "@prisma/client";
+import prisma from "app/db.server";
+import { canTransitionReward } from "app/models/reward";
+import { transitionReward } from "./rewards.server";
+
+export type ShopifyRefundPayload = {
+  id?: number | string;
+  order_id?: number | string;
+  refund_line_items?: Array<{
+    quantity?: number;
+    line_item?: {
+      product_id?: number | string | null;
+      variant_id?: number | string | null;
+    } | null;
+  }>;
+};
+
+export type ShopifyOrderCancelledPayload = {
+  id?: number | string;
+  cancel_reason?: string | null;
+};
+
+export type RefundCreatedJobPayload = {
+  shopDomain: string;
+  refund: ShopifyRefundPayload;
+};
+
+export type OrderCancelledJobPayload = {
+  shopDomain: string;
+  order: ShopifyOrderCancelledPayload;
+};
+
+/**
+ * Ne conserve que les champs utiles au traitement pour limiter les données stockées dans la file.
+ */
+export function toRefundCreatedJobPayload(shopDomain: string, payload: ShopifyRefundPayload): RefundCreatedJobPayload {
+  return {
+    shopDomain,
+    refund: {
+      id: payload.id,
+      order_id: payload.order_id,
+      refund_line_items: (payload.refund_line_items ?? []).map((item) => ({
+        quantity: item.quantity,
+        line_item: item.line_item
+          ? {
+              product_id: item.line_item.product_id ?? null,
+              variant_id: item.line_item.variant_id ?? null,
+            }
+          : null,
+      })),
+    },
+  };
+}
+
+export function toOrderCancelledJobPayload(
+  shopDomain: string,
+  payload: ShopifyOrderCancelledPayload,
+): OrderCancelledJobPayload {
+  return {
+    shopDomain,
+    order: {
+      id: payload.id,
+      cancel_reason: payload.cancel_reason ?? null,
+    },
+  };
+}
+
+type RecordVoidedOrderParams = {
+  shopDomain: string;
+  orderId: string;
+  reason: string;
+  /** Produits remboursés ; vide pour une annulation de toute la commande. */
+  productIds?: string[];
+};
+
+/**
+ * Mémorise une commande remboursée ou annulée avant la création de son parrainage,
+ * pour que le traitement ORDER_PAID arrivé ensuite ne crée ni parrainage ni récompense.
+ */
+async function recordVoidedOrder({ shopDomain, orderId, reason, productIds = [] }: RecordVoidedOrderParams) {
+  await prisma.voidedOrder.create({
+    data: { shop: shopDomain, orderId, reason, productIds },
+  });
+
+  console.log(`ℹ️ Aucun parrainage lié à la commande ${orderId}, annulation mémorisée (${reason}).`);
+}
+
+/**
+ * Retourne l'annulation enregistrée qui concerne le workshop de la commande, s'il y en a une.
+ * Sans workshop identifié, tout remboursement compte, comme dans `processRefundCreated`.
+ */
+export async function findOrderVoid(shopDomain: string, orderId: string, workshopProductId?: string | null) {
+  const voids = await prisma.voidedOrder.findMany({
+    where: { shop: shopDomain, orderId },
+    orderBy: { createdAt: "asc" },
+  });
+
+  return (
+    voids.find(
+      (voided) =>
+        voided.productIds.length === 0 || !workshopProductId || voided.productIds.includes(workshopProductId),
+    ) ?? null
+  );
+}
+
+type VoidReferralParams = {
+  shopDomain: string;
+  orderId: string;
+  reason: string;
+  /** Auteur enregistré dans l'historique de la récompense annulée. */
+  actor?: string;
+};
+
+/**
+ * Annule le parrainage lié à la commande d'un filleul :
+ * - la récompense non payée passe en CANCELLED
+ * - une récompense déjà payée ou en cours de versement est marquée comme à récupérer
+ * - l'utilisation du code est décomptée
+ * Sans parrainage, l'annulation est mémorisée pour la commande ; sans effet si le parrainage est déjà annulé.
+ */
+export async function voidReferralForOrder({ shopDomain, orderId, reason, actor = "webhook" }: VoidReferralParams) {
+  const referral = await prisma.referral.findUnique({
+    where: { orderId, shop: shopDomain },
+    include: { reward: true },
+  });
+
+  if (!referral) {
+    await recordVoidedOrder({ shopDomain, orderId, reason });
+    return null;
+  }
+
+  if (referral.voidedAt) {
+    console.log(`ℹ️ Parrainage ${referral.id} déjà annulé (${referral.voidReason ?? "sans motif"}).`);
+    return referral;
+  }
+
+  const now = new Date();
+
+  await prisma.$transaction(async (tx) => {
+    // Garde contre un traitement concurrent (remboursement et annulation reçus en même temps)
+    const voided = await tx.referral.updateMany({
+      where: { id: referral.id, voidedAt: null },
+      data: { voidedAt: now, voidReason: reason },
+    });
+
+    if (voided.count === 0) {
+      return;
+    }
+
+    if (referral.reward) {
+      // Relue dans la transaction : un versement a pu prendre la récompense depuis la première lecture
+      const reward = await tx.reward.findUniqueOrThrow({ where: { id: referral.reward.id } });
+
+      // L'argent est parti ou peut partir à tout moment : la récompense ne peut plus être simplement annulée
+      if (reward.status === RewardStatus.PAID || reward.payoutClaimedAt || reward.payoutBatchId) {
+        await tx.reward.update({
+          where: { id: reward.id },
+          data: { recoveryRequiredAt: now },
+        });
+        console.warn(
+          `⚠️ Récompense ${reward.id} déjà payée ou en cours de versement : récupération du cashback à effectuer (${reason}).`,
+        );
+      } else if (canTransitionReward(reward.status, RewardStatus.CANCELLED)) {
+        await transitionReward(reward.id, RewardStatus.CANCELLED, {
+          reason,
+          actor,
+          tx,
+        });
+        console.log(`✅ Récompense ${reward.id} annulée (${reason}).`);
+      }
+    }
+
+    if (referral.codeId) {
+      // Ne jamais descendre sous 0 si le compteur a été modifié entre-temps
+      await tx.code.updateMany({
+        where: { id: referral.codeId, usageCount: { gt: 0 } },
+        data: { usageCount: { decrement: 1 } },
+      });
+    }
+  });
+
+  console.log(`✅ Parrainage ${referral.id} annulé pour la commande ${orderId} (${reason}).`);
+
+  return prisma.referral.findUnique({
+    where: { id: referral.id },
+    include: { reward: true },
+  });
+}
+
+/**
+ * Un remboursement annule le parrainage dès qu'il porte sur le workshop acheté par le filleul.
+ * Les remboursements sans ligne produit (frais de port, ajustements, cashbacks versés par l'app)
+ * sont ignorés.
+ */
+export async function processRefundCreated({ shopDomain, refund }: RefundCreatedJobPayload) {
+  if (!refund.order_id) {
+    console.warn("⚠️ Remboursement sans order_id, traitement ignoré.");
+    return;
+  }
+
+  const orderId = String(refund.order_id);
+  const refundedLines = (refund.refund_line_items ?? []).filter((item) => item.line_item);
+
+  if (refundedLines.length === 0) {
+    console.log(`ℹ️ Remboursement ${refund.id} sans ligne produit sur la commande ${orderId}, ignoré.`);
+    return;
+  }
+
+  const reason = `Commande remboursée (remboursement ${refund.id})`;
+  const referral = await prisma.referral.findUnique({ where: { orderId, shop: shopDomain } });
+
+  if (!referral) {
+    // Le workshop n'est pas encore connu : les produits remboursés sont comparés lors du traitement ORDER_PAID
+    await recordVoidedOrder({
+      shopDomain,
+      orderId,
+      reason,
+      productIds: refundedLines.map(({ line_item }) => String(line_item?.product_id || line_item?.variant_id)),
+    });
+    return;
+  }
+
+  const refundsWorkshop =
+    !referral.workshopProductId ||
+    refundedLines.some(({ line_item }) => {
+      const productId = String(line_item?.product_id || line_item?.variant_id);
+      return productId === referral.workshopProductId;
+    });
+
+  if (!refundsWorkshop) {
+    console.log(
+      `ℹ️ Remboursement ${refund.id} sans rapport avec le workshop ${referral.workshopProductId}, parrainage conservé.`,
+    );
+    return;
+  }
+
+  await voidReferralForOrder({ shopDomain, orderId, reason });
+}
+
+export async function processOrderCancelled({ shopDomain, order }: OrderCancelledJobPayload) {
+  if (!order.id) {
+    console.warn("⚠️ Annulation sans order ID, traitement ignoré.");
+    return;
+  }
+
+  await voidReferralForOrder({
+    shopDomain,
+    orderId: String(order.id),
+    reason: order.cancel_reason ? `Commande annulée (${order.cancel_reason})` : "Commande annulée",
+  });
+}
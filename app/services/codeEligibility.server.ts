@@ -0,0 +1,194 @@
+import { CodeGenerationSkipReason } from "@prisma/client";
+import prisma from "app/db.server";
+import { CODE_GENERATION_SKIP_REASON_LABELS } from "app/models/purchase";
+import { toShopifyGid } from "./discounts.server";
+import type { WorkshopLine } from "./purchases.server";
+import type { ReferralSettings } from "./settings.server";
+import { callAdminGraphql } from "./shopifyAdmin.server";
+
+const PRODUCTS_ELIGIBILITY_QUERY = `
+  query ProductsEligibility($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      ... on Product {
+        id
+        tags
+        collections(first: 250) {
+          nodes {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+type ProductEligibilityData = {
+  tags: string[];
+  collectionIds: string[];
+};
+
+type CodeEligibilitySettings = Pick<
+  ReferralSettings,
+  "qualifyingProductIds" | "qualifyingCollectionIds" | "qualifyingProductTags" | "minimumQualifyingOrderAmount"
+>;
+
+export type CodeGenerationSkip = {
+  reason: CodeGenerationSkipReason;
+  details: string | null;
+};
+
+export type CodeEligibility = {
+  /** Workshops de la commande pour lesquels un code peut être généré. */
+  qualifyingLines: WorkshopLine[];
+  skip: CodeGenerationSkip | null;
+};
+
+const normalizeTag = (tag: string) => tag.trim().toLowerCase();
+
+/**
+ * Tags et collections des produits (une seule requête, scope read_products).
+ */
+async function fetchProductsEligibilityData(productIds: string[], shopDomain: string) {
+  const response = await callAdminGraphql<{
+    data?: {
+      nodes?: Array<{ id?: string; tags?: string[]; collections?: { nodes?: Array<{ id: string }> } } | null>;
+    };
+    errors?: Array<{ message?: string }>;
+  }>({
+    query: PRODUCTS_ELIGIBILITY_QUERY,
+    variables: { ids: productIds.map((productId) => toShopifyGid("Product", productId)) },
+    shopDomain,
+  });
+
+  if (response.errors?.length) {
+    throw new Error(`Erreur GraphQL Shopify (produits éligibles): ${JSON.stringify(response.errors)}`);
+  }
+
+  const products = new Map<string, ProductEligibilityData>();
+
+  for (const node of response.data?.nodes ?? []) {
+    if (!node?.id) continue;
+
+    products.set(node.id, {
+      tags: (node.tags ?? []).map(normalizeTag),
+      collectionIds: (node.collections?.nodes ?? []).map((collection) => collection.id),
+    });
+  }
+
+  return products;
+}
+
+/**
+ * Détermine si la commande donne un code de parrainage à l'acheteur : au moins un workshop éligible
+ * (produit, collection ou tag autorisé ; tous les produits si aucune liste n'est configurée)
+ * et un sous-total au moins égal au minimum configuré.
+ */
+export async function evaluateCodeEligibility({
+  lines,
+  orderAmount,
+  settings,
+  shopDomain,
+}: {
+  lines: WorkshopLine[];
+  orderAmount: number | null;
+  settings: CodeEligibilitySettings;
+  shopDomain: string;
+}): Promise<CodeEligibility> {
+  const minimum = settings.minimumQualifyingOrderAmount;
+
+  if (minimum !== null && minimum > 0 && (orderAmount === null || orderAmount < minimum)) {
+    return {
+      qualifyingLines: [],
+      skip: {
+        reason: CodeGenerationSkipReason.BELOW_MINIMUM_ORDER_AMOUNT,
+        details: `Sous-total ${orderAmount ?? "inconnu"} inférieur au minimum de ${minimum}`,
+      },
+    };
+  }
+
+  const productIds = new Set(settings.qualifyingProductIds);
+  const collectionIds = new Set(settings.qualifyingCollectionIds);
+  const tags = new Set(settings.qualifyingProductTags.map(normalizeTag));
+
+  if (productIds.size === 0 && collectionIds.size === 0 && tags.size === 0) {
+    return { qualifyingLines: lines, skip: null };
+  }
+
+  // Les collections et tags ne figurent pas dans la commande : on ne les demande que si nécessaire
+  const candidates = lines.filter((line) => !productIds.has(toShopifyGid("Product", line.productId)));
+  let products = new Map<string, ProductEligibilityData>();
+
+  if (candidates.length > 0 && (collectionIds.size > 0 || tags.size > 0)) {
+    try {
+      products = await fetchProductsEligibilityData(
+        candidates.map((line) => line.productId),
+        shopDomain,
+      );
+    } catch (error) {
+      // Pas de code pour cette commande, sans bloquer le reste du traitement (parrainage, récompense)
+      console.error("❌ Impossible de vérifier l'éligibilité des produits de la commande", error);
+      return {
+        qualifyingLines: [],
+        skip: {
+          reason: CodeGenerationSkipReason.ELIGIBILITY_CHECK_FAILED,
+          details: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+  }
+
+  const qualifyingLines = lines.filter((line) => {
+    const gid = toShopifyGid("Product", line.productId);
+    if (productIds.has(gid)) return true;
+
+    const product = products.get(gid);
+    return (
+      !!product &&
+      (product.collectionIds.some((id) => collectionIds.has(id)) || product.tags.some((tag) => tags.has(tag)))
+    );
+  });
+
+  if (qualifyingLines.length === 0) {
+    return {
+      qualifyingLines,
+      skip: {
+        reason: CodeGenerationSkipReason.NO_QUALIFYING_PRODUCT,
+        details:
+          lines.length > 0
+            ? `Produits hors sélection : ${lines.map((line) => line.productTitle ?? line.productId).join(", ")}`
+            : "Aucun produit dans la commande",
+      },
+    };
+  }
+
+  return { qualifyingLines, skip: null };
+}
+
+/**
+ * Journalise une commande qui n'a donné ni parrain ni code (rejouable sans doublon).
+ */
+export async function recordCodeGenerationSkip({
+  shopDomain,
+  orderId,
+  shopifyCustomerId,
+  email,
+  skip,
+}: {
+  shopDomain: string;
+  orderId: string;
+  shopifyCustomerId: string | null;
+  email: string | null;
+  skip: CodeGenerationSkip;
+}) {
+  console.log(
+    `ℹ️ Pas de code de parrainage pour la commande ${orderId} : ${CODE_GENERATION_SKIP_REASON_LABELS[skip.reason]}${
+      skip.details ? ` (${skip.details})` : ""
+    }`,
+  );
+
+  return prisma.codeGenerationSkip.upsert({
+    where: { orderId },
+    create: { shop: shopDomain, orderId, shopifyCustomerId, email, ...skip },
+    update: {},
+  });
+}
@@ -0,0 +1,101 @@
+import { JobStatus } from "@prisma/client";
+import prisma from "app/db.server";
+import { sendCodeExpiryReminderForCode } from "./codes.server";
+import { enqueueJob, JobType } from "./jobs.server";
+import { listShopsWithExpiryReminders } from "./settings.server";
+
+const CODE_EXPIRY_SWEEP_INTERVAL_MS = 24 * 60 * 60 * 1000; // un passage par jour
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Désactive localement les codes dont la date d'expiration est passée.
+ * Côté Shopify, le discount s'arrête déjà seul grâce à son `endsAt`.
+ */
+export async function deactivateExpiredCodes(now = new Date()) {
+  const result = await prisma.code.updateMany({
+    where: {
+      active: true,
+      expiresAt: { lte: now },
+    },
+    data: { active: false },
+  });
+
+  if (result.count > 0) {
+    console.log(`ℹ️ ${result.count} code(s) expiré(s) désactivé(s)`);
+  }
+
+  return result.count;
+}
+
+/**
+ * Envoie un rappel pour chaque code actif qui expire dans les `reminderDays` prochains jours
+ * et n'a pas encore fait l'objet d'un rappel. Les codes épuisés ou de parrains anonymisés sont ignorés.
+ */
+export async function sendExpiryReminders(shopDomain: string, reminderDays: number, now = new Date()) {
+  const codes = await prisma.code.findMany({
+    where: {
+      shop: shopDomain,
+      active: true,
+      expiryReminderSentAt: null,
+      expiresAt: { gt: now, lte: new Date(now.getTime() + reminderDays * DAY_MS) },
+      referrer: { redactedAt: null },
+    },
+    select: { id: true, code: true, usageCount: true, maxUsage: true },
+  });
+
+  let sentCount = 0;
+  for (const code of codes) {
+    if (code.maxUsage > 0 && code.usageCount >= code.maxUsage) {
+      continue;
+    }
+
+    try {
+      if (await sendCodeExpiryReminderForCode(code.id, now)) {
+        sentCount += 1;
+      }
+    } catch (error) {
+      console.error(`❌ Rappel d'expiration impossible pour le code ${code.code}`, error);
+    }
+  }
+
+  return sentCount;
+}
+
+export async function runCodeExpirySweep() {
+  try {
+    const now = new Date();
+    await deactivateExpiredCodes(now);
+
+    const shops = await listShopsWithExpiryReminders();
+    for (const { shop, codeExpiryReminderDays } of shops) {
+      try {
+        const sentCount = await sendExpiryReminders(shop, codeExpiryReminderDays, now);
+        if (sentCount > 0) {
+          console.log(`✅ ${sentCount} rappel(s) d'expiration envoyé(s) pour ${shop}`);
+        }
+      } catch (error) {
+        console.error(`❌ Rappels d'expiration impossibles pour ${shop}`, error);
+      }
+    }
+  } finally {
+    await scheduleNextCodeExpirySweep(new Date(Date.now() + CODE_EXPIRY_SWEEP_INTERVAL_MS));
+  }
+}
+
+/**
+ * Garantit qu'un seul job d'expiration des codes est programmé.
+ */
+export async function scheduleNextCodeExpirySweep(runAt = new Date()) {
+  const pending = await prisma.job.findFirst({
+    where: {
+      type: JobType.CODE_EXPIRY_SWEEP,
+      status: JobStatus.PENDING,
+    },
+  });
+
+  if (pending) {
+    return pending;
+  }
+
+  return enqueueJob(JobType.CODE_EXPIRY_SWEEP, {}, { runAt, maxAttempts: 1 });
+}
@@ -1,6 +1,11 @@
+import type { Code, Prisma } from "@prisma/client";
 import prisma from "app/db.server";
-import type { ReferralSettings } from "./settings.server";
-import { sendPromoCodeEmail } from "./email.server";
+import { CashbackMode, formatCashbackTerms, getCashbackTerms, type CashbackTerms } from "app/models/cashback";
+import { EmailStatus } from "app/models/email";
+import type { ReferralSettings, ResolvedReferralSettings } from "./settings.server";
+import { getReferralSettings } from "./settings.server";
+import { recreateShopifyDiscount } from "./discounts.server";
+import { sendCodeExpiryReminderEmail, sendPromoCodeEmail } from "./email.server";
 
 export function generateReferralCode(): string {
   const letters = Array.from({ length: 3 }, () =>
@@ -22,9 +27,58 @@ function computeExpiryDate(codeValidityDays: number): Date | null {
   return expiry;
 }
 
+type CodeCashbackSnapshot = Pick<Code, "cashbackMode" | "cashbackSnapshot" | "cashbackMinSnapshot" | "cashbackMaxSnapshot">;
+
+const emailCurrencyFormatter = new Intl.NumberFormat("fr-FR", {
+  style: "currency",
+  currency: "EUR",
+});
+
+/**
+ * Fige les conditions de cashback courantes sur un code : `cashbackSnapshot` contient
+ * le montant fixe ou, en mode pourcentage, le taux appliqué au sous-total de la commande.
+ */
+export function buildCashbackSnapshot(settings: ReferralSettings): CodeCashbackSnapshot {
+  const terms = getCashbackTerms(settings);
+
+  return {
+    cashbackMode: terms.mode,
+    cashbackSnapshot: terms.value,
+    cashbackMinSnapshot: terms.minAmount,
+    cashbackMaxSnapshot: terms.maxAmount,
+  };
+}
+
+/**
+ * Conditions de cashback d'un code, celles des paramètres pour les codes sans snapshot.
+ */
+export function getCodeCashbackTerms(code: CodeCashbackSnapshot, settings: ReferralSettings): CashbackTerms {
+  if (code.cashbackSnapshot === null) {
+    return getCashbackTerms(settings);
+  }
+
+  return {
+    mode: code.cashbackMode,
+    value: code.cashbackSnapshot,
+    minAmount: code.cashbackMinSnapshot,
+    maxAmount: code.cashbackMaxSnapshot,
+  };
+}
+
+/** Valeur de `{{cashbackAmount}}` dans les emails : montant fixe ou conditions du pourcentage. */
+export function getCodeCashbackEmailValue(code: CodeCashbackSnapshot, settings: ReferralSettings) {
+  const terms = getCodeCashbackTerms(code, settings);
+
+  return terms.mode === CashbackMode.FIXED
+    ? terms.value
+    : formatCashbackTerms(terms, (amount) => emailCurrencyFormatter.format(amount));
+}
+
 type CreateCodeParams = {
+  shopDomain: string;
   referrerId: string;
-  settings: ReferralSettings;
+  /** Par défaut, paramètres résolus pour `workshopProductId`. */
+  settings?: ResolvedReferralSettings;
   originOrderId?: string | null;
   originOrderGid?: string | null;
   workshopProductId?: string | null;
@@ -34,8 +88,9 @@ type CreateCodeParams = {
 };
 
 export async function createCodeForReferrer({
+  shopDomain,
   referrerId,
-  settings,
+  settings: providedSettings,
   originOrderGid,
   originOrderId,
   workshopProductId,
@@ -43,11 +98,17 @@ export async function createCodeForReferrer({
   workshopQuantity = 1,
   sendEmail = true,
 }: CreateCodeParams) {
+  const settings = providedSettings ?? (await getReferralSettings(shopDomain, workshopProductId));
+
+  if (!settings.generatesCodes) {
+    throw new Error(`Le workshop ${workshopProductTitle ?? workshopProductId} ne génère pas de code de parrainage.`);
+  }
+
   let code = generateReferralCode();
   let attempts = 0;
 
   while (attempts < 5) {
-    const existing = await prisma.code.findUnique({ where: { code } });
+    const existing = await prisma.code.findUnique({ where: { shop_code: { shop: shopDomain, code } } });
 
     if (!existing) {
       break;
@@ -65,6 +126,7 @@ export async function createCodeForReferrer({
 
   const codeRecord = await prisma.code.create({
     data: {
+      shop: shopDomain,
       referrerId,
       code,
       maxUsage: settings.maxUsagePerCode,
@@ -75,7 +137,7 @@ export async function createCodeForReferrer({
       workshopProductTitle: workshopProductTitle ?? undefined,
       workshopQuantity: workshopQuantity ?? 1,
       discountSnapshot: settings.discountPercentage,
-      cashbackSnapshot: settings.cashbackAmount,
+      ...buildCashbackSnapshot(settings),
     },
     include: {
       referrer: true,
@@ -83,25 +145,9 @@ export async function createCodeForReferrer({
   });
 
   if (sendEmail) {
-    // Envoyer l'email avec le code promo (en arrière-plan, ne pas bloquer si ça échoue)
+    // Envoyer l'email avec le code promo (ne pas bloquer si ça échoue)
     try {
-      console.log(
-        `📧 Tentative d'envoi d'email pour le code ${codeRecord.code} à ${codeRecord.referrer.email || "pas d'email"}`,
-      );
-      await sendPromoCodeEmail({
-        referrerId,
-        codeId: codeRecord.id,
-        referrerEmail: codeRecord.referrer.email,
-        firstName: codeRecord.referrer.firstName,
-        lastName: codeRecord.referrer.lastName,
-        code: codeRecord.code,
-        workshopTitle: codeRecord.workshopProductTitle,
-        workshopQuantity: codeRecord.workshopQuantity,
-        expiresAt,
-        discountPercentage: codeRecord.discountSnapshot ?? settings.discountPercentage,
-        cashbackAmount: codeRecord.cashbackSnapshot ?? settings.cashbackAmount,
-      });
-      console.log(`✅ Email envoyé avec succès pour le code ${codeRecord.code}`);
+      await sendPromoCodeEmailForCode(codeRecord.id, settings);
     } catch (emailError) {
       // Log l'erreur mais ne bloque pas la création du code
       console.error("❌ Erreur lors de l'envoi de l'email de code promo:", emailError);
@@ -111,16 +157,38 @@ export async function createCodeForReferrer({
   return codeRecord;
 }
 
-export async function markCodeAsUsed(codeId: string) {
+/**
+ * Prolonge la validité d'un code à partir d'aujourd'hui, sans raccourcir une expiration plus lointaine.
+ * Les conditions figées du code (remise, cashback) et sa commande d'origine ne changent pas.
+ * Un code désactivé à son expiration redevient actif et recevra un nouveau rappel avant la nouvelle échéance.
+ */
+export async function extendCodeValidity(codeId: string, codeValidityDays: number) {
+  const code = await prisma.code.findUniqueOrThrow({ where: { id: codeId } });
+  const extendedExpiry = computeExpiryDate(codeValidityDays);
+
+  // Validité illimitée (0 jour) : le code n'expire plus
+  const expiresAt =
+    extendedExpiry && code.expiresAt && code.expiresAt > extendedExpiry ? code.expiresAt : extendedExpiry;
+
   return prisma.code.update({
+    where: { id: codeId },
+    data: { expiresAt, active: true, expiryReminderSentAt: null },
+  });
+}
+
+export async function markCodeAsUsed(codeId: string, tx?: Prisma.TransactionClient) {
+  return (tx ?? prisma).code.update({
     where: { id: codeId },
     data: { usageCount: { increment: 1 } },
   });
 }
 
-export async function findCodeByValue(code: string) {
-  return prisma.code.findUnique({
-    where: { code },
+/**
+ * Code de parrainage saisi par un client : Shopify accepte les codes sans tenir compte de la casse.
+ */
+export async function findCodeByValue(shopDomain: string, code: string) {
+  return prisma.code.findFirst({
+    where: { shop: shopDomain, code: { equals: code.trim(), mode: "insensitive" } },
     include: {
       referrer: true,
     },
@@ -134,9 +202,127 @@ export async function linkShopifyDiscountId(codeId: string, discountId: string)
   });
 }
 
-export async function findCodeByOriginOrderId(originOrderId: string) {
+/** Code généré pour une commande, limité au workshop `workshopProductId` s'il est fourni. */
+export async function findCodeByOriginOrderId(shopDomain: string, originOrderId: string, workshopProductId?: string) {
   return prisma.code.findFirst({
-    where: { originOrderId },
+    where: { shop: shopDomain, originOrderId, ...(workshopProductId ? { workshopProductId } : {}) },
+  });
+}
+
+/**
+ * Envoie (ou renvoie) l'email contenant le code promo au parrain.
+ * Les erreurs sont propagées pour permettre un retry par la file de jobs.
+ */
+export async function sendPromoCodeEmailForCode(codeId: string, settings?: ReferralSettings) {
+  const codeRecord = await prisma.code.findUnique({
+    where: { id: codeId },
+    include: { referrer: true },
+  });
+
+  if (!codeRecord) {
+    throw new Error(`Code ${codeId} introuvable pour l'envoi de l'email.`);
+  }
+
+  const effectiveSettings = settings ?? (await getReferralSettings(codeRecord.shop, codeRecord.workshopProductId));
+
+  console.log(
+    `📧 Tentative d'envoi d'email pour le code ${codeRecord.code} à ${codeRecord.referrer.email || "pas d'email"}`,
+  );
+
+  await sendPromoCodeEmail({
+    shopDomain: codeRecord.shop,
+    referrerId: codeRecord.referrerId,
+    codeId: codeRecord.id,
+    referrerEmail: codeRecord.referrer.email,
+    firstName: codeRecord.referrer.firstName,
+    lastName: codeRecord.referrer.lastName,
+    code: codeRecord.code,
+    workshopTitle: codeRecord.workshopProductTitle,
+    workshopQuantity: codeRecord.workshopQuantity,
+    expiresAt: codeRecord.expiresAt,
+    discountPercentage: codeRecord.discountSnapshot ?? effectiveSettings.discountPercentage,
+    cashbackAmount: getCodeCashbackEmailValue(codeRecord, effectiveSettings),
+  });
+
+  console.log(`✅ Email envoyé avec succès pour le code ${codeRecord.code}`);
+}
+
+/**
+ * Rappelle au parrain que son code expire bientôt, puis note l'envoi (seulement s'il a réussi) pour ne pas le répéter.
+ */
+export async function sendCodeExpiryReminderForCode(codeId: string, now = new Date()) {
+  const codeRecord = await prisma.code.findUnique({
+    where: { id: codeId },
+    include: { referrer: true },
+  });
+
+  if (!codeRecord?.expiresAt) {
+    throw new Error(`Code ${codeId} introuvable ou sans date d'expiration pour le rappel.`);
+  }
+
+  const settings = await getReferralSettings(codeRecord.shop, codeRecord.workshopProductId);
+  const daysUntilExpiry = Math.max(
+    Math.ceil((codeRecord.expiresAt.getTime() - now.getTime()) / (24 * 60 * 60 * 1000)),
+    1,
+  );
+
+  const emailLog = await sendCodeExpiryReminderEmail({
+    shopDomain: codeRecord.shop,
+    referrerId: codeRecord.referrerId,
+    codeId: codeRecord.id,
+    referrerEmail: codeRecord.referrer.email,
+    firstName: codeRecord.referrer.firstName,
+    lastName: codeRecord.referrer.lastName,
+    code: codeRecord.code,
+    expiresAt: codeRecord.expiresAt,
+    daysUntilExpiry,
+    discountPercentage: codeRecord.discountSnapshot ?? settings.discountPercentage,
+    cashbackAmount: getCodeCashbackEmailValue(codeRecord, settings),
   });
+
+  // Sans email envoyé (parrain sans adresse, app désinstallée), le rappel sera retenté au prochain passage
+  if (emailLog?.status !== EmailStatus.SENT) {
+    console.warn(`⚠️ Rappel d'expiration non envoyé pour le code ${codeRecord.code}`);
+    return false;
+  }
+
+  await prisma.code.update({
+    where: { id: codeRecord.id },
+    data: { expiryReminderSentAt: now },
+  });
+
+  console.log(`📧 Rappel d'expiration traité pour le code ${codeRecord.code} (expire dans ${daysUntilExpiry} jour(s))`);
+  return true;
 }
 
+/**
+ * Crée ou met à jour le discount Shopify d'un code, dans la boutique du code, et enregistre son identifiant.
+ * La remise et la limite d'utilisation restent celles figées sur le code.
+ */
+export async function syncCodeDiscount(codeId: string) {
+  const codeRecord = await prisma.code.findUnique({ where: { id: codeId } });
+
+  if (!codeRecord) {
+    throw new Error(`Code ${codeId} introuvable pour la synchronisation du discount.`);
+  }
+
+  const settings = await getReferralSettings(codeRecord.shop, codeRecord.workshopProductId);
+  const discount = await recreateShopifyDiscount({
+    code: codeRecord,
+    settings,
+    shopDomain: codeRecord.shop,
+  });
+
+  if (!discount) {
+    throw new Error(`Impossible de synchroniser le discount Shopify du code ${codeRecord.code}.`);
+  }
+
+  await linkShopifyDiscountId(codeRecord.id, discount.discountId);
+  console.log(
+    `✅ Discount Shopify ${discount.createdCode} synchronisé (remise filleul ${(
+      (codeRecord.discountSnapshot ?? settings.discountPercentage) * 100
+    ).toFixed(0)} %)`,
+  );
+
+  return discount;
+}
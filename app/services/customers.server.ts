@@ -39,6 +39,17 @@ const CREATE_CUSTOMER_MUTATION = `
   }
 `;
 
+const CUSTOMER_ORDER_COUNT_QUERY = `
+  query CustomerOrderCount($id: ID!, $laterOrdersQuery: String!, $withLaterOrders: Boolean!) {
+    customer(id: $id) {
+      numberOfOrders
+    }
+    ordersCount(query: $laterOrdersQuery) @include(if: $withLaterOrders) {
+      count
+    }
+  }
+`;
+
 function normalizeCustomer(node: any): ShopifyCustomer | null {
   if (!node?.id || !node?.email) return null;
   const gid = String(node.id);
@@ -52,7 +63,7 @@ function normalizeCustomer(node: any): ShopifyCustomer | null {
   };
 }
 
-export async function findCustomerByEmail(email: string, shopDomain?: string | null): Promise<ShopifyCustomer | null> {
+export async function findCustomerByEmail(email: string, shopDomain: string): Promise<ShopifyCustomer | null> {
   const query = `email:"${email}"`;
 
   const response = await callAdminGraphql<{
@@ -67,6 +78,62 @@ export async function findCustomerByEmail(email: string, shopDomain?: string | n
   return normalizeCustomer(node);
 }
 
+type CustomerOrderCountOptions = {
+  /** Date de création de la commande en cours : les commandes passées après elle ne sont pas comptées. */
+  placedUntil?: string | null;
+};
+
+/**
+ * Nombre de commandes passées par le client (commande en cours de traitement comprise).
+ * Avec `placedUntil`, le résultat ne dépend pas du moment où il est calculé : un job rejoué
+ * après une nouvelle commande du client obtient le même nombre que lors du paiement.
+ */
+export async function getCustomerOrderCount(
+  shopifyCustomerId: string,
+  shopDomain: string,
+  { placedUntil }: CustomerOrderCountOptions = {},
+): Promise<number> {
+  const id = shopifyCustomerId.startsWith("gid://") ? shopifyCustomerId : `gid://shopify/Customer/${shopifyCustomerId}`;
+  const numericId = id.split("/").pop() ?? id;
+
+  // numberOfOrders couvre tout l'historique (read_orders ne donne accès qu'aux 60 derniers jours) :
+  // on en retire les commandes, forcément récentes, passées après la commande en cours
+  const response = await callAdminGraphql<{
+    data?: {
+      customer?: { numberOfOrders?: string | number | null } | null;
+      ordersCount?: { count?: number | null } | null;
+    };
+    errors?: Array<{ message?: string }>;
+  }>({
+    query: CUSTOMER_ORDER_COUNT_QUERY,
+    variables: {
+      id,
+      laterOrdersQuery: placedUntil ? `customer_id:${numericId} AND created_at:>'${placedUntil}'` : "",
+      withLaterOrders: Boolean(placedUntil),
+    },
+    shopDomain,
+  });
+
+  if (response.errors?.length) {
+    throw new Error(`Erreur GraphQL Shopify (numberOfOrders): ${JSON.stringify(response.errors)}`);
+  }
+
+  const customer = response.data?.customer;
+  if (!customer) {
+    throw new Error(`Client Shopify ${shopifyCustomerId} introuvable pour le comptage des commandes.`);
+  }
+
+  // UnsignedInt64 : sérialisé en chaîne par l'API
+  const count = Number(customer.numberOfOrders ?? 0);
+  const laterOrders = Number(response.data?.ordersCount?.count ?? 0);
+
+  if (!Number.isFinite(count)) {
+    return 0;
+  }
+
+  return Math.max(count - (Number.isFinite(laterOrders) ? laterOrders : 0), 0);
+}
+
 export async function createCustomer(
   input: {
     email: string;
@@ -74,7 +141,7 @@ export async function createCustomer(
     lastName?: string | null;
     acceptsMarketing?: boolean;
   },
-  shopDomain?: string | null,
+  shopDomain: string,
 ): Promise<ShopifyCustomer> {
   const response = await callAdminGraphql<{
     data?: {
@@ -134,7 +201,7 @@ export async function getOrCreateCustomerByEmail(
     lastName?: string | null;
     acceptsMarketing?: boolean;
   },
-  shopDomain?: string | null,
+  shopDomain: string,
 ): Promise<{ customer: ShopifyCustomer; created: boolean }> {
   // Vérifier d'abord si le client existe déjà
   const existing = await findCustomerByEmail(input.email, shopDomain);
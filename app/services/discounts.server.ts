@@ -5,7 +5,16 @@ import type { ReferralSettings } from "./settings.server";
 type CreateDiscountParams = {
   code: Code;
   settings: ReferralSettings;
-  shopDomain?: string | null;
+  shopDomain: string;
+};
+
+export type DiscountItemsType = "ALL" | "PRODUCTS" | "COLLECTIONS";
+
+/** Produits ou collections auxquels s'applique la remise (GID Shopify). */
+export type DiscountItemsSelection = {
+  type: DiscountItemsType;
+  ids: string[];
+  titles: string[];
 };
 
 type DiscountCreateResult = {
@@ -63,7 +72,7 @@ mutation UpdateReferralDiscount($id: ID!, $input: DiscountCodeBasicInput!) {
 `;
 
 const DISCOUNT_DETAILS_QUERY = /* GraphQL */ `
-query GetReferralDiscountDetails($ids: [ID!]!) {
+query GetReferralDiscountDetails($ids: [ID!]!, $withItems: Boolean!) {
   nodes(ids: $ids) {
     __typename
     ... on DiscountCodeNode {
@@ -77,6 +86,25 @@ query GetReferralDiscountDetails($ids: [ID!]!) {
           usageLimit
           appliesOncePerCustomer
           customerGets {
+            items {
+              __typename
+              ... on DiscountProducts @include(if: $withItems) {
+                products(first: 50) {
+                  nodes {
+                    id
+                    title
+                  }
+                }
+              }
+              ... on DiscountCollections @include(if: $withItems) {
+                collections(first: 50) {
+                  nodes {
+                    id
+                    title
+                  }
+                }
+              }
+            }
             value {
               __typename
               ... on DiscountPercentage {
@@ -108,9 +136,67 @@ mutation DeleteReferralDiscount($id: ID!) {
 }
 `;
 
-function buildInput({ code, settings }: CreateDiscountParams): Record<string, unknown> {
+export function toShopifyGid(resource: "Product" | "Collection", id: string) {
+  const trimmed = id.trim();
+  return trimmed.startsWith("gid://") ? trimmed : `gid://shopify/${resource}/${trimmed}`;
+}
+
+/**
+ * Produits ciblés en priorité, sinon collections, sinon toute la boutique
+ * (Shopify n'accepte qu'un seul type de sélection par discount).
+ */
+export function getTargetedDiscountItems(settings: ReferralSettings): Omit<DiscountItemsSelection, "titles"> {
+  if (settings.discountProductIds.length > 0) {
+    return { type: "PRODUCTS", ids: settings.discountProductIds.map((id) => toShopifyGid("Product", id)) };
+  }
+
+  if (settings.discountCollectionIds.length > 0) {
+    return { type: "COLLECTIONS", ids: settings.discountCollectionIds.map((id) => toShopifyGid("Collection", id)) };
+  }
+
+  return { type: "ALL", ids: [] };
+}
+
+/**
+ * Sélection d'articles du discount. En mise à jour, les produits ou collections
+ * qui ne sont plus ciblés doivent être retirés explicitement.
+ */
+function buildItemsInput(settings: ReferralSettings, currentItems?: DiscountItemsSelection | null) {
+  const target = getTargetedDiscountItems(settings);
+  const toRemove =
+    currentItems?.type === target.type ? currentItems.ids.filter((id) => !target.ids.includes(id)) : [];
+
+  if (target.type === "PRODUCTS") {
+    return {
+      products: {
+        productsToAdd: target.ids,
+        ...(toRemove.length > 0 ? { productsToRemove: toRemove } : {}),
+      },
+    };
+  }
+
+  if (target.type === "COLLECTIONS") {
+    return {
+      collections: {
+        add: target.ids,
+        ...(toRemove.length > 0 ? { remove: toRemove } : {}),
+      },
+    };
+  }
+
+  return { all: true };
+}
+
+function buildInput(
+  { code, settings }: CreateDiscountParams,
+  currentItems?: DiscountItemsSelection | null,
+): Record<string, unknown> {
   const nowIso = new Date().toISOString();
   const endsAt = code.expiresAt ? code.expiresAt.toISOString() : undefined;
+  // Conditions figées à la création du code ; les paramètres ne servent qu'aux codes sans snapshot
+  const hasSnapshot = code.discountSnapshot !== null;
+  const percentage = hasSnapshot ? code.discountSnapshot : settings.discountPercentage;
+  const usageLimit = hasSnapshot ? code.maxUsage : settings.maxUsagePerCode;
 
   // Construire l'objet de base
   const baseInput: Record<string, unknown> = {
@@ -120,11 +206,9 @@ function buildInput({ code, settings }: CreateDiscountParams): Record<string, un
     appliesOncePerCustomer: settings.appliesOncePerCustomer,
     customerGets: {
       value: {
-        percentage: settings.discountPercentage,
-      },
-      items: {
-        all: true,
+        percentage,
       },
+      items: buildItemsInput(settings, currentItems),
     },
   };
 
@@ -134,8 +218,8 @@ function buildInput({ code, settings }: CreateDiscountParams): Record<string, un
   }
 
   // Ajouter usageLimit si nécessaire
-  if (settings.maxUsagePerCode > 0) {
-    baseInput.usageLimit = settings.maxUsagePerCode;
+  if (usageLimit > 0) {
+    baseInput.usageLimit = usageLimit;
   }
 
   // Gestion de la sélection des clients :
@@ -180,6 +264,13 @@ export async function createShopifyDiscount(params: CreateDiscountParams): Promi
   } else if ('customerSelection' in input) {
     console.log("ℹ️ Discount accessible à tous les clients (via customerSelection.all)");
   }
+
+  const targetedItems = getTargetedDiscountItems(params.settings);
+  if (targetedItems.type !== "ALL") {
+    console.log(
+      `ℹ️ Discount limité à ${targetedItems.ids.length} ${targetedItems.type === "PRODUCTS" ? "produit(s)" : "collection(s)"}`,
+    );
+  }
   
   // Log complet pour déboguer
   const inputParsed = JSON.parse(JSON.stringify(input));
@@ -225,7 +316,7 @@ export async function createShopifyDiscount(params: CreateDiscountParams): Promi
 
 export async function deleteShopifyDiscount(
   discountId: string,
-  shopDomain?: string | null,
+  shopDomain: string,
 ): Promise<void> {
   const response = await callAdminGraphql<{
     data?: {
@@ -261,7 +352,12 @@ export async function deleteShopifyDiscount(
 export async function recreateShopifyDiscount(params: CreateDiscountParams): Promise<DiscountCreateResult | null> {
   if (params.code.shopifyDiscountId) {
     try {
-      const input = buildInput(params);
+      // Le détail des articles n'est utile (et lu, scope read_products) que si un ciblage est configuré
+      const withItems = getTargetedDiscountItems(params.settings).type !== "ALL";
+      const currentDetails = await fetchShopifyDiscountDetails([params.code.shopifyDiscountId], params.shopDomain, {
+        withItems,
+      });
+      const input = buildInput(params, currentDetails[params.code.shopifyDiscountId]?.items);
       const response = await callAdminGraphql<{
         data?: {
           discountCodeBasicUpdate?: {
@@ -322,11 +418,18 @@ export type DiscountDetails = {
   startsAt: string | null;
   endsAt: string | null;
   status: string | null;
+  items: DiscountItemsSelection | null;
+};
+
+type FetchDiscountDetailsOptions = {
+  /** Lire les produits / collections ciblés (sinon seul le type de sélection est connu). */
+  withItems?: boolean;
 };
 
 export async function fetchShopifyDiscountDetails(
   discountIds: string[],
-  shopDomain?: string | null,
+  shopDomain: string,
+  { withItems = true }: FetchDiscountDetailsOptions = {},
 ): Promise<Record<string, DiscountDetails>> {
   if (discountIds.length === 0) {
     return {};
@@ -348,6 +451,11 @@ export async function fetchShopifyDiscountDetails(
             usageLimit?: number | null;
             appliesOncePerCustomer?: boolean | null;
             customerGets?: {
+              items?: {
+                __typename?: string;
+                products?: { nodes?: Array<{ id: string; title?: string | null }> } | null;
+                collections?: { nodes?: Array<{ id: string; title?: string | null }> } | null;
+              } | null;
               value?: {
                 __typename?: string;
                 percentage?: number | null;
@@ -363,7 +471,7 @@ export async function fetchShopifyDiscountDetails(
       errors?: Array<{ message?: string }>;
     }>({
       query: DISCOUNT_DETAILS_QUERY,
-      variables: { ids: uniqueIds },
+      variables: { ids: uniqueIds, withItems },
       shopDomain,
     });
 
@@ -386,6 +494,7 @@ export async function fetchShopifyDiscountDetails(
           startsAt: null,
           endsAt: null,
           status: discount?.status ?? null,
+          items: null,
         };
         continue;
       }
@@ -405,6 +514,26 @@ export async function fetchShopifyDiscountDetails(
         amountCurrencyCode = value.amount?.currencyCode ?? null;
       }
 
+      const rawItems = discount.customerGets?.items;
+      const itemNodes =
+        rawItems?.__typename === "DiscountProducts"
+          ? rawItems.products?.nodes ?? []
+          : rawItems?.__typename === "DiscountCollections"
+            ? rawItems.collections?.nodes ?? []
+            : [];
+      const items: DiscountItemsSelection | null = rawItems
+        ? {
+          type:
+            rawItems.__typename === "DiscountProducts"
+              ? "PRODUCTS"
+              : rawItems.__typename === "DiscountCollections"
+                ? "COLLECTIONS"
+                : "ALL",
+          ids: itemNodes.map((item) => item.id),
+          titles: itemNodes.map((item) => item.title ?? item.id),
+        }
+        : null;
+
       result[node.id] = {
         percentage,
         amountValue,
@@ -414,6 +543,7 @@ export async function fetchShopifyDiscountDetails(
         startsAt: discount.startsAt ?? null,
         endsAt: discount.endsAt ?? null,
         status: discount.status ?? null,
+        items,
       };
     }
 
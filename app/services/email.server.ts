@@ -3,6 +3,7 @@ import prisma from "app/db.server";
 import type { EmailTemplateType as PrismaEmailTemplateType } from "@prisma/client";
 import { EmailStatus, EmailTemplateType } from "app/models/email";
 import { Resend } from "resend";
+import { isShopUninstalled } from "./installation.server";
 
 const resend = new Resend(process.env.RESEND_API_KEY);
 
@@ -17,10 +18,12 @@ export type TemplateVariables = {
   workshopTitle?: string | null;
   workshopQuantity?: number | string;
   expiresAt?: string | null;
+  daysUntilExpiry?: number | string;
   discountPercentage?: number | string;
   cashbackAmount?: number | string;
   shopUrl?: string | null;
   refereeEmail?: string | null;
+  giftCardCode?: string | null;
   logoUrl?: string | null;
   logoAlt?: string | null;
 };
@@ -37,13 +40,17 @@ function toPrismaTemplateType(type: EmailTemplateType): PrismaEmailTemplateType
   return type as PrismaEmailTemplateType;
 }
 
-export async function getEmailTemplate(type: EmailTemplateType) {
-  let template = await prisma.emailTemplate.findUnique({ where: { type: toPrismaTemplateType(type) } });
+/** Template de la boutique, créé à partir du template par défaut à la première utilisation. */
+export async function getEmailTemplate(shopDomain: string, type: EmailTemplateType) {
+  let template = await prisma.emailTemplate.findUnique({
+    where: { shop_type: { shop: shopDomain, type: toPrismaTemplateType(type) } },
+  });
 
   if (!template) {
     const defaultTemplate = getDefaultTemplate(type);
     template = await prisma.emailTemplate.create({
       data: {
+        shop: shopDomain,
         type: toPrismaTemplateType(type),
         subject: defaultTemplate.subject,
         bodyHtml: defaultTemplate.bodyHtml,
@@ -56,24 +63,27 @@ export async function getEmailTemplate(type: EmailTemplateType) {
 }
 
 export async function upsertEmailTemplate({
+  shopDomain,
   type,
   subject,
   bodyHtml,
   bodyText,
 }: {
+  shopDomain: string;
   type: EmailTemplateType;
   subject: string;
   bodyHtml: string;
   bodyText?: string | null;
 }) {
   return prisma.emailTemplate.upsert({
-    where: { type: toPrismaTemplateType(type) },
+    where: { shop_type: { shop: shopDomain, type: toPrismaTemplateType(type) } },
     update: {
       subject,
       bodyHtml,
       bodyText: bodyText?.trim() ? bodyText : null,
     },
     create: {
+      shop: shopDomain,
       type: toPrismaTemplateType(type),
       subject,
       bodyHtml,
@@ -395,6 +405,197 @@ Votre code : {{code}}
 
 Partagez ce code avec vos proches et faites découvrir nos workshops.
 
+L’équipe Venezia Photo
+`.trim(),
+      };
+
+    case EmailTemplateType.GIFT_CARD_REWARD:
+      return {
+        subject: "Votre carte cadeau de parrainage",
+        bodyHtml: `
+<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body {
+      font-family: 'Helvetica Neue', Arial, sans-serif;
+      color: #111;
+      background: #fff;
+      margin: 0 auto;
+      max-width: 640px;
+      padding: 0;
+      line-height: 1.6;
+    }
+    .header {
+      background: #fff;
+      padding: 32px 0;
+      text-align: center;
+    }
+    .header img {
+      max-width: 160px;
+      height: auto;
+    }
+    .content {
+      padding: 48px 32px;
+    }
+    h1 {
+      font-size: 28px;
+      font-weight: 600;
+      margin-bottom: 16px;
+    }
+    h2 {
+      font-size: 22px;
+      font-weight: 500;
+      margin: 32px 0 16px;
+    }
+    p {
+      font-size: 16px;
+      margin: 8px 0;
+      color: #222;
+    }
+    .highlight {
+      font-size: 22px;
+      font-weight: 600;
+      text-align: center;
+      margin: 32px 0 8px;
+    }
+    .code {
+      font-size: 26px;
+      font-weight: 600;
+      text-align: center;
+      letter-spacing: 2px;
+      margin: 8px 0 32px;
+    }
+    .footer {
+      text-align: center;
+      font-size: 14px;
+      color: #666;
+      margin: 64px 0 24px;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="{{logoUrl}}" alt="{{logoAlt}}" />
+  </div>
+
+  <div class="content">
+   <h1>Hello {{firstName}},</h1>
+
+<h2>Your referral gift card</h2>
+
+<p>Thank you for referring <strong>{{refereeEmail}}</strong>. Your cashback has been issued as a gift card.</p>
+
+<div class="highlight">{{cashbackAmount}}</div>
+<div class="code">{{giftCardCode}}</div>
+
+<p>Enter this code at checkout on your next purchase to use your gift card.</p>
+
+<div class="footer">
+  <p>Warm regards,</p>
+  <p>The Venezia Photo Team</p>
+</div>
+
+  </div>
+</body>
+</html>`.trim(),
+        bodyText: `
+Bonjour {{firstName}},
+
+Merci d'avoir parrainé {{refereeEmail}}. Votre cashback de {{cashbackAmount}} vous est offert sous forme de carte cadeau.
+
+Code de la carte cadeau : {{giftCardCode}}
+
+Saisissez ce code lors du paiement de votre prochain achat.
+
+L'équipe Venezia Photo
+`.trim(),
+      };
+
+    case EmailTemplateType.CODE_EXPIRY_REMINDER:
+      return {
+        subject: "Votre code de parrainage expire bientôt",
+        bodyHtml: `
+<!DOCTYPE html>
+<html lang="fr">
+<head>
+  <meta charset="utf-8" />
+  <style>
+    body {
+      font-family: 'Helvetica Neue', Arial, sans-serif;
+      color: #111;
+      background: #fff;
+      margin: 0 auto;
+      max-width: 640px;
+      padding: 0;
+      line-height: 1.6;
+    }
+    .header {
+      padding: 32px 0;
+      text-align: center;
+    }
+    .header img {
+      max-width: 160px;
+      height: auto;
+    }
+    .content {
+      padding: 48px 32px;
+    }
+    h1 {
+      font-size: 28px;
+      font-weight: 600;
+      margin-bottom: 16px;
+    }
+    p {
+      font-size: 16px;
+      margin: 8px 0;
+      color: #222;
+    }
+    .code {
+      font-size: 26px;
+      font-weight: 600;
+      text-align: center;
+      letter-spacing: 2px;
+      margin: 32px 0;
+    }
+    .footer {
+      text-align: center;
+      font-size: 14px;
+      color: #666;
+      margin: 64px 0 24px;
+    }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <img src="{{logoUrl}}" alt="{{logoAlt}}" />
+  </div>
+
+  <div class="content">
+<h1>Hello {{firstName}},</h1>
+
+<p>Your referral code expires in <strong>{{daysUntilExpiry}} days</strong>, on <strong>{{expiresAt}}</strong>.</p>
+
+<div class="code">{{code}}</div>
+
+<p>There is still time to share it: your referred friends receive <strong>{{discountPercentage}}</strong> off their first workshop, and you receive <strong>{{cashbackAmount}}</strong> in cashback for each successful referral.</p>
+
+<div class="footer">
+  <p>See you soon,</p>
+  <p>The Venezia Photo Team</p>
+</div>
+  </div>
+</body>
+</html>`.trim(),
+        bodyText: `
+Bonjour {{firstName}},
+
+Votre code de parrainage {{code}} expire dans {{daysUntilExpiry}} jours, le {{expiresAt}}.
+
+Il est encore temps de le partager : vos filleuls bénéficient de {{discountPercentage}} de réduction et vous recevez {{cashbackAmount}} pour chaque parrainage validé.
+
+À bientôt,
 L’équipe Venezia Photo
 `.trim(),
       };
@@ -405,22 +606,30 @@ L’équipe Venezia Photo
 }
 
 export async function sendEmail({
+  shopDomain,
   to,
   templateType,
   variables,
   codeId,
   referrerId,
 }: {
+  shopDomain: string;
   to: string;
   templateType: EmailTemplateType;
   variables: TemplateVariables;
   codeId?: string;
   referrerId: string;
 }) {
+  if (await isShopUninstalled(shopDomain)) {
+    console.log(`ℹ️ Email ${templateType} non envoyé : app désinstallée de ${shopDomain}`);
+    return null;
+  }
+
   if (!process.env.RESEND_API_KEY) {
     console.warn("⚠️ RESEND_API_KEY non configurée.");
-    return prisma.emailLog.create({
+    await prisma.emailLog.create({
       data: {
+        shop: shopDomain,
         referrerId,
         codeId: codeId ?? null,
         templateType: toPrismaTemplateType(templateType),
@@ -430,15 +639,18 @@ export async function sendEmail({
         errorMessage: "RESEND_API_KEY non configurée",
       },
     });
+    // Comme un refus de Resend : l'appelant (job d'envoi) doit pouvoir réessayer
+    throw new Error("RESEND_API_KEY non configurée");
   }
 
-  const template = await getEmailTemplate(templateType);
+  const template = await getEmailTemplate(shopDomain, templateType);
   const subject = replaceVariables(template.subject, variables);
   const html = replaceVariables(template.bodyHtml, variables);
   const text = template.bodyText ? replaceVariables(template.bodyText, variables) : undefined;
 
   const log = await prisma.emailLog.create({
     data: {
+      shop: shopDomain,
       referrerId,
       codeId: codeId ?? null,
       templateType: toPrismaTemplateType(templateType),
@@ -457,11 +669,15 @@ export async function sendEmail({
       text,
     });
 
-    await prisma.emailLog.update({
+    // Resend ne lève pas d'exception en cas de refus : l'erreur est retournée dans la réponse
+    if (sent.error) {
+      throw new Error(`Resend: ${sent.error.message}`);
+    }
+
+    return await prisma.emailLog.update({
       where: { id: log.id },
       data: { status: EmailStatus.SENT, resendId: sent.data?.id || null, sentAt: new Date() },
     });
-    return sent;
   } catch (error) {
     await prisma.emailLog.update({
       where: { id: log.id },
@@ -472,6 +688,7 @@ export async function sendEmail({
 }
 
 export async function sendCashbackConfirmationEmail({
+  shopDomain,
   referrerId,
   referrerEmail,
   firstName,
@@ -479,6 +696,7 @@ export async function sendCashbackConfirmationEmail({
   cashbackAmount,
   refereeEmail,
 }: {
+  shopDomain: string;
   referrerId: string;
   referrerEmail?: string | null;
   firstName?: string | null;
@@ -494,6 +712,7 @@ export async function sendCashbackConfirmationEmail({
   }
 
   await sendEmail({
+    shopDomain,
     to: referrerEmail,
     templateType: EmailTemplateType.CASHBACK_CONFIRMATION,
     variables: {
@@ -508,7 +727,53 @@ export async function sendCashbackConfirmationEmail({
   });
 }
 
+export async function sendGiftCardRewardEmail({
+  shopDomain,
+  referrerId,
+  referrerEmail,
+  firstName,
+  lastName,
+  cashbackAmount,
+  currency = "EUR",
+  giftCardCode,
+  refereeEmail,
+}: {
+  shopDomain: string;
+  referrerId: string;
+  referrerEmail?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  cashbackAmount: number;
+  currency?: string;
+  giftCardCode: string;
+  refereeEmail?: string | null;
+}) {
+  if (!referrerEmail) {
+    console.warn(
+      `⚠️ Impossible d'envoyer la carte cadeau par email : aucun email pour le parrain ${referrerId}`,
+    );
+    return;
+  }
+
+  await sendEmail({
+    shopDomain,
+    to: referrerEmail,
+    templateType: EmailTemplateType.GIFT_CARD_REWARD,
+    variables: {
+      firstName,
+      lastName,
+      cashbackAmount: new Intl.NumberFormat("fr-FR", { style: "currency", currency }).format(cashbackAmount),
+      giftCardCode,
+      refereeEmail,
+      logoUrl: DEFAULT_LOGO_URL,
+      logoAlt: DEFAULT_LOGO_ALT,
+    },
+    referrerId,
+  });
+}
+
 type SendPromoCodeEmailParams = {
+  shopDomain: string;
   referrerId: string;
   codeId: string;
   referrerEmail?: string | null;
@@ -519,11 +784,13 @@ type SendPromoCodeEmailParams = {
   workshopQuantity?: number | null;
   expiresAt?: Date | null;
   discountPercentage: number;
-  cashbackAmount: number;
+  /** Montant fixe, ou conditions déjà formatées pour un cashback en pourcentage. */
+  cashbackAmount: number | string;
   shopUrl?: string | null;
 };
 
 export async function sendPromoCodeEmail({
+  shopDomain,
   referrerId,
   codeId,
   referrerEmail,
@@ -549,7 +816,7 @@ export async function sendPromoCodeEmail({
       ? `${(discountPercentage * 100).toFixed(0)}%`
       : undefined;
 
-  const formattedCashback = Number.isFinite(cashbackAmount)
+  const formattedCashback = typeof cashbackAmount === "number" && Number.isFinite(cashbackAmount)
     ? new Intl.NumberFormat("fr-FR", {
       style: "currency",
       currency: "EUR",
@@ -566,6 +833,7 @@ export async function sendPromoCodeEmail({
       : null;
 
   await sendEmail({
+    shopDomain,
     to: referrerEmail,
     templateType: EmailTemplateType.CODE_PROMO,
     variables: {
@@ -587,6 +855,7 @@ export async function sendPromoCodeEmail({
 }
 
 type SendManualReferrerWelcomeEmailParams = {
+  shopDomain: string;
   referrerId: string;
   referrerEmail?: string | null;
   firstName?: string | null;
@@ -595,11 +864,13 @@ type SendManualReferrerWelcomeEmailParams = {
   codeId?: string | null;
   expiresAt?: Date | null;
   discountPercentage: number;
-  cashbackAmount: number;
+  /** Montant fixe, ou conditions déjà formatées pour un cashback en pourcentage. */
+  cashbackAmount: number | string;
   shopUrl?: string | null;
 };
 
 export async function sendManualReferrerWelcomeEmail({
+  shopDomain,
   referrerId,
   referrerEmail,
   firstName,
@@ -623,7 +894,7 @@ export async function sendManualReferrerWelcomeEmail({
       ? `${(discountPercentage * 100).toFixed(0)}%`
       : undefined;
 
-  const formattedCashback = Number.isFinite(cashbackAmount)
+  const formattedCashback = typeof cashbackAmount === "number" && Number.isFinite(cashbackAmount)
     ? new Intl.NumberFormat("fr-FR", {
       style: "currency",
       currency: "EUR",
@@ -640,6 +911,7 @@ export async function sendManualReferrerWelcomeEmail({
       : null;
 
   await sendEmail({
+    shopDomain,
     to: referrerEmail,
     templateType: EmailTemplateType.MANUAL_REFERRER_WELCOME,
     variables: {
@@ -657,3 +929,77 @@ export async function sendManualReferrerWelcomeEmail({
     codeId: codeId ?? undefined,
   });
 }
+
+type SendCodeExpiryReminderEmailParams = {
+  shopDomain: string;
+  referrerId: string;
+  codeId: string;
+  referrerEmail?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  code: string;
+  expiresAt: Date;
+  daysUntilExpiry: number;
+  discountPercentage: number;
+  /** Montant fixe, ou conditions déjà formatées pour un cashback en pourcentage. */
+  cashbackAmount: number | string;
+  shopUrl?: string | null;
+};
+
+export async function sendCodeExpiryReminderEmail({
+  shopDomain,
+  referrerId,
+  codeId,
+  referrerEmail,
+  firstName,
+  lastName,
+  code,
+  expiresAt,
+  daysUntilExpiry,
+  discountPercentage,
+  cashbackAmount,
+  shopUrl,
+}: SendCodeExpiryReminderEmailParams) {
+  if (!referrerEmail) {
+    console.warn(
+      `⚠️ Impossible d'envoyer le rappel d'expiration : aucun email pour le parrain ${referrerId}`,
+    );
+    return null;
+  }
+
+  const formattedDiscount =
+    Number.isFinite(discountPercentage) && discountPercentage > 0
+      ? `${(discountPercentage * 100).toFixed(0)}%`
+      : undefined;
+
+  const formattedCashback = typeof cashbackAmount === "number" && Number.isFinite(cashbackAmount)
+    ? new Intl.NumberFormat("fr-FR", {
+      style: "currency",
+      currency: "EUR",
+    }).format(cashbackAmount)
+    : undefined;
+
+  return sendEmail({
+    shopDomain,
+    to: referrerEmail,
+    templateType: EmailTemplateType.CODE_EXPIRY_REMINDER,
+    variables: {
+      firstName,
+      lastName,
+      code,
+      expiresAt: expiresAt.toLocaleDateString("fr-FR", {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+      }),
+      daysUntilExpiry,
+      discountPercentage: formattedDiscount ?? discountPercentage,
+      cashbackAmount: formattedCashback ?? cashbackAmount,
+      shopUrl: shopUrl ?? undefined,
+      logoUrl: DEFAULT_LOGO_URL,
+      logoAlt: DEFAULT_LOGO_ALT,
+    },
+    referrerId,
+    codeId,
+  });
+}
@@ -0,0 +1,245 @@
+import type { Code } from "@prisma/client";
+import prisma from "app/db.server";
+import {
+  FRAUD_SIGNAL_LABELS,
+  FRAUD_SIGNAL_SCORES,
+  FraudSignalType,
+  isFraudScoreSuspicious,
+  type FraudSignalTypeKey,
+} from "app/models/fraud";
+import { fetchOrderById } from "./shopifyAdmin.server";
+
+type ShopifyRestAddress = {
+  address1?: string | null;
+  address2?: string | null;
+  zip?: string | null;
+  city?: string | null;
+  country_code?: string | null;
+  phone?: string | null;
+} | null;
+
+/** Champs d'une commande REST Shopify utiles à la comparaison parrain / filleul. */
+export type FraudCheckOrder = {
+  email?: string | null;
+  contact_email?: string | null;
+  phone?: string | null;
+  customer?: { id?: number | string | null; email?: string | null; phone?: string | null } | null;
+  shipping_address?: ShopifyRestAddress;
+  billing_address?: ShopifyRestAddress;
+};
+
+type FraudParty = {
+  shopifyCustomerIds: Set<string>;
+  emails: Map<string, string>;
+  phones: Map<string, string>;
+  shippingAddress: { key: string; label: string } | null;
+  billingAddress: { key: string; label: string } | null;
+};
+
+export type FraudSignalResult = {
+  type: FraudSignalTypeKey;
+  score: number;
+  details: string | null;
+};
+
+export type FraudAssessment = {
+  score: number;
+  signals: FraudSignalResult[];
+  suspicious: boolean;
+};
+
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+/**
+ * Email comparable : minuscules, alias "+..." retirés et, pour Gmail seulement (qui les ignore),
+ * points de la partie locale ignorés (jean.dupont+promo@gmail.com ≈ jeandupont@gmail.com).
+ */
+export function normalizeEmail(email?: string | null) {
+  const trimmed = email?.trim().toLowerCase();
+  const at = trimmed?.lastIndexOf("@") ?? -1;
+
+  if (!trimmed || at <= 0) {
+    return null;
+  }
+
+  const domain = trimmed.slice(at + 1);
+  const isGmail = GMAIL_DOMAINS.has(domain);
+  const alias = trimmed.slice(0, at).split("+")[0];
+  const local = isGmail ? alias.replace(/\./g, "") : alias;
+
+  if (!local || !domain) {
+    return null;
+  }
+
+  return `${local}@${isGmail ? "gmail.com" : domain}`;
+}
+
+/** Téléphone comparable : chiffres seuls, numéros français ramenés au format international (33...). */
+export function normalizePhone(phone?: string | null) {
+  let digits = phone?.replace(/\D/g, "") ?? "";
+
+  if (digits.startsWith("00")) {
+    digits = digits.slice(2);
+  }
+
+  if (digits.length === 10 && digits.startsWith("0")) {
+    digits = `33${digits.slice(1)}`;
+  }
+
+  return digits.length >= 6 ? digits : null;
+}
+
+const normalizeAddressPart = (value?: string | null) =>
+  (value ?? "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+
+/** Adresse comparable (sans accents, ponctuation ni casse) ; rue et code postal requis. */
+export function normalizeAddress(address: ShopifyRestAddress | undefined) {
+  const street = normalizeAddressPart(address?.address1);
+  const zip = normalizeAddressPart(address?.zip).replace(/ /g, "");
+
+  if (!address || !street || !zip) {
+    return null;
+  }
+
+  return {
+    key: [street, normalizeAddressPart(address.address2), zip, normalizeAddressPart(address.country_code)].join("|"),
+    label: [address.address1, address.address2, [address.zip, address.city].filter(Boolean).join(" ")]
+      .filter(Boolean)
+      .join(", "),
+  };
+}
+
+function createParty(): FraudParty {
+  return {
+    shopifyCustomerIds: new Set(),
+    emails: new Map(),
+    phones: new Map(),
+    shippingAddress: null,
+    billingAddress: null,
+  };
+}
+
+function addEmail(party: FraudParty, email?: string | null) {
+  const normalized = normalizeEmail(email);
+  if (normalized && email) party.emails.set(normalized, email.trim());
+}
+
+function addPhone(party: FraudParty, phone?: string | null) {
+  const normalized = normalizePhone(phone);
+  if (normalized && phone) party.phones.set(normalized, phone.trim());
+}
+
+function addOrder(party: FraudParty, order: FraudCheckOrder) {
+  if (order.customer?.id) party.shopifyCustomerIds.add(String(order.customer.id));
+
+  addEmail(party, order.email);
+  addEmail(party, order.contact_email);
+  addEmail(party, order.customer?.email);
+
+  addPhone(party, order.phone);
+  addPhone(party, order.customer?.phone);
+  addPhone(party, order.shipping_address?.phone);
+  addPhone(party, order.billing_address?.phone);
+
+  party.shippingAddress = party.shippingAddress ?? normalizeAddress(order.shipping_address);
+  party.billingAddress = party.billingAddress ?? normalizeAddress(order.billing_address);
+}
+
+function findCommonEntry(referrer: Map<string, string>, referee: Map<string, string>) {
+  for (const [key, value] of referee) {
+    const referrerValue = referrer.get(key);
+    if (referrerValue !== undefined) {
+      return referrerValue === value ? value : `${value} ≈ ${referrerValue}`;
+    }
+  }
+
+  return null;
+}
+
+function compareParties(referrer: FraudParty, referee: FraudParty) {
+  const matches: Array<{ type: FraudSignalTypeKey; details: string | null }> = [];
+
+  const sharedCustomerId = [...referee.shopifyCustomerIds].find((id) => referrer.shopifyCustomerIds.has(id));
+  if (sharedCustomerId) {
+    matches.push({ type: FraudSignalType.SAME_CUSTOMER, details: `Client Shopify ${sharedCustomerId}` });
+  }
+
+  const sharedEmail = findCommonEntry(referrer.emails, referee.emails);
+  if (sharedEmail) {
+    matches.push({ type: FraudSignalType.SAME_EMAIL, details: sharedEmail });
+  }
+
+  const sharedPhone = findCommonEntry(referrer.phones, referee.phones);
+  if (sharedPhone) {
+    matches.push({ type: FraudSignalType.SAME_PHONE, details: sharedPhone });
+  }
+
+  if (referee.shippingAddress && referee.shippingAddress.key === referrer.shippingAddress?.key) {
+    matches.push({ type: FraudSignalType.SAME_SHIPPING_ADDRESS, details: referee.shippingAddress.label });
+  }
+
+  if (referee.billingAddress && referee.billingAddress.key === referrer.billingAddress?.key) {
+    matches.push({ type: FraudSignalType.SAME_BILLING_ADDRESS, details: referee.billingAddress.label });
+  }
+
+  return matches;
+}
+
+type AssessReferralFraudParams = {
+  code: Pick<Code, "code" | "referrerId" | "originOrderId">;
+  refereeOrder: FraudCheckOrder;
+  shopDomain: string;
+};
+
+/**
+ * Compare le filleul au parrain du code utilisé (client Shopify, email normalisé, téléphone,
+ * adresses de livraison et de facturation) et calcule un score de fraude.
+ * Les coordonnées du parrain proviennent de sa fiche et de la commande d'origine du code.
+ */
+export async function assessReferralFraud({
+  code,
+  refereeOrder,
+  shopDomain,
+}: AssessReferralFraudParams): Promise<FraudAssessment> {
+  const referrer = await prisma.referrer.findUniqueOrThrow({ where: { id: code.referrerId } });
+
+  const referrerParty = createParty();
+  referrerParty.shopifyCustomerIds.add(referrer.shopifyCustomerId);
+  addEmail(referrerParty, referrer.email);
+
+  if (code.originOrderId) {
+    // Une erreur ici fait échouer le job, qui sera retenté : pas de récompense sans contrôle
+    const originOrder = await fetchOrderById(code.originOrderId, shopDomain);
+    if (originOrder.order) addOrder(referrerParty, originOrder.order);
+  }
+
+  const refereeParty = createParty();
+  addOrder(refereeParty, refereeOrder);
+
+  const signals = compareParties(referrerParty, refereeParty).map(({ type, details }) => ({
+    type,
+    score: FRAUD_SIGNAL_SCORES[type],
+    details,
+  }));
+  const score = signals.reduce((total, signal) => total + signal.score, 0);
+
+  if (signals.length > 0) {
+    console.warn(
+      `⚠️ Signaux de fraude pour le code ${code.code} (score ${score}) : ${signals
+        .map((signal) => FRAUD_SIGNAL_LABELS[signal.type])
+        .join(", ")}`,
+    );
+  }
+
+  return { score, signals, suspicious: isFraudScoreSuspicious(score) };
+}
+
+/** Motif enregistré dans l'historique de la récompense bloquée. */
+export function describeFraudAssessment({ score, signals }: FraudAssessment) {
+  return `Suspicion de fraude (score ${score}) : ${signals.map((signal) => FRAUD_SIGNAL_LABELS[signal.type]).join(", ")}`;
+}
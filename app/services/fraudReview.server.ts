@@ -0,0 +1,134 @@
+import { RewardStatus } from "@prisma/client";
+import prisma from "app/db.server";
+import { voidReferralForOrder } from "./clawback.server";
+import { approveReward, cancelReward } from "./rewards.server";
+
+// Fenêtre utilisée pour repérer les rafales de parrainages d'un même parrain
+const REFERRAL_BURST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Récompenses bloquées en attente de vérification, les plus suspectes en premier,
+ * avec les éléments du dossier : signaux de fraude, parrainage, code et historique.
+ */
+export async function listHeldRewardsForReview(shopDomain: string, limit = 100) {
+  const rewards = await prisma.reward.findMany({
+    where: { shop: shopDomain, status: RewardStatus.ON_HOLD },
+    include: {
+      referrer: true,
+      referral: { include: { code: true } },
+      fraudSignals: { orderBy: { score: "desc" } },
+      transitions: { orderBy: { createdAt: "desc" } },
+    },
+    orderBy: [{ fraudScore: { sort: "desc", nulls: "last" } }, { createdAt: "asc" }],
+    take: limit,
+  });
+
+  if (rewards.length === 0) {
+    return [];
+  }
+
+  const oldest = Math.min(...rewards.map((reward) => (reward.referral ?? reward).createdAt.getTime()));
+  const nearbyReferrals = await prisma.referral.findMany({
+    where: {
+      shop: shopDomain,
+      referrerId: { in: [...new Set(rewards.map((reward) => reward.referrerId))] },
+      createdAt: { gte: new Date(oldest - REFERRAL_BURST_WINDOW_MS) },
+    },
+    select: { referrerId: true, createdAt: true },
+  });
+
+  return rewards.map((reward) => {
+    const referredAt = (reward.referral ?? reward).createdAt.getTime();
+
+    return {
+      ...reward,
+      // Parrainages du même parrain dans les 24 h précédant celui-ci (non compris)
+      referralsInPreviousDay: nearbyReferrals.filter(
+        (referral) =>
+          referral.referrerId === reward.referrerId &&
+          referral.createdAt.getTime() < referredAt &&
+          referral.createdAt.getTime() >= referredAt - REFERRAL_BURST_WINDOW_MS,
+      ).length,
+    };
+  });
+}
+
+type ReviewDecisionOptions = {
+  actor: string;
+  note?: string | null;
+};
+
+async function findHeldReward(shopDomain: string, rewardId: string) {
+  const reward = await prisma.reward.findUnique({
+    where: { id: rewardId, shop: shopDomain },
+    include: { referral: true },
+  });
+
+  if (!reward) {
+    throw new Error("Récompense introuvable.");
+  }
+
+  if (reward.status !== RewardStatus.ON_HOLD) {
+    throw new Error("Cette récompense n'est plus en attente de vérification.");
+  }
+
+  return reward;
+}
+
+/** Fraude écartée : la récompense est approuvée et suit le circuit de paiement habituel. */
+export async function approveHeldReward(
+  shopDomain: string,
+  rewardId: string,
+  { actor, note }: ReviewDecisionOptions,
+) {
+  await findHeldReward(shopDomain, rewardId);
+
+  const reward = await approveReward(rewardId, {
+    shopDomain,
+    actor,
+    reason: note ? `Fraude écartée : ${note}` : "Fraude écartée après vérification",
+  });
+
+  console.log(`✅ Récompense ${rewardId} approuvée après vérification par ${actor}`);
+
+  return reward;
+}
+
+/**
+ * Fraude confirmée : le parrainage est annulé (récompense annulée, utilisation du code décomptée).
+ * Une récompense sans commande de filleul est simplement annulée.
+ */
+export async function rejectHeldReward(
+  shopDomain: string,
+  rewardId: string,
+  { actor, note }: ReviewDecisionOptions,
+) {
+  const reward = await findHeldReward(shopDomain, rewardId);
+  const reason = note ? `Fraude confirmée : ${note}` : "Fraude confirmée après vérification";
+
+  if (reward.referral?.orderId) {
+    await voidReferralForOrder({ shopDomain, orderId: reward.referral.orderId, reason, actor });
+  } else {
+    await cancelReward(rewardId, { shopDomain, actor, reason });
+  }
+
+  console.log(`✅ Récompense ${rewardId} refusée après vérification par ${actor}`);
+}
+
+/**
+ * Journal des décisions prises sur les récompenses bloquées (qui, quand, pourquoi).
+ */
+export async function listReviewDecisions(shopDomain: string, limit = 30) {
+  return prisma.rewardTransition.findMany({
+    where: {
+      reward: { shop: shopDomain },
+      fromStatus: RewardStatus.ON_HOLD,
+      toStatus: { in: [RewardStatus.APPROVED, RewardStatus.PENDING, RewardStatus.CANCELLED] },
+    },
+    include: {
+      reward: { include: { referrer: true } },
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
@@ -0,0 +1,92 @@
+import { callAdminGraphql } from "./shopifyAdmin.server";
+import { toCustomerGid } from "./storeCredit.server";
+
+const GIFT_CARD_MUTATION = /* GraphQL */ `
+mutation CreateReferralGiftCard($input: GiftCardCreateInput!) {
+  giftCardCreate(input: $input) {
+    giftCard {
+      id
+      lastCharacters
+      initialValue {
+        amount
+        currencyCode
+      }
+    }
+    giftCardCode
+    userErrors {
+      field
+      message
+    }
+  }
+}
+`;
+
+type GiftCardParams = {
+  shopifyCustomerId: string;
+  amount: number;
+  note?: string;
+  shopDomain: string;
+};
+
+export type CreatedGiftCard = {
+  id: string;
+  code: string;
+  lastCharacters: string;
+  initialValue: { amount: string; currencyCode: string };
+};
+
+const DEFAULT_GIFT_CARD_NOTE = "Cashback parrainage";
+
+/**
+ * Crée une carte cadeau Shopify rattachée au parrain.
+ * La notification Shopify est désactivée : le code est envoyé par l'app avec son propre template.
+ * La carte est émise dans la devise de la boutique.
+ */
+export async function createReferralGiftCard({
+  shopifyCustomerId,
+  amount,
+  note = DEFAULT_GIFT_CARD_NOTE,
+  shopDomain,
+}: GiftCardParams): Promise<CreatedGiftCard> {
+  const response = await callAdminGraphql<{ data?: any; errors?: any[] }>({
+    query: GIFT_CARD_MUTATION,
+    variables: {
+      input: {
+        initialValue: amount.toFixed(2),
+        customerId: toCustomerGid(shopifyCustomerId),
+        note,
+        notify: false,
+      },
+    },
+    shopDomain,
+  });
+
+  if (response.errors?.length) {
+    throw new Error(`Erreur GraphQL Shopify (giftCardCreate): ${JSON.stringify(response.errors)}`);
+  }
+
+  const payload = response.data?.giftCardCreate;
+
+  if (!payload) {
+    throw new Error("Réponse inattendue de Shopify lors de la création de la carte cadeau");
+  }
+
+  if (payload.userErrors?.length) {
+    throw new Error(`Erreurs Shopify (giftCardCreate): ${JSON.stringify(payload.userErrors)}`);
+  }
+
+  if (!payload.giftCard || !payload.giftCardCode) {
+    throw new Error("Shopify n'a retourné aucune carte cadeau");
+  }
+
+  console.log(
+    `✅ Carte cadeau de ${payload.giftCard.initialValue.amount} ${payload.giftCard.initialValue.currencyCode} créée (${payload.giftCard.id})`,
+  );
+
+  return {
+    id: payload.giftCard.id,
+    code: payload.giftCardCode,
+    lastCharacters: payload.giftCard.lastCharacters,
+    initialValue: payload.giftCard.initialValue,
+  };
+}
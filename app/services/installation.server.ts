@@ -0,0 +1,150 @@
+import { JobStatus } from "@prisma/client";
+import prisma from "app/db.server";
+import { enqueueJob, JobType } from "./jobs.server";
+import { getReferralSettings } from "./settings.server";
+
+/** Jobs conservés à la désinstallation : les demandes RGPD doivent être traitées quoi qu'il arrive. */
+const JOB_TYPES_KEPT_ON_UNINSTALL: string[] = [JobType.PRIVACY_REQUEST];
+
+/**
+ * Enregistre l'installation de l'app (appelé après chaque authentification OAuth).
+ * Une réinstallation après désinstallation déclenche une proposition de resynchronisation des discounts.
+ */
+export async function recordAppInstalled(shopDomain: string) {
+  const installation = await prisma.shopInstallation.findUnique({ where: { shop: shopDomain } });
+
+  if (!installation) {
+    await prisma.shopInstallation.create({ data: { shop: shopDomain } });
+    console.log(`✅ App installée sur ${shopDomain}`);
+    return;
+  }
+
+  if (!installation.uninstalledAt) {
+    return;
+  }
+
+  await prisma.shopInstallation.update({
+    where: { shop: shopDomain },
+    data: {
+      uninstalledAt: null,
+      reinstalledAt: new Date(),
+      discountResyncPending: true,
+    },
+  });
+  console.log(`✅ App réinstallée sur ${shopDomain} (désinstallée le ${installation.uninstalledAt.toISOString()})`);
+}
+
+/**
+ * Nettoyage à la désinstallation : date enregistrée, jobs en attente annulés (les emails partent
+ * par des jobs) et, si le marchand l'a choisi, codes désactivés localement.
+ */
+export async function handleAppUninstalled(shopDomain: string) {
+  const now = new Date();
+
+  await prisma.shopInstallation.upsert({
+    where: { shop: shopDomain },
+    create: { shop: shopDomain, uninstalledAt: now },
+    update: { uninstalledAt: now, discountResyncPending: false },
+  });
+
+  const cancelledJobs = await prisma.job.updateMany({
+    where: {
+      shop: shopDomain,
+      status: JobStatus.PENDING,
+      type: { notIn: JOB_TYPES_KEPT_ON_UNINSTALL },
+    },
+    data: {
+      status: JobStatus.DEAD,
+      lastError: "Tâche annulée : application désinstallée.",
+    },
+  });
+
+  const settings = await getReferralSettings(shopDomain);
+  const deactivatedCodes = settings.deactivateCodesOnUninstall
+    ? await prisma.code.updateMany({
+        where: { shop: shopDomain, active: true },
+        data: { active: false },
+      })
+    : { count: 0 };
+
+  console.log(
+    `ℹ️ App désinstallée de ${shopDomain} : ${cancelledJobs.count} tâche(s) annulée(s), ${deactivatedCodes.count} code(s) désactivé(s)`,
+  );
+}
+
+export async function isShopUninstalled(shopDomain: string) {
+  const installation = await prisma.shopInstallation.findUnique({
+    where: { shop: shopDomain },
+    select: { uninstalledAt: true },
+  });
+
+  return Boolean(installation?.uninstalledAt);
+}
+
+/** Codes encore valides : non expirés, sous leur limite d'utilisation et dont le parrain n'a pas été anonymisé. */
+async function listResyncableCodes(shopDomain: string) {
+  const now = new Date();
+  const codes = await prisma.code.findMany({
+    where: {
+      shop: shopDomain,
+      OR: [{ expiresAt: null }, { expiresAt: { gt: now } }],
+      referrer: { redactedAt: null },
+    },
+    select: { id: true, usageCount: true, maxUsage: true },
+  });
+
+  return codes.filter((code) => code.maxUsage === 0 || code.usageCount < code.maxUsage);
+}
+
+/**
+ * Proposition affichée après une réinstallation : nombre de codes dont le discount Shopify peut être recréé.
+ */
+export async function getDiscountResyncOffer(shopDomain: string) {
+  const installation = await prisma.shopInstallation.findUnique({ where: { shop: shopDomain } });
+
+  if (!installation?.discountResyncPending) {
+    return null;
+  }
+
+  const codes = await listResyncableCodes(shopDomain);
+
+  return {
+    reinstalledAt: installation.reinstalledAt,
+    codeCount: codes.length,
+  };
+}
+
+/**
+ * Réactive les codes encore valides et recrée leur discount Shopify (via `recreateShopifyDiscount`,
+ * dans un job SYNC_DISCOUNT par code).
+ */
+export async function resyncDiscountsAfterReinstall(shopDomain: string) {
+  const codes = await listResyncableCodes(shopDomain);
+  const codeIds = codes.map((code) => code.id);
+
+  if (codeIds.length > 0) {
+    await prisma.code.updateMany({
+      where: { shop: shopDomain, id: { in: codeIds } },
+      data: { active: true },
+    });
+  }
+
+  for (const codeId of codeIds) {
+    await enqueueJob(JobType.SYNC_DISCOUNT, { codeId }, { shop: shopDomain });
+  }
+
+  await prisma.shopInstallation.update({
+    where: { shop: shopDomain },
+    data: { discountResyncPending: false },
+  });
+
+  console.log(`✅ ${codeIds.length} discount(s) Shopify à resynchroniser pour ${shopDomain}`);
+  return codeIds.length;
+}
+
+export async function dismissDiscountResync(shopDomain: string) {
+  await prisma.shopInstallation.update({
+    where: { shop: shopDomain },
+    data: { discountResyncPending: false },
+  });
+}
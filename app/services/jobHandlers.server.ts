@@ -0,0 +1,70 @@
+import {
+  processOrderCancelled,
+  processRefundCreated,
+  type OrderCancelledJobPayload,
+  type RefundCreatedJobPayload,
+} from "./clawback.server";
+import { runCodeExpirySweep, scheduleNextCodeExpirySweep } from "./codeExpiry.server";
+import { sendPromoCodeEmailForCode, syncCodeDiscount } from "./codes.server";
+import { JobType, registerJobHandler, startJobWorker } from "./jobs.server";
+import { processOrderPaid, type OrderPaidJobPayload } from "./orderPaid.server";
+import { runScheduledPayout, scheduleNextAutoPayout } from "./payouts.server";
+import { processPrivacyRequest, type PrivacyRequestJobPayload } from "./privacy.server";
+
+type SyncDiscountJobPayload = {
+  codeId: string;
+};
+
+type SendPromoCodeEmailJobPayload = {
+  codeId: string;
+};
+
+function registerJobHandlers() {
+  registerJobHandler(JobType.ORDER_PAID, async (payload: OrderPaidJobPayload) => {
+    await processOrderPaid(payload);
+  });
+
+  registerJobHandler(JobType.SYNC_DISCOUNT, async ({ codeId }: SyncDiscountJobPayload) => {
+    await syncCodeDiscount(codeId);
+  });
+
+  registerJobHandler(JobType.SEND_PROMO_CODE_EMAIL, async ({ codeId }: SendPromoCodeEmailJobPayload) => {
+    await sendPromoCodeEmailForCode(codeId);
+  });
+
+  registerJobHandler(JobType.REFUND_CREATED, async (payload: RefundCreatedJobPayload) => {
+    await processRefundCreated(payload);
+  });
+
+  registerJobHandler(JobType.ORDER_CANCELLED, async (payload: OrderCancelledJobPayload) => {
+    await processOrderCancelled(payload);
+  });
+
+  registerJobHandler(JobType.AUTO_PAYOUT, async () => {
+    await runScheduledPayout();
+  });
+
+  registerJobHandler(JobType.PRIVACY_REQUEST, async (payload: PrivacyRequestJobPayload, job) => {
+    await processPrivacyRequest(payload, { currentJobId: job.id });
+  });
+
+  registerJobHandler(JobType.CODE_EXPIRY_SWEEP, async () => {
+    await runCodeExpirySweep();
+  });
+}
+
+/**
+ * Enregistre les handlers puis démarre le worker (une seule fois par process).
+ */
+export function startBackgroundWorker() {
+  registerJobHandlers();
+  startJobWorker();
+
+  scheduleNextAutoPayout().catch((error) => {
+    console.error("❌ Impossible de programmer le versement automatique", error);
+  });
+
+  scheduleNextCodeExpirySweep().catch((error) => {
+    console.error("❌ Impossible de programmer l'expiration des codes", error);
+  });
+}
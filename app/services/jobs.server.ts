@@ -0,0 +1,264 @@
+import { JobStatus, type Job, type Prisma } from "@prisma/client";
+import prisma from "app/db.server";
+
+export const JobType = {
+  ORDER_PAID: "ORDER_PAID",
+  SYNC_DISCOUNT: "SYNC_DISCOUNT",
+  SEND_PROMO_CODE_EMAIL: "SEND_PROMO_CODE_EMAIL",
+  REFUND_CREATED: "REFUND_CREATED",
+  ORDER_CANCELLED: "ORDER_CANCELLED",
+  AUTO_PAYOUT: "AUTO_PAYOUT",
+  PRIVACY_REQUEST: "PRIVACY_REQUEST",
+  CODE_EXPIRY_SWEEP: "CODE_EXPIRY_SWEEP",
+} as const;
+
+export type JobType = (typeof JobType)[keyof typeof JobType];
+
+/**
+ * `payload` est le JSON passé à `enqueueJob` : chaque handler déclare la forme qu'il attend.
+ */
+export type JobHandler<P = unknown> = (payload: P, job: Job) => Promise<void>;
+
+const handlers = new Map<string, JobHandler>();
+
+const BASE_RETRY_DELAY_MS = 30_000; // 30 secondes
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000; // 1 heure
+const STALE_LOCK_MS = 15 * 60 * 1000; // un job RUNNING depuis 15 min est considéré comme abandonné
+const IDLE_POLL_INTERVAL_MS = 5_000;
+
+export function registerJobHandler<P>(type: JobType, handler: JobHandler<P>) {
+  handlers.set(type, handler as JobHandler);
+}
+
+type EnqueueJobOptions = {
+  /** Boutique concernée ; absente pour les jobs qui traitent toutes les boutiques. */
+  shop?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+};
+
+export async function enqueueJob(type: JobType, payload: Prisma.InputJsonValue, options: EnqueueJobOptions = {}) {
+  const job = await prisma.job.create({
+    data: {
+      shop: options.shop ?? null,
+      type,
+      payload,
+      runAt: options.runAt ?? new Date(),
+      maxAttempts: options.maxAttempts ?? undefined,
+    },
+  });
+
+  console.log(`📥 Job ${type} ajouté à la file (${job.id})`);
+  return job;
+}
+
+/**
+ * Délai exponentiel : 30 s, 1 min, 2 min, 4 min… plafonné à 1 h.
+ */
+function computeRetryDelay(attempts: number) {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Réserve le prochain job exécutable. `FOR UPDATE SKIP LOCKED` garantit qu'un même job
+ * n'est jamais pris par deux workers (plusieurs instances Railway par exemple).
+ */
+async function claimNextJob(): Promise<Job | null> {
+  const rows = await prisma.$queryRaw<Array<{ id: string }>>`
+    UPDATE "Job"
+    SET "status" = 'RUNNING', "lockedAt" = NOW(), "attempts" = "attempts" + 1, "updatedAt" = NOW()
+    WHERE "id" = (
+      SELECT "id" FROM "Job"
+      WHERE "status" = 'PENDING' AND "runAt" <= NOW()
+      ORDER BY "runAt" ASC
+      LIMIT 1
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING "id"
+  `;
+
+  const claimedId = rows[0]?.id;
+  if (!claimedId) {
+    return null;
+  }
+
+  return prisma.job.findUnique({ where: { id: claimedId } });
+}
+
+async function requeueStaleJobs() {
+  const result = await prisma.job.updateMany({
+    where: {
+      status: JobStatus.RUNNING,
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+    },
+    data: {
+      status: JobStatus.PENDING,
+      lockedAt: null,
+      lastError: "Job interrompu (worker arrêté pendant l'exécution), remis en file.",
+    },
+  });
+
+  if (result.count > 0) {
+    console.warn(`⚠️ ${result.count} job(s) bloqué(s) remis en file`);
+  }
+}
+
+async function executeJob(job: Job) {
+  const handler = handlers.get(job.type);
+
+  try {
+    if (!handler) {
+      throw new Error(`Aucun handler enregistré pour le job ${job.type}`);
+    }
+
+    await handler(job.payload, job);
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: JobStatus.COMPLETED,
+        completedAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+      },
+    });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const exhausted = job.attempts >= job.maxAttempts;
+
+    if (exhausted) {
+      console.error(
+        `☠️ Job ${job.type} (${job.id}) en échec définitif après ${job.attempts} tentative(s)`,
+        error,
+      );
+    } else {
+      console.error(
+        `❌ Job ${job.type} (${job.id}) en échec, tentative ${job.attempts}/${job.maxAttempts}`,
+        error,
+      );
+    }
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: exhausted ? JobStatus.DEAD : JobStatus.PENDING,
+        runAt: exhausted ? undefined : new Date(Date.now() + computeRetryDelay(job.attempts)),
+        lockedAt: null,
+        lastError: message,
+      },
+    });
+  }
+}
+
+/**
+ * Exécute le prochain job disponible. Retourne false si la file est vide.
+ */
+export async function runNextJob(): Promise<boolean> {
+  const job = await claimNextJob();
+
+  if (!job) {
+    return false;
+  }
+
+  await executeJob(job);
+  return true;
+}
+
+declare global {
+  var jobWorkerStarted: boolean | undefined;
+}
+
+export function startJobWorker() {
+  if (global.jobWorkerStarted) {
+    return;
+  }
+  global.jobWorkerStarted = true;
+
+  const loop = async () => {
+    let hasMore = false;
+
+    try {
+      await requeueStaleJobs();
+      hasMore = await runNextJob();
+    } catch (error) {
+      console.error("❌ Erreur dans la boucle du worker de jobs", error);
+    }
+
+    setTimeout(loop, hasMore ? 0 : IDLE_POLL_INTERVAL_MS);
+  };
+
+  console.log("⚙️ Worker de jobs démarré");
+  setTimeout(loop, IDLE_POLL_INTERVAL_MS);
+}
+
+type ListJobsOptions = {
+  status?: JobStatus;
+  limit?: number;
+};
+
+export async function listJobs(shopDomain: string, { status, limit = 100 }: ListJobsOptions = {}) {
+  return prisma.job.findMany({
+    where: { shop: shopDomain, ...(status ? { status } : {}) },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+}
+
+export async function listFailingJobs(shopDomain: string, limit = 100) {
+  return prisma.job.findMany({
+    where: {
+      shop: shopDomain,
+      OR: [
+        { status: JobStatus.DEAD },
+        { status: JobStatus.PENDING, lastError: { not: null } },
+      ],
+    },
+    orderBy: { updatedAt: "desc" },
+    take: limit,
+  });
+}
+
+export async function getJobStats(shopDomain: string) {
+  const groups = await prisma.job.groupBy({
+    by: ["status"],
+    where: { shop: shopDomain },
+    _count: { _all: true },
+  });
+
+  const counts: Record<JobStatus, number> = {
+    PENDING: 0,
+    RUNNING: 0,
+    COMPLETED: 0,
+    DEAD: 0,
+  };
+
+  for (const group of groups) {
+    counts[group.status] = group._count._all;
+  }
+
+  return counts;
+}
+
+/**
+ * Remet un job en file immédiatement (job mort ou en attente de retry).
+ */
+export async function retryJob(shopDomain: string, jobId: string) {
+  const job = await prisma.job.findUnique({ where: { id: jobId, shop: shopDomain } });
+
+  if (!job) {
+    throw new Error("Job introuvable.");
+  }
+
+  if (job.status !== JobStatus.DEAD && job.status !== JobStatus.PENDING) {
+    throw new Error("Seuls les jobs en échec peuvent être relancés.");
+  }
+
+  return prisma.job.update({
+    where: { id: jobId },
+    data: {
+      status: JobStatus.PENDING,
+      runAt: new Date(),
+      attempts: job.status === JobStatus.DEAD ? 0 : undefined,
+    },
+  });
+}
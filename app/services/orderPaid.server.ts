@@ -0,0 +1,577 @@
+import {
+  IgnoredDiscountCodeReason,
+  PurchaseCodeAction,
+  ReferralRejectionReason,
+  type Referrer,
+} from "@prisma/client";
+import prisma from "app/db.server";
+import { CodeReusePolicy, WorkshopCodeMode, type CodeReusePolicyKey } from "app/models/purchase";
+import { findOrderVoid } from "./clawback.server";
+import {
+  createCodeForReferrer,
+  extendCodeValidity,
+  findCodeByOriginOrderId,
+  findCodeByValue,
+  getCodeCashbackTerms,
+  markCodeAsUsed,
+} from "./codes.server";
+import { evaluateCodeEligibility, recordCodeGenerationSkip } from "./codeEligibility.server";
+import { getCustomerOrderCount } from "./customers.server";
+import { assessReferralFraud } from "./fraud.server";
+import { enqueueJob, JobType } from "./jobs.server";
+import {
+  extractWorkshopLines,
+  findPurchaseCode,
+  linkPurchasesToCode,
+  linkPurchasesToReferral,
+  recordOrderPurchases,
+  type ShopifyLineItem,
+  type WorkshopLine,
+} from "./purchases.server";
+import { getOrCreateReferrerFromCustomer } from "./referrers.server";
+import {
+  createReferral,
+  findReferralByOrderId,
+  findReferralRejectionByOrderId,
+  recordIgnoredDiscountCodes,
+  recordReferralRejection,
+  type IgnoredDiscountCodeInput,
+} from "./referrals.server";
+import { createPendingReward } from "./rewards.server";
+import { getReferralSettings, type ResolvedReferralSettings } from "./settings.server";
+import { fetchOrderById } from "./shopifyAdmin.server";
+
+export type ShopifyOrderPaidPayload = {
+  id?: number | string;
+  admin_graphql_api_id?: string;
+  email?: string | null;
+  created_at?: string;
+  currency?: string;
+  discount_codes?: Array<{ code: string | null }>;
+  discount_applications?: Array<{ type?: string | null; code?: string | null }>;
+  customer?: {
+    id: number | string;
+    email?: string | null;
+    first_name?: string | null;
+    last_name?: string | null;
+  } | null;
+};
+
+export type OrderPaidJobPayload = {
+  shopDomain: string;
+  order: ShopifyOrderPaidPayload;
+};
+
+const normalizeCode = (code?: string | null) => {
+  if (!code) return null;
+  const trimmed = code.trim();
+  return trimmed.length ? trimmed : null;
+};
+
+/**
+ * Ne conserve que les champs utiles au traitement pour limiter les données stockées dans la file.
+ */
+export function toOrderPaidJobPayload(shopDomain: string, payload: ShopifyOrderPaidPayload): OrderPaidJobPayload {
+  return {
+    shopDomain,
+    order: {
+      id: payload.id,
+      admin_graphql_api_id: payload.admin_graphql_api_id,
+      email: payload.email ?? null,
+      created_at: payload.created_at,
+      currency: payload.currency,
+      discount_codes: payload.discount_codes ?? [],
+      discount_applications: (payload.discount_applications ?? [])
+        .filter((application) => application.type === "discount_code")
+        .map((application) => ({ type: application.type, code: application.code ?? null })),
+      customer: payload.customer
+        ? {
+            id: payload.customer.id,
+            email: payload.customer.email ?? null,
+            first_name: payload.customer.first_name ?? null,
+            last_name: payload.customer.last_name ?? null,
+          }
+        : null,
+    },
+  };
+}
+
+/**
+ * Tous les codes de réduction saisis sur la commande (`discount_codes` puis `discount_applications`),
+ * dans l'ordre d'application et sans doublon (les codes Shopify ne sont pas sensibles à la casse).
+ */
+export function collectOrderDiscountCodes(order: ShopifyOrderPaidPayload) {
+  const candidates = [
+    ...(order.discount_codes ?? []).map((discount) => discount.code),
+    ...(order.discount_applications ?? [])
+      .filter((application) => application.type === "discount_code")
+      .map((application) => application.code),
+  ];
+
+  const seen = new Set<string>();
+  const codes: string[] = [];
+
+  for (const candidate of candidates) {
+    const code = normalizeCode(candidate);
+    if (!code || seen.has(code.toUpperCase())) continue;
+    seen.add(code.toUpperCase());
+    codes.push(code);
+  }
+
+  return codes;
+}
+
+type ReferralCodeRecord = NonNullable<Awaited<ReturnType<typeof findCodeByValue>>>;
+
+/**
+ * Un code est valable pour la commande s'il n'avait pas expiré quand elle a été passée. Le flag `active`
+ * ne suffit pas : l'expiration quotidienne peut désactiver le code avant que le job (ou son retry) ne tourne.
+ */
+function isCodeValidForOrder(record: ReferralCodeRecord, orderCreatedAt: Date, now = new Date()) {
+  if (record.expiresAt && record.expiresAt <= orderCreatedAt) {
+    return false;
+  }
+
+  // Désactivé sans être expiré depuis : désactivation manuelle ou app désinstallée
+  return record.active || (record.expiresAt !== null && record.expiresAt <= now);
+}
+
+/**
+ * Retient le code de parrainage de la commande parmi tous ses codes de réduction.
+ * Un seul parrainage par commande : le premier code de parrainage valable à la date de la commande est retenu,
+ * les autres codes (livraison, promotions, codes de parrainage supplémentaires ou désactivés) sont journalisés.
+ */
+async function selectReferralCode(shopDomain: string, orderId: string, orderCreatedAt: Date, discountCodes: string[]) {
+  const records: Array<ReferralCodeRecord | null> = [];
+  for (const discountCode of discountCodes) {
+    records.push(await findCodeByValue(shopDomain, discountCode));
+  }
+
+  const validRecords = records.map((record) => (record ? isCodeValidForOrder(record, orderCreatedAt) : false));
+  const selectedIndex = validRecords.findIndex(Boolean);
+  const selected = selectedIndex >= 0 ? records[selectedIndex] : null;
+
+  const ignored = discountCodes.flatMap<IgnoredDiscountCodeInput>((discountCode, index) => {
+    if (index === selectedIndex) return [];
+
+    const record = records[index];
+    if (!record) {
+      return [{ discountCode, reason: IgnoredDiscountCodeReason.NOT_A_REFERRAL_CODE }];
+    }
+
+    return validRecords[index]
+      ? [
+          {
+            discountCode,
+            codeId: record.id,
+            reason: IgnoredDiscountCodeReason.ADDITIONAL_REFERRAL_CODE,
+            details: selected ? `Code de parrainage ${selected.code} retenu pour cette commande` : null,
+          },
+        ]
+      : [
+          {
+            discountCode,
+            codeId: record.id,
+            reason: IgnoredDiscountCodeReason.INACTIVE_REFERRAL_CODE,
+            details:
+              record.expiresAt && record.expiresAt <= orderCreatedAt
+                ? `Code expiré le ${record.expiresAt.toISOString()}`
+                : "Code désactivé localement (app désinstallée)",
+          },
+        ];
+  });
+
+  if (ignored.length > 0) {
+    await recordIgnoredDiscountCodes(shopDomain, orderId, ignored);
+    console.log(
+      `ℹ️ Codes ignorés pour la commande ${orderId} : ${ignored
+        .map((entry) => `${entry.discountCode} (${entry.reason})`)
+        .join(", ")}`,
+    );
+  }
+
+  return selected;
+}
+
+type EnsureReferrerCodeParams = {
+  shopDomain: string;
+  payload: ShopifyOrderPaidPayload;
+  referrer: Referrer;
+  orderId: string;
+  settings: ResolvedReferralSettings;
+  /** Workshops couverts par le code ; le premier porte le programme appliqué. */
+  lines: WorkshopLine[];
+  /** true : code propre au workshop `lines[0]`, false : code unique du parrain. */
+  perWorkshop: boolean;
+  codeReusePolicy: CodeReusePolicyKey;
+};
+
+/**
+ * Donne un code de parrainage à l'acheteur pour cette commande selon `codeReusePolicy`
+ * (code existant conservé, prolongé ou nouveau code) et rattache les workshops achetés au code.
+ * Un code existant n'est jamais réécrit : sa commande d'origine et ses conditions restent celles de sa création.
+ */
+async function ensureReferrerCode({
+  shopDomain,
+  payload,
+  referrer,
+  orderId,
+  settings,
+  lines,
+  perWorkshop,
+  codeReusePolicy,
+}: EnsureReferrerCodeParams) {
+  const productIds = lines.map((line) => line.productId);
+  const workshopProductId = lines[0]?.productId;
+  const workshopProductTitle = lines.map((line) => line.productTitle).filter(Boolean).join(", ") || undefined;
+  const workshopQuantity = lines.reduce((total, line) => total + line.quantity, 0) || 1;
+
+  const linkedCode = await findPurchaseCode(orderId, productIds);
+
+  if (linkedCode) {
+    // Commande déjà traitée lors d'une tentative précédente : on s'assure seulement
+    // que le discount Shopify a bien été demandé.
+    if (!linkedCode.shopifyDiscountId) {
+      await enqueueJob(JobType.SYNC_DISCOUNT, { codeId: linkedCode.id }, { shop: shopDomain });
+    }
+
+    console.log(`ℹ️ Code ${linkedCode.code} déjà attribué pour la commande ${orderId}.`);
+    return;
+  }
+
+  // Code créé pour cette commande lors d'une tentative interrompue avant le rattachement des achats
+  const createdForOrder = await findCodeByOriginOrderId(shopDomain, orderId, perWorkshop ? workshopProductId : undefined);
+
+  if (createdForOrder) {
+    if (!createdForOrder.shopifyDiscountId) {
+      await enqueueJob(JobType.SYNC_DISCOUNT, { codeId: createdForOrder.id }, { shop: shopDomain });
+    }
+
+    await linkPurchasesToCode(orderId, productIds, createdForOrder.id, PurchaseCodeAction.CREATED);
+    console.log(`ℹ️ Code ${createdForOrder.code} déjà généré pour la commande ${orderId}.`);
+    return;
+  }
+
+  // Un code expiré ou désactivé n'est repris que pour être prolongé (et réactivé) ;
+  // sinon le parrain reçoit un nouveau code plutôt qu'un code inutilisable.
+  const usableOnly =
+    codeReusePolicy === CodeReusePolicy.KEEP_EXISTING
+      ? { active: true, OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }] }
+      : {};
+
+  const existingCode =
+    codeReusePolicy === CodeReusePolicy.NEW_CODE_PER_PURCHASE
+      ? null
+      : await prisma.code.findFirst({
+          where: {
+            shop: shopDomain,
+            referrerId: referrer.id,
+            ...(perWorkshop && workshopProductId ? { workshopProductId } : {}),
+            ...usableOnly,
+          },
+          orderBy: {
+            createdAt: "desc",
+          },
+        });
+
+  if (!existingCode) {
+    const codeRecord = await createCodeForReferrer({
+      shopDomain,
+      referrerId: referrer.id,
+      settings,
+      originOrderId: orderId,
+      originOrderGid: payload.admin_graphql_api_id ?? null,
+      workshopProductId,
+      workshopProductTitle,
+      workshopQuantity,
+      sendEmail: false,
+    });
+
+    console.log(`✅ Code ${codeRecord.code} créé pour ${referrer.email ?? referrer.shopifyCustomerId}`);
+
+    await linkPurchasesToCode(orderId, productIds, codeRecord.id, PurchaseCodeAction.CREATED);
+    await enqueueJob(JobType.SYNC_DISCOUNT, { codeId: codeRecord.id }, { shop: shopDomain });
+    await enqueueJob(JobType.SEND_PROMO_CODE_EMAIL, { codeId: codeRecord.id }, { shop: shopDomain });
+    return;
+  }
+
+  if (codeReusePolicy === CodeReusePolicy.EXTEND_EXISTING) {
+    const extended = await extendCodeValidity(existingCode.id, settings.codeValidityDays);
+
+    console.log(
+      `ℹ️ Validité du code ${extended.code} prolongée jusqu'au ${extended.expiresAt?.toISOString() ?? "(sans limite)"} pour la commande ${orderId}.`,
+    );
+
+    await linkPurchasesToCode(orderId, productIds, extended.id, PurchaseCodeAction.EXTENDED);
+    // La nouvelle date de fin doit être reportée sur le discount Shopify
+    await enqueueJob(JobType.SYNC_DISCOUNT, { codeId: extended.id }, { shop: shopDomain });
+    return;
+  }
+
+  console.log(`ℹ️ Code existant ${existingCode.code} conservé pour la commande ${orderId}.`);
+
+  await linkPurchasesToCode(orderId, productIds, existingCode.id, PurchaseCodeAction.REUSED);
+
+  if (!existingCode.shopifyDiscountId) {
+    await enqueueJob(JobType.SYNC_DISCOUNT, { codeId: existingCode.id }, { shop: shopDomain });
+  }
+}
+
+/**
+ * Génère les codes de parrainage de l'acheteur : un code unique couvrant les workshops achetés
+ * ou un code par workshop selon `workshopCodeMode`. Une commande non éligible (produits hors
+ * sélection, montant insuffisant) ne crée ni parrain ni code ; les workshops non éligibles
+ * ou dont le programme désactive la génération de codes sont ignorés.
+ */
+async function ensureReferrerCodes(
+  {
+    customer,
+    orderSubtotal,
+    ...orderParams
+  }: Pick<EnsureReferrerCodeParams, "shopDomain" | "payload" | "orderId"> & {
+    customer: NonNullable<ShopifyOrderPaidPayload["customer"]>;
+    orderSubtotal: number | null;
+  },
+  orderLines: WorkshopLine[],
+) {
+  const globalSettings = await getReferralSettings(orderParams.shopDomain);
+
+  const { qualifyingLines: lines, skip } = await evaluateCodeEligibility({
+    lines: orderLines,
+    orderAmount: orderSubtotal,
+    settings: globalSettings,
+    shopDomain: orderParams.shopDomain,
+  });
+
+  if (skip) {
+    await recordCodeGenerationSkip({
+      shopDomain: orderParams.shopDomain,
+      orderId: orderParams.orderId,
+      shopifyCustomerId: String(customer.id),
+      email: orderParams.payload.email ?? customer.email ?? null,
+      skip,
+    });
+    return;
+  }
+
+  if (lines.length === 0) {
+    // Commande sans workshop identifiable : code unique aux paramètres globaux
+    if (globalSettings.generatesCodes) {
+      const referrer = await getOrCreateReferrerFromCustomer(orderParams.shopDomain, customer);
+      await ensureReferrerCode({
+        ...orderParams,
+        referrer,
+        settings: globalSettings,
+        lines,
+        perWorkshop: false,
+        codeReusePolicy: globalSettings.codeReusePolicy,
+      });
+    }
+    return;
+  }
+
+  const eligibleLines: Array<{ line: WorkshopLine; settings: ResolvedReferralSettings }> = [];
+
+  for (const line of lines) {
+    const settings = await getReferralSettings(orderParams.shopDomain, line.productId);
+
+    if (settings.generatesCodes) {
+      eligibleLines.push({ line, settings });
+    } else {
+      console.log(
+        `ℹ️ Le workshop ${line.productTitle ?? line.productId} ne génère pas de code de parrainage (commande ${orderParams.orderId}).`,
+      );
+    }
+  }
+
+  if (eligibleLines.length === 0) {
+    return;
+  }
+
+  // Le parrain est créé une seule fois, indépendamment des codes qu'il reçoit
+  const referrer = await getOrCreateReferrerFromCustomer(orderParams.shopDomain, customer);
+  const params = { ...orderParams, referrer, codeReusePolicy: globalSettings.codeReusePolicy };
+
+  if (globalSettings.workshopCodeMode === WorkshopCodeMode.PER_WORKSHOP) {
+    for (const { line, settings } of eligibleLines) {
+      await ensureReferrerCode({ ...params, settings, lines: [line], perWorkshop: true });
+    }
+    return;
+  }
+
+  // Code unique : le programme du premier workshop s'applique
+  await ensureReferrerCode({
+    ...params,
+    settings: eligibleLines[0].settings,
+    lines: eligibleLines.map(({ line }) => line),
+    perWorkshop: false,
+  });
+}
+
+/**
+ * Traitement d'une commande payée : génération du code du parrain puis, si un code
+ * de parrainage a été utilisé, création du parrainage et de la récompense.
+ * Rejouable sans doublon : un retry reprend là où la tentative précédente s'est arrêtée.
+ */
+export async function processOrderPaid({ shopDomain, order: payload }: OrderPaidJobPayload) {
+  const customer = payload.customer;
+
+  if (!payload.id || !customer?.id) {
+    console.warn("⚠️ Commande incomplète : customer ou order ID manquant");
+    return;
+  }
+
+  const orderId = String(payload.id);
+
+  // Récupérer les détails complets de la commande pour obtenir les produits.
+  // Une erreur ici fait échouer le job, qui sera retenté plus tard.
+  const orderDetails = await fetchOrderById(orderId, shopDomain);
+  const lineItems: ShopifyLineItem[] = orderDetails.order?.line_items || [];
+  // Sous-total après remises, hors livraison : base du cashback en pourcentage
+  const orderSubtotal = Number.parseFloat(orderDetails.order?.subtotal_price ?? "");
+
+  // Chaque workshop de la commande est enregistré ; le premier sert de référence au parrainage
+  const workshopLines = extractWorkshopLines(lineItems);
+  await recordOrderPurchases(shopDomain, orderId, workshopLines);
+
+  const workshopProductId = workshopLines[0]?.productId;
+  const workshopProductTitle = workshopLines[0]?.productTitle ?? undefined;
+
+  await ensureReferrerCodes(
+    {
+      shopDomain,
+      payload,
+      customer,
+      orderId,
+      orderSubtotal: Number.isFinite(orderSubtotal) ? orderSubtotal : null,
+    },
+    workshopLines,
+  );
+
+  const discountCodes = collectOrderDiscountCodes(payload);
+
+  if (discountCodes.length === 0) {
+    return;
+  }
+
+  const orderCreatedAt = new Date(orderDetails.order?.created_at ?? payload.created_at ?? Date.now());
+  const usedCodeRecord = await selectReferralCode(shopDomain, orderId, orderCreatedAt, discountCodes);
+
+  if (!usedCodeRecord) {
+    console.log(`ℹ️ Aucun code de parrainage parmi les codes de la commande ${orderId} (${discountCodes.join(", ")}).`);
+    return;
+  }
+
+  const rejection = await findReferralRejectionByOrderId(shopDomain, orderId);
+
+  if (rejection) {
+    console.log(`ℹ️ Parrainage de la commande ${orderId} déjà refusé (${rejection.reason}), traitement ignoré.`);
+    return;
+  }
+
+  // Vérifier si une referral existe déjà pour cet orderId (protection contre les doublons)
+  const existingReferral = await findReferralByOrderId(shopDomain, orderId);
+
+  if (existingReferral?.voidedAt) {
+    console.log(
+      `ℹ️ Parrainage de la commande ${orderId} annulé (${existingReferral.voidReason ?? "sans motif"}), aucune récompense créée.`,
+    );
+    return;
+  }
+
+  if (existingReferral?.reward) {
+    console.log(`ℹ️ Referral déjà existante pour la commande ${orderId}, traitement ignoré (protection doublon)`);
+    return;
+  }
+
+  if (!existingReferral) {
+    // Remboursement ou annulation traité avant ce job : la commande ne donne lieu à aucun parrainage
+    const orderVoid = await findOrderVoid(shopDomain, orderId, workshopProductId);
+
+    if (orderVoid) {
+      console.log(`ℹ️ Commande ${orderId} déjà annulée (${orderVoid.reason}), aucun parrainage créé.`);
+      return;
+    }
+
+    // Les codes de parrainage sont réservés aux nouveaux clients : la commande en cours doit être la première.
+    // Seules les commandes passées jusqu'à celle-ci comptent, le job pouvant être rejoué bien plus tard.
+    const orderCount = await getCustomerOrderCount(String(customer.id), shopDomain, {
+      placedUntil: orderDetails.order?.created_at ?? null,
+    });
+
+    if (orderCount > 1) {
+      await recordReferralRejection({
+        shopDomain,
+        orderId,
+        referrerId: usedCodeRecord.referrerId,
+        codeId: usedCodeRecord.id,
+        refereeShopifyCustomerId: String(customer.id),
+        refereeEmail: payload.email ?? customer.email ?? null,
+        reason: ReferralRejectionReason.RETURNING_CUSTOMER,
+        details: `${orderCount} commandes au total pour ce client`,
+      });
+
+      console.warn(
+        `⚠️ Code ${usedCodeRecord.code} utilisé par un client existant (${orderCount} commandes), parrainage refusé pour la commande ${orderId}.`,
+      );
+      return;
+    }
+  }
+
+  // La récompense suit le programme du workshop dont le code est issu
+  const rewardSettings = await getReferralSettings(shopDomain, usedCodeRecord.workshopProductId);
+
+  // Auto-parrainage, foyer... : une récompense suspecte est bloquée en attendant une vérification
+  const fraudAssessment = await assessReferralFraud({
+    code: usedCodeRecord,
+    refereeOrder: orderDetails.order ?? payload,
+    shopDomain,
+  });
+
+  // Parrainage, récompense et utilisation du code sont écrits ensemble : un job rejoué ne peut pas
+  // trouver la récompense créée sans que l'utilisation du code ait été comptée
+  const referral = await prisma.$transaction(async (tx) => {
+    const created =
+      existingReferral ??
+      (await createReferral({
+        shopDomain,
+        referrerId: usedCodeRecord.referrerId,
+        codeId: usedCodeRecord.id,
+        refereeShopifyCustomerId: String(customer.id),
+        refereeEmail: payload.email ?? customer.email ?? null,
+        refereeFirstName: customer.first_name ?? null,
+        refereeLastName: customer.last_name ?? null,
+        orderId,
+        workshopProductId: workshopProductId ?? undefined,
+        workshopProductTitle: workshopProductTitle ?? undefined,
+        tx,
+      }));
+
+    await createPendingReward({
+      shopDomain,
+      referrerId: usedCodeRecord.referrerId,
+      referralId: created.id,
+      settings: rewardSettings,
+      currency: payload.currency ?? "EUR",
+      workshopProductId: workshopProductId ?? undefined,
+      workshopProductTitle: workshopProductTitle ?? undefined,
+      cashbackTerms: getCodeCashbackTerms(usedCodeRecord, rewardSettings),
+      orderSubtotal: Number.isFinite(orderSubtotal) ? orderSubtotal : null,
+      fraudAssessment,
+      tx,
+    });
+
+    await markCodeAsUsed(usedCodeRecord.id, tx);
+
+    return created;
+  });
+
+  await linkPurchasesToReferral(orderId, referral.id);
+
+  if (!usedCodeRecord.originOrderGid) {
+    console.warn(
+      `⚠️ Aucune information d'ordre Shopify sauvegardée pour le code ${usedCodeRecord.code}, refund manuel requis.`,
+    );
+    // Pas de refund possible tant que l'information n'est pas disponible, la reward reste en PENDING
+  }
+}
@@ -40,7 +40,7 @@ function normalizeAmount(value?: string | null): number {
 
 export async function listOrdersForCustomer(
   customerId: string,
-  shopDomain?: string | null,
+  shopDomain: string,
   options?: { limit?: number },
 ): Promise<SimplifiedOrder[]> {
   const json = await fetchOrdersByCustomerId(customerId, shopDomain, options);
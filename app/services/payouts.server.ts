@@ -0,0 +1,305 @@
+import { JobStatus, PayoutBatchStatus, PayoutMethod, PayoutTrigger, Prisma, RewardStatus } from "@prisma/client";
+import prisma from "app/db.server";
+import {
+  isRewardInHoldPeriod,
+  PAYABLE_REWARD_STATUSES,
+  REWARD_STATUS_LABELS,
+  type PayoutOutcome,
+} from "app/models/reward";
+import { enqueueJob, JobType } from "./jobs.server";
+import { PayoutInProgressError, processRewardRefund, RefundLimitError } from "./rewards.server";
+import { getReferralSettings, listShopsWithAutoPayout } from "./settings.server";
+
+const AUTO_PAYOUT_INTERVAL_MS = 24 * 60 * 60 * 1000; // un versement automatique par jour
+const STALE_BATCH_MS = 2 * 60 * 60 * 1000; // un lot RUNNING depuis 2 h est considéré comme interrompu
+const PAYOUT_ACTOR = "system:payout";
+
+export type PayoutReportEntry = {
+  rewardId: string;
+  referrerId: string;
+  referrerName: string;
+  amount: number;
+  currency: string;
+  outcome: PayoutOutcome;
+  message: string | null;
+};
+
+type RunPayoutBatchParams = {
+  trigger: PayoutTrigger;
+  shopDomain: string;
+  /** Récompenses à verser ; par défaut toutes les récompenses éligibles. */
+  rewardIds?: string[];
+  /** Arrête le lot à la première limite de refund atteinte au lieu d'ignorer la récompense. */
+  stopOnRefundLimit?: boolean;
+  actor?: string;
+};
+
+export function formatReferrerName(referrer: {
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+  shopifyCustomerId: string;
+}) {
+  return (
+    [referrer.firstName, referrer.lastName].filter(Boolean).join(" ") ||
+    referrer.email ||
+    referrer.shopifyCustomerId
+  );
+}
+
+/**
+ * Récompenses éligibles au versement : approuvées, dont la période de rétention est écoulée
+ * et qui ne sont pas déjà incluses dans un virement en attente de confirmation ni en cours de versement.
+ */
+export async function listPayableRewards(shopDomain: string, now = new Date()) {
+  return prisma.reward.findMany({
+    where: {
+      shop: shopDomain,
+      status: RewardStatus.APPROVED,
+      payoutBatchId: null,
+      payoutClaimedAt: null,
+      OR: [{ payableAt: null }, { payableAt: { lte: now } }],
+    },
+    include: { referrer: true },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+/**
+ * Verse les récompenses via `processRewardRefund` et enregistre un lot (`PayoutBatch`)
+ * avec le rapport détaillé de chaque récompense.
+ * Une récompense qui dépasse la limite de refund est ignorée et reste dans son statut ;
+ * avec `stopOnRefundLimit`, les récompenses suivantes ne sont pas traitées.
+ */
+export async function runPayoutBatch({
+  trigger,
+  shopDomain,
+  rewardIds,
+  stopOnRefundLimit = false,
+  actor = PAYOUT_ACTOR,
+}: RunPayoutBatchParams) {
+  const settings = await getReferralSettings(shopDomain);
+
+  // Un lot resté RUNNING (serveur arrêté pendant le versement) ne doit pas bloquer les suivants
+  await prisma.payoutBatch.updateMany({
+    where: {
+      shop: shopDomain,
+      status: PayoutBatchStatus.RUNNING,
+      startedAt: { lt: new Date(Date.now() - STALE_BATCH_MS) },
+    },
+    data: {
+      status: PayoutBatchStatus.FAILED,
+      errorMessage: "Versement interrompu avant la fin.",
+      completedAt: new Date(),
+      runningShop: null,
+    },
+  });
+
+  // Verrou en base : `runningShop` est unique, un second lot simultané pour la boutique échoue à la création
+  let batch;
+  try {
+    batch = await prisma.payoutBatch.create({
+      data: {
+        shop: shopDomain,
+        runningShop: shopDomain,
+        trigger,
+      },
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      throw new Error("Un versement est déjà en cours, veuillez patienter.");
+    }
+    throw error;
+  }
+
+  let rewards;
+  try {
+    rewards = rewardIds
+      ? await prisma.reward.findMany({
+          where: { id: { in: rewardIds }, shop: shopDomain },
+          include: { referrer: true },
+          orderBy: { createdAt: "asc" },
+        })
+      : await listPayableRewards(shopDomain);
+  } catch (error) {
+    await prisma.payoutBatch.update({
+      where: { id: batch.id },
+      data: {
+        status: PayoutBatchStatus.FAILED,
+        errorMessage: error instanceof Error ? error.message : String(error),
+        completedAt: new Date(),
+        runningShop: null,
+      },
+    });
+    throw error;
+  }
+
+  console.log(`💸 Versement ${batch.id} (${trigger}) : ${rewards.length} récompense(s) éligible(s)`);
+
+  const report: PayoutReportEntry[] = [];
+  let stopReason: string | null = null;
+
+  for (const reward of rewards) {
+    const entry: PayoutReportEntry = {
+      rewardId: reward.id,
+      referrerId: reward.referrerId,
+      referrerName: formatReferrerName(reward.referrer),
+      amount: reward.amount,
+      currency: reward.currency,
+      outcome: "PAID",
+      message: null,
+    };
+
+    if (stopReason) {
+      entry.outcome = "NOT_PROCESSED";
+      entry.message = "Non traitée : versement interrompu.";
+      report.push(entry);
+      continue;
+    }
+
+    // Sélection manuelle : les récompenses non payables sont ignorées sans erreur
+    if (!PAYABLE_REWARD_STATUSES.includes(reward.status)) {
+      entry.outcome = "SKIPPED";
+      entry.message = `Récompense ${REWARD_STATUS_LABELS[reward.status].toLowerCase()}, non payable.`;
+      report.push(entry);
+      continue;
+    }
+
+    if (isRewardInHoldPeriod(reward.payableAt)) {
+      entry.outcome = "SKIPPED";
+      entry.message = "Période de rétention en cours.";
+      report.push(entry);
+      continue;
+    }
+
+    // Déjà prise par un autre versement (lot planifié ou paiement individuel) : ne pas la payer deux fois
+    if (reward.payoutClaimedAt) {
+      entry.outcome = "SKIPPED";
+      entry.message = "Versement déjà en cours pour cette récompense.";
+      report.push(entry);
+      continue;
+    }
+
+    // Les virements bancaires sont versés par lot SEPA, confirmé manuellement
+    if (reward.payoutBatchId) {
+      entry.outcome = "SKIPPED";
+      entry.message = "Incluse dans un virement SEPA en attente de confirmation.";
+      report.push(entry);
+      continue;
+    }
+
+    if ((reward.payoutMethod ?? settings.defaultPayoutMethod) === PayoutMethod.BANK_TRANSFER) {
+      entry.outcome = "SKIPPED";
+      entry.message = "Versement par virement bancaire : à inclure dans un virement SEPA.";
+      report.push(entry);
+      continue;
+    }
+
+    try {
+      await processRewardRefund({
+        rewardId: reward.id,
+        shopDomain,
+        actor,
+        payoutBatchId: batch.id,
+      });
+    } catch (error) {
+      entry.outcome =
+        error instanceof RefundLimitError || error instanceof PayoutInProgressError ? "SKIPPED" : "FAILED";
+      entry.message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Versement de la récompense ${reward.id} impossible`, error);
+
+      if (error instanceof RefundLimitError && stopOnRefundLimit) {
+        stopReason = `Versement interrompu : ${error.message}`;
+      }
+    }
+
+    report.push(entry);
+  }
+
+  const completed = await prisma.payoutBatch.update({
+    where: { id: batch.id },
+    data: {
+      status: PayoutBatchStatus.COMPLETED,
+      completedAt: new Date(),
+      runningShop: null,
+      errorMessage: stopReason,
+      totalCount: rewards.length,
+      ...summarizeReport(report),
+    },
+  });
+
+  console.log(
+    `✅ Versement ${batch.id} terminé : ${completed.paidCount} payée(s), ${completed.failedCount} en erreur, ${completed.skippedCount} ignorée(s)`,
+  );
+
+  return completed;
+}
+
+export function summarizeReport(report: PayoutReportEntry[]) {
+  const paid = report.filter((entry) => entry.outcome === "PAID");
+
+  return {
+    paidCount: paid.length,
+    failedCount: report.filter((entry) => entry.outcome === "FAILED").length,
+    skippedCount: report.filter((entry) => entry.outcome === "SKIPPED" || entry.outcome === "NOT_PROCESSED")
+      .length,
+    paidAmount: paid.reduce((total, entry) => total + entry.amount, 0),
+    report: report as unknown as Prisma.InputJsonValue,
+  };
+}
+
+export async function listPayoutBatches(shopDomain: string, limit = 20) {
+  return prisma.payoutBatch.findMany({
+    where: { shop: shopDomain },
+    orderBy: { startedAt: "desc" },
+    take: limit,
+  });
+}
+
+export function parsePayoutReport(report: Prisma.JsonValue | null): PayoutReportEntry[] {
+  return Array.isArray(report) ? (report as unknown as PayoutReportEntry[]) : [];
+}
+
+/**
+ * Exécution planifiée : verse les récompenses de chaque boutique où le versement automatique
+ * est activé, puis reprogramme le prochain passage.
+ * L'échec d'une boutique n'empêche pas le versement des autres.
+ */
+export async function runScheduledPayout() {
+  try {
+    const shops = await listShopsWithAutoPayout();
+
+    if (shops.length === 0) {
+      console.log("ℹ️ Versement automatique désactivé, aucun paiement effectué.");
+      return;
+    }
+
+    for (const shopDomain of shops) {
+      try {
+        await runPayoutBatch({ trigger: PayoutTrigger.SCHEDULED, shopDomain });
+      } catch (error) {
+        console.error(`❌ Versement automatique impossible pour ${shopDomain}`, error);
+      }
+    }
+  } finally {
+    await scheduleNextAutoPayout(new Date(Date.now() + AUTO_PAYOUT_INTERVAL_MS));
+  }
+}
+
+/**
+ * Garantit qu'un seul job de versement automatique est programmé.
+ */
+export async function scheduleNextAutoPayout(runAt = new Date()) {
+  const pending = await prisma.job.findFirst({
+    where: {
+      type: JobType.AUTO_PAYOUT,
+      status: JobStatus.PENDING,
+    },
+  });
+
+  if (pending) {
+    return pending;
+  }
+
+  return enqueueJob(JobType.AUTO_PAYOUT, {}, { runAt, maxAttempts: 1 });
+}
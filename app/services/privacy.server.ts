@@ -0,0 +1,498 @@
+import { JobStatus, PrivacyRequestTopic, Prisma } from "@prisma/client";
+import prisma from "app/db.server";
+import { REDACTED_PLACEHOLDER } from "app/models/privacy";
+import { JobType } from "./jobs.server";
+import { parsePayoutReport } from "./payouts.server";
+
+/** Corps des webhooks `customers/data_request` et `customers/redact`. */
+export type ShopifyCustomerPrivacyPayload = {
+  shop_domain?: string;
+  customer?: { id?: number | string | null; email?: string | null } | null;
+  orders_requested?: Array<number | string>;
+  orders_to_redact?: Array<number | string>;
+  data_request?: { id?: number | string | null } | null;
+};
+
+export type PrivacyRequestJobPayload = {
+  privacyRequestId: string;
+};
+
+/** Client concerné par une demande : identifiant Shopify, email et commandes citées. */
+type CustomerIdentity = {
+  shopifyCustomerId: string | null;
+  email: string | null;
+  orderIds: string[];
+};
+
+const emailEquals = (email: string) => ({ equals: email, mode: Prisma.QueryMode.insensitive });
+
+function referrerWhere(shopDomain: string, { shopifyCustomerId, email }: CustomerIdentity) {
+  const or: Prisma.ReferrerWhereInput[] = [];
+  if (shopifyCustomerId) or.push({ shopifyCustomerId });
+  if (email) or.push({ email: emailEquals(email) });
+
+  return or.length > 0 ? { shop: shopDomain, OR: or } : null;
+}
+
+/** Parrainages où le client est le filleul (identifiant, email ou commande). */
+function refereeWhere(shopDomain: string, { shopifyCustomerId, email, orderIds }: CustomerIdentity) {
+  const or: Prisma.ReferralWhereInput[] = [];
+  if (shopifyCustomerId) or.push({ refereeShopifyCustomerId: shopifyCustomerId });
+  if (email) or.push({ refereeEmail: emailEquals(email) });
+  if (orderIds.length > 0) or.push({ orderId: { in: orderIds } });
+
+  return or.length > 0 ? { shop: shopDomain, OR: or } : null;
+}
+
+function rejectionWhere(shopDomain: string, { shopifyCustomerId, email, orderIds }: CustomerIdentity) {
+  const or: Prisma.ReferralRejectionWhereInput[] = [];
+  if (shopifyCustomerId) or.push({ refereeShopifyCustomerId: shopifyCustomerId });
+  if (email) or.push({ refereeEmail: emailEquals(email) });
+  if (orderIds.length > 0) or.push({ orderId: { in: orderIds } });
+
+  return or.length > 0 ? { shop: shopDomain, OR: or } : null;
+}
+
+function codeGenerationSkipWhere(shopDomain: string, { shopifyCustomerId, email, orderIds }: CustomerIdentity) {
+  const or: Prisma.CodeGenerationSkipWhereInput[] = [];
+  if (shopifyCustomerId) or.push({ shopifyCustomerId });
+  if (email) or.push({ email: emailEquals(email) });
+  if (orderIds.length > 0) or.push({ orderId: { in: orderIds } });
+
+  return or.length > 0 ? { shop: shopDomain, OR: or } : null;
+}
+
+/**
+ * Enregistre une demande reçue via un webhook de conformité ; elle est traitée par la file de jobs.
+ */
+export async function recordPrivacyRequest(
+  shopDomain: string,
+  topic: PrivacyRequestTopic,
+  payload: ShopifyCustomerPrivacyPayload = {},
+) {
+  const orderIds = payload.orders_requested ?? payload.orders_to_redact ?? [];
+
+  return prisma.privacyRequest.create({
+    data: {
+      shop: shopDomain,
+      topic,
+      shopifyCustomerId: payload.customer?.id ? String(payload.customer.id) : null,
+      email: payload.customer?.email?.trim() || null,
+      orderIds: orderIds.map(String),
+      dataRequestId: payload.data_request?.id ? String(payload.data_request.id) : null,
+    },
+  });
+}
+
+/**
+ * Données d'un client conservées par l'app : fiche parrain (codes, parrainages, récompenses, emails)
+ * et parrainages où il est le filleul. Les données des autres clients (filleuls du parrain) sont exclues.
+ */
+export async function exportCustomerData(shopDomain: string, identity: CustomerIdentity) {
+  const referrerFilter = referrerWhere(shopDomain, identity);
+  const refereeFilter = refereeWhere(shopDomain, identity);
+  const rejectionFilter = rejectionWhere(shopDomain, identity);
+  const skipFilter = codeGenerationSkipWhere(shopDomain, identity);
+
+  const [referrers, refereeReferrals, rejections, skips] = await Promise.all([
+    referrerFilter
+      ? prisma.referrer.findMany({
+          where: referrerFilter,
+          include: {
+            codes: { orderBy: { createdAt: "asc" } },
+            referrals: { include: { code: true }, orderBy: { createdAt: "asc" } },
+            rewards: { orderBy: { createdAt: "asc" } },
+            emailLogs: { orderBy: { createdAt: "asc" } },
+          },
+        })
+      : [],
+    refereeFilter
+      ? prisma.referral.findMany({
+          where: refereeFilter,
+          include: { code: true },
+          orderBy: { createdAt: "asc" },
+        })
+      : [],
+    rejectionFilter
+      ? prisma.referralRejection.findMany({
+          where: rejectionFilter,
+          include: { code: true },
+          orderBy: { createdAt: "asc" },
+        })
+      : [],
+    skipFilter ? prisma.codeGenerationSkip.findMany({ where: skipFilter, orderBy: { createdAt: "asc" } }) : [],
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    shop: shopDomain,
+    customer: {
+      shopifyCustomerId: identity.shopifyCustomerId,
+      email: identity.email,
+    },
+    referrers: referrers.map((referrer) => ({
+      id: referrer.id,
+      shopifyCustomerId: referrer.shopifyCustomerId,
+      email: referrer.email,
+      firstName: referrer.firstName,
+      lastName: referrer.lastName,
+      iban: referrer.iban,
+      bic: referrer.bic,
+      bankAccountHolder: referrer.bankAccountHolder,
+      createdAt: referrer.createdAt.toISOString(),
+      codes: referrer.codes.map((code) => ({
+        code: code.code,
+        usageCount: code.usageCount,
+        maxUsage: code.maxUsage,
+        discountPercentage: code.discountSnapshot,
+        cashbackAmount: code.cashbackSnapshot,
+        workshopProductTitle: code.workshopProductTitle,
+        originOrderId: code.originOrderId,
+        createdAt: code.createdAt.toISOString(),
+        expiresAt: code.expiresAt?.toISOString() ?? null,
+      })),
+      referrals: referrer.referrals.map((referral) => ({
+        code: referral.code?.code ?? null,
+        workshopProductTitle: referral.workshopProductTitle,
+        createdAt: referral.createdAt.toISOString(),
+        voidedAt: referral.voidedAt?.toISOString() ?? null,
+        voidReason: referral.voidReason,
+      })),
+      rewards: referrer.rewards.map((reward) => ({
+        amount: reward.amount,
+        currency: reward.currency,
+        status: reward.status,
+        payoutMethod: reward.payoutMethod,
+        workshopProductTitle: reward.workshopProductTitle,
+        createdAt: reward.createdAt.toISOString(),
+        paidAt: reward.paidAt?.toISOString() ?? null,
+      })),
+      emailLogs: referrer.emailLogs.map((log) => ({
+        templateType: log.templateType,
+        recipientEmail: log.recipientEmail,
+        subject: log.subject,
+        status: log.status,
+        sentAt: log.sentAt?.toISOString() ?? null,
+        createdAt: log.createdAt.toISOString(),
+      })),
+    })),
+    referralsAsReferee: refereeReferrals.map((referral) => ({
+      orderId: referral.orderId,
+      code: referral.code?.code ?? null,
+      refereeEmail: referral.refereeEmail,
+      refereeFirstName: referral.refereeFirstName,
+      refereeLastName: referral.refereeLastName,
+      workshopProductTitle: referral.workshopProductTitle,
+      createdAt: referral.createdAt.toISOString(),
+      voidedAt: referral.voidedAt?.toISOString() ?? null,
+    })),
+    rejectedReferrals: rejections.map((rejection) => ({
+      orderId: rejection.orderId,
+      code: rejection.code.code,
+      refereeEmail: rejection.refereeEmail,
+      reason: rejection.reason,
+      createdAt: rejection.createdAt.toISOString(),
+    })),
+    ordersWithoutCode: skips.map((skip) => ({
+      orderId: skip.orderId,
+      reason: skip.reason,
+      createdAt: skip.createdAt.toISOString(),
+    })),
+  };
+}
+
+export type CustomerDataExport = Awaited<ReturnType<typeof exportCustomerData>>;
+
+/** Export d'un parrain depuis sa fiche. */
+export async function exportReferrerData(shopDomain: string, referrerId: string) {
+  const referrer = await prisma.referrer.findUnique({ where: { id: referrerId, shop: shopDomain } });
+
+  if (!referrer) {
+    throw new Error("Parrain introuvable.");
+  }
+
+  return exportCustomerData(shopDomain, {
+    shopifyCustomerId: referrer.shopifyCustomerId,
+    email: referrer.email,
+    orderIds: [],
+  });
+}
+
+/**
+ * Anonymise les données d'un client sans supprimer de ligne : montants, statuts et historique
+ * des récompenses restent intacts pour la comptabilité des versements.
+ */
+export async function redactCustomerData(shopDomain: string, identity: CustomerIdentity) {
+  const referrerFilter = referrerWhere(shopDomain, identity);
+  const refereeFilter = refereeWhere(shopDomain, identity);
+  const rejectionFilter = rejectionWhere(shopDomain, identity);
+  const skipFilter = codeGenerationSkipWhere(shopDomain, identity);
+  const now = new Date();
+
+  const [referrers, referrals] = await Promise.all([
+    referrerFilter ? prisma.referrer.findMany({ where: referrerFilter, select: { id: true } }) : [],
+    refereeFilter ? prisma.referral.findMany({ where: refereeFilter, select: { id: true } }) : [],
+  ]);
+  const referrerIds = referrers.map(({ id }) => id);
+  const referralIds = referrals.map(({ id }) => id);
+
+  await prisma.$transaction(async (tx) => {
+    for (const referrerId of referrerIds) {
+      // L'identifiant Shopify est remplacé pour qu'un nouveau compte du client ne soit pas rattaché à la fiche
+      await tx.referrer.update({
+        where: { id: referrerId },
+        data: {
+          shopifyCustomerId: `redacted-${referrerId}`,
+          email: null,
+          firstName: null,
+          lastName: null,
+          iban: null,
+          bic: null,
+          bankAccountHolder: null,
+          redactedAt: now,
+        },
+      });
+    }
+
+    if (referrerIds.length > 0) {
+      await tx.emailLog.updateMany({
+        where: { referrerId: { in: referrerIds } },
+        data: { recipientEmail: REDACTED_PLACEHOLDER, subject: REDACTED_PLACEHOLDER },
+      });
+    }
+
+    if (referralIds.length > 0) {
+      await tx.referral.updateMany({
+        where: { id: { in: referralIds } },
+        data: {
+          refereeShopifyCustomerId: null,
+          refereeEmail: null,
+          refereeFirstName: null,
+          refereeLastName: null,
+          redactedAt: now,
+        },
+      });
+    }
+
+    // Les signaux de fraude citent les coordonnées du parrain et du filleul
+    if (referrerIds.length > 0 || referralIds.length > 0) {
+      await tx.fraudSignal.updateMany({
+        where: {
+          reward: {
+            shop: shopDomain,
+            OR: [{ referrerId: { in: referrerIds } }, { referralId: { in: referralIds } }],
+          },
+        },
+        data: { details: null },
+      });
+    }
+
+    if (rejectionFilter) {
+      await tx.referralRejection.updateMany({
+        where: rejectionFilter,
+        data: { refereeShopifyCustomerId: null, refereeEmail: null },
+      });
+    }
+
+    if (skipFilter) {
+      await tx.codeGenerationSkip.updateMany({
+        where: skipFilter,
+        data: { shopifyCustomerId: null, email: null },
+      });
+    }
+  });
+
+  await redactPayoutReports(shopDomain, referrerIds);
+  await redactOrderPaidJobs(shopDomain, identity);
+
+  // Les exports déjà générés pour ce client contiennent les données effacées
+  if (identity.shopifyCustomerId) {
+    await prisma.privacyRequest.updateMany({
+      where: { shop: shopDomain, shopifyCustomerId: identity.shopifyCustomerId },
+      data: { email: null, exportData: Prisma.DbNull },
+    });
+  }
+
+  console.log(
+    `✅ Données client anonymisées pour ${shopDomain} : ${referrerIds.length} parrain(s), ${referralIds.length} parrainage(s)`,
+  );
+}
+
+/** Les rapports de versement conservent le nom du parrain au moment du versement. */
+async function redactPayoutReports(shopDomain: string, referrerIds: string[]) {
+  if (referrerIds.length === 0) return;
+
+  const redactedIds = new Set(referrerIds);
+  const batches = await prisma.payoutBatch.findMany({
+    where: { shop: shopDomain, report: { not: Prisma.DbNull } },
+    select: { id: true, report: true },
+  });
+
+  for (const batch of batches) {
+    const report = parsePayoutReport(batch.report);
+    if (!report.some((entry) => redactedIds.has(entry.referrerId))) continue;
+
+    await prisma.payoutBatch.update({
+      where: { id: batch.id },
+      data: {
+        report: report.map((entry) =>
+          redactedIds.has(entry.referrerId) ? { ...entry, referrerName: REDACTED_PLACEHOLDER } : entry,
+        ) as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+}
+
+/**
+ * Les jobs de commande payée terminés gardent le client de la commande dans leur payload :
+ * seul l'identifiant de commande est conservé.
+ */
+async function redactOrderPaidJobs(shopDomain: string, { shopifyCustomerId, orderIds }: CustomerIdentity) {
+  // Les identifiants Shopify sont stockés tels que reçus dans le webhook (nombres)
+  const or: Prisma.JobWhereInput[] = orderIds.map((orderId) => ({
+    payload: { path: ["order", "id"], equals: Number(orderId) },
+  }));
+  if (shopifyCustomerId) {
+    or.push({ payload: { path: ["order", "customer", "id"], equals: Number(shopifyCustomerId) } });
+  }
+
+  if (or.length === 0) return;
+
+  const jobs = await prisma.job.findMany({
+    where: {
+      shop: shopDomain,
+      type: JobType.ORDER_PAID,
+      status: { in: [JobStatus.COMPLETED, JobStatus.DEAD] },
+      OR: or,
+    },
+    select: { id: true, payload: true },
+  });
+
+  for (const job of jobs) {
+    const order = (job.payload as { order?: { id?: number | string } } | null)?.order;
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: { payload: { shopDomain, order: { id: order?.id ?? null } } },
+    });
+  }
+}
+
+/**
+ * Supprime toutes les données de la boutique (envoyé par Shopify 48 h après la désinstallation).
+ * Les demandes d'effacement de boutique sont conservées comme preuve de traitement.
+ */
+export async function redactShopData(shopDomain: string, { currentJobId }: { currentJobId?: string } = {}) {
+  const where = { shop: shopDomain };
+
+  const results = await prisma.$transaction([
+    prisma.emailLog.deleteMany({ where }),
+    prisma.purchase.deleteMany({ where }),
+    prisma.ignoredDiscountCode.deleteMany({ where }),
+    prisma.referralRejection.deleteMany({ where }),
+    prisma.codeGenerationSkip.deleteMany({ where }),
+    prisma.voidedOrder.deleteMany({ where }),
+    // Les transitions et signaux de fraude sont supprimés en cascade
+    prisma.reward.deleteMany({ where }),
+    prisma.payoutBatch.deleteMany({ where }),
+    prisma.referral.deleteMany({ where }),
+    prisma.code.deleteMany({ where }),
+    prisma.referrer.deleteMany({ where }),
+    prisma.workshopProgram.deleteMany({ where }),
+    prisma.emailTemplate.deleteMany({ where }),
+    prisma.appSetting.deleteMany({ where }),
+    prisma.job.deleteMany({ where: { ...where, id: currentJobId ? { not: currentJobId } : undefined } }),
+    prisma.webhookEvent.deleteMany({ where }),
+    prisma.session.deleteMany({ where }),
+    prisma.privacyRequest.deleteMany({ where: { ...where, topic: { not: PrivacyRequestTopic.SHOP_REDACT } } }),
+  ]);
+
+  const total = results.reduce((sum, result) => sum + result.count, 0);
+  console.log(`✅ Données de la boutique ${shopDomain} supprimées (${total} ligne(s))`);
+}
+
+/**
+ * Traite une demande RGPD enregistrée ; rejouable sans effet de bord.
+ */
+export async function processPrivacyRequest(
+  { privacyRequestId }: PrivacyRequestJobPayload,
+  { currentJobId }: { currentJobId?: string } = {},
+) {
+  const request = await prisma.privacyRequest.findUnique({ where: { id: privacyRequestId } });
+
+  if (!request) {
+    console.warn(`⚠️ Demande RGPD ${privacyRequestId} introuvable, traitement ignoré.`);
+    return;
+  }
+
+  if (request.completedAt) {
+    console.log(`ℹ️ Demande RGPD ${request.id} déjà traitée.`);
+    return;
+  }
+
+  const identity: CustomerIdentity = {
+    shopifyCustomerId: request.shopifyCustomerId,
+    email: request.email,
+    orderIds: request.orderIds,
+  };
+
+  switch (request.topic) {
+    case PrivacyRequestTopic.CUSTOMER_DATA_REQUEST: {
+      const exportData = await exportCustomerData(request.shop, identity);
+
+      await prisma.privacyRequest.update({
+        where: { id: request.id },
+        data: { exportData: exportData as unknown as Prisma.InputJsonValue, completedAt: new Date() },
+      });
+      console.log(`✅ Export des données client prêt pour ${request.shop} (demande ${request.id})`);
+      return;
+    }
+    case PrivacyRequestTopic.CUSTOMER_REDACT:
+      await redactCustomerData(request.shop, identity);
+      break;
+    case PrivacyRequestTopic.SHOP_REDACT:
+      await redactShopData(request.shop, { currentJobId });
+      break;
+  }
+
+  await prisma.privacyRequest.update({
+    where: { id: request.id },
+    data: { completedAt: new Date() },
+  });
+}
+
+export async function listPrivacyRequests(shopDomain: string, limit = 50) {
+  return prisma.privacyRequest.findMany({
+    where: { shop: shopDomain },
+    select: {
+      id: true,
+      topic: true,
+      shopifyCustomerId: true,
+      email: true,
+      orderIds: true,
+      dataRequestId: true,
+      completedAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: "desc" },
+    take: limit,
+  });
+}
+
+export async function getPrivacyRequestExport(shopDomain: string, privacyRequestId: string) {
+  const request = await prisma.privacyRequest.findUnique({
+    where: { id: privacyRequestId, shop: shopDomain },
+  });
+
+  if (!request || request.topic !== PrivacyRequestTopic.CUSTOMER_DATA_REQUEST) {
+    throw new Error("Demande introuvable.");
+  }
+
+  if (!request.exportData) {
+    throw new Error(
+      request.completedAt ? "Export effacé suite à une demande d'effacement du client." : "Export en cours de préparation.",
+    );
+  }
+
+  return request;
+}
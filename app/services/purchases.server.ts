@@ -0,0 +1,101 @@
+import type { PurchaseCodeAction } from "@prisma/client";
+import prisma from "app/db.server";
+
+/** Ligne d'article d'une commande REST Shopify. */
+export type ShopifyLineItem = {
+  product_id?: number | string | null;
+  variant_id?: number | string | null;
+  title?: string | null;
+  name?: string | null;
+  quantity?: number | null;
+  gift_card?: boolean | null;
+};
+
+/** Workshop acheté dans une commande : lignes d'un même produit regroupées. */
+export type WorkshopLine = {
+  productId: string;
+  productTitle: string | null;
+  variantId: string | null;
+  quantity: number;
+};
+
+/**
+ * Workshops achetés dans la commande, dans l'ordre des lignes.
+ * Les cartes cadeaux et les lignes sans produit (frais, pourboires) ne sont pas des workshops.
+ */
+export function extractWorkshopLines(lineItems: ShopifyLineItem[]): WorkshopLine[] {
+  const lines = new Map<string, WorkshopLine>();
+
+  for (const item of lineItems) {
+    if (!item.product_id || item.gift_card) continue;
+
+    const productId = String(item.product_id);
+    const quantity = item.quantity || 1;
+    const existing = lines.get(productId);
+
+    if (existing) {
+      existing.quantity += quantity;
+      continue;
+    }
+
+    lines.set(productId, {
+      productId,
+      productTitle: item.title || item.name || null,
+      variantId: item.variant_id ? String(item.variant_id) : null,
+      quantity,
+    });
+  }
+
+  return Array.from(lines.values());
+}
+
+/**
+ * Enregistre chaque workshop de la commande (rejouable sans doublon).
+ */
+export async function recordOrderPurchases(shopDomain: string, orderId: string, lines: WorkshopLine[]) {
+  for (const line of lines) {
+    await prisma.purchase.upsert({
+      where: { orderId_productId: { orderId, productId: line.productId } },
+      create: { shop: shopDomain, orderId, ...line },
+      update: { productTitle: line.productTitle, variantId: line.variantId, quantity: line.quantity },
+    });
+  }
+}
+
+/**
+ * Rattache les workshops achetés au code de parrainage de l'acheteur, avec l'effet de l'achat
+ * sur ce code (créé, conservé ou prolongé).
+ */
+export async function linkPurchasesToCode(
+  orderId: string,
+  productIds: string[],
+  codeId: string,
+  codeAction: PurchaseCodeAction,
+) {
+  if (productIds.length === 0) return;
+
+  await prisma.purchase.updateMany({
+    where: { orderId, productId: { in: productIds } },
+    data: { codeId, codeAction },
+  });
+}
+
+/** Code déjà rattaché à l'un de ces workshops de la commande (traitement précédent). */
+export async function findPurchaseCode(orderId: string, productIds: string[]) {
+  if (productIds.length === 0) return null;
+
+  const purchase = await prisma.purchase.findFirst({
+    where: { orderId, productId: { in: productIds }, codeId: { not: null } },
+    include: { code: true },
+  });
+
+  return purchase?.code ?? null;
+}
+
+/** Rattache les workshops achetés par le filleul à son parrainage. */
+export async function linkPurchasesToReferral(orderId: string, referralId: string) {
+  await prisma.purchase.updateMany({
+    where: { orderId },
+    data: { referralId },
+  });
+}
@@ -1,6 +1,8 @@
+import type { IgnoredDiscountCodeReason, Prisma, ReferralRejectionReason } from "@prisma/client";
 import prisma from "app/db.server";
 
 type ReferralInput = {
+  shopDomain: string;
   referrerId: string;
   codeId?: string;
   refereeShopifyCustomerId?: string | null;
@@ -10,10 +12,13 @@ type ReferralInput = {
   orderId?: string | null;
   workshopProductId?: string | null;
   workshopProductTitle?: string | null;
+  tx?: Prisma.TransactionClient;
 };
 
 export async function createReferral(input: ReferralInput) {
+  const client = input.tx ?? prisma;
   const data = {
+    shop: input.shopDomain,
     referrerId: input.referrerId,
     codeId: input.codeId ?? undefined,
     refereeShopifyCustomerId: input.refereeShopifyCustomerId ?? undefined,
@@ -26,7 +31,7 @@ export async function createReferral(input: ReferralInput) {
   };
 
   if (input.orderId) {
-    return prisma.referral.upsert({
+    return client.referral.upsert({
       where: { orderId: input.orderId },
       create: data,
       update: data,
@@ -37,7 +42,7 @@ export async function createReferral(input: ReferralInput) {
     });
   }
 
-  return prisma.referral.create({
+  return client.referral.create({
     data,
     include: {
       referrer: true,
@@ -46,17 +51,68 @@ export async function createReferral(input: ReferralInput) {
   });
 }
 
-export async function findReferralByOrderId(orderId: string) {
+export async function findReferralByOrderId(shopDomain: string, orderId: string) {
   return prisma.referral.findUnique({
-    where: { orderId },
+    where: { orderId, shop: shopDomain },
     include: {
       reward: true,
     },
   });
 }
 
-export async function listRecentReferrals(limit = 20) {
+type ReferralRejectionInput = {
+  shopDomain: string;
+  orderId: string;
+  referrerId: string;
+  codeId: string;
+  refereeShopifyCustomerId?: string | null;
+  refereeEmail?: string | null;
+  reason: ReferralRejectionReason;
+  details?: string | null;
+};
+
+/**
+ * Enregistre le refus d'un parrainage (une fois par commande, rejouable sans doublon).
+ */
+export async function recordReferralRejection({ shopDomain, orderId, ...data }: ReferralRejectionInput) {
+  return prisma.referralRejection.upsert({
+    where: { orderId },
+    create: { shop: shopDomain, orderId, ...data },
+    update: {},
+  });
+}
+
+export async function findReferralRejectionByOrderId(shopDomain: string, orderId: string) {
+  return prisma.referralRejection.findUnique({ where: { orderId, shop: shopDomain } });
+}
+
+export type IgnoredDiscountCodeInput = {
+  discountCode: string;
+  codeId?: string | null;
+  reason: IgnoredDiscountCodeReason;
+  details?: string | null;
+};
+
+/**
+ * Journalise les codes de réduction d'une commande qui n'ont pas donné lieu à un parrainage
+ * (rejouable sans doublon).
+ */
+export async function recordIgnoredDiscountCodes(
+  shopDomain: string,
+  orderId: string,
+  entries: IgnoredDiscountCodeInput[],
+) {
+  if (entries.length === 0) return;
+
+  await prisma.ignoredDiscountCode.createMany({
+    data: entries.map((entry) => ({ shop: shopDomain, orderId, ...entry })),
+    skipDuplicates: true,
+  });
+}
+
+export async function listRecentReferrals(shopDomain: string, limit = 20) {
   return prisma.referral.findMany({
+    where: { shop: shopDomain },
     include: {
       referrer: true,
       code: true,
@@ -67,11 +123,12 @@ export async function listRecentReferrals(limit = 20) {
   });
 }
 
-export async function getReferralStats() {
+export async function getReferralStats(shopDomain: string) {
   const [total, withRewards] = await Promise.all([
-    prisma.referral.count(),
+    prisma.referral.count({ where: { shop: shopDomain } }),
     prisma.referral.count({
       where: {
+        shop: shopDomain,
         reward: {
           isNot: null,
         },
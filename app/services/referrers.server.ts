@@ -9,11 +9,11 @@ type ShopifyCustomerPayload = {
   last_name?: string | null;
 };
 
-export async function getOrCreateReferrerFromCustomer(customer: ShopifyCustomerPayload) {
+export async function getOrCreateReferrerFromCustomer(shopDomain: string, customer: ShopifyCustomerPayload) {
   const shopifyCustomerId = String(customer.id);
 
   const existing = await prisma.referrer.findUnique({
-    where: { shopifyCustomerId },
+    where: { shop_shopifyCustomerId: { shop: shopDomain, shopifyCustomerId } },
   });
 
   if (existing) {
@@ -39,6 +39,7 @@ export async function getOrCreateReferrerFromCustomer(customer: ShopifyCustomerP
 
   return prisma.referrer.create({
     data: {
+      shop: shopDomain,
       shopifyCustomerId,
       email: customer.email ?? undefined,
       firstName: customer.first_name ?? undefined,
@@ -53,7 +54,7 @@ type ListReferrersOptions = {
   search?: string;
 };
 
-export async function listReferrersWithStats(options: ListReferrersOptions = {}) {
+export async function listReferrersWithStats(shopDomain: string, options: ListReferrersOptions = {}) {
   const { limit = 50, offset = 0, search } = options;
 
   // Construire les conditions de recherche
@@ -68,7 +69,7 @@ export async function listReferrersWithStats(options: ListReferrersOptions = {})
       }
     : undefined;
 
-  const where = searchCondition ? { ...searchCondition } : undefined;
+  const where = { shop: shopDomain, ...searchCondition };
 
   const [referrers, total] = await Promise.all([
     prisma.referrer.findMany({
@@ -117,9 +118,9 @@ export async function listReferrersWithStats(options: ListReferrersOptions = {})
   };
 }
 
-export async function getReferrerDetail(id: string) {
+export async function getReferrerDetail(shopDomain: string, id: string) {
   return prisma.referrer.findUnique({
-    where: { id },
+    where: { id, shop: shopDomain },
     include: {
       codes: {
         orderBy: { createdAt: "desc" },
@@ -142,6 +143,13 @@ export async function getReferrerDetail(id: string) {
       },
       rewards: {
         orderBy: { createdAt: "desc" },
+        include: {
+          fraudSignals: { orderBy: { score: "desc" } },
+        },
+      },
+      rejections: {
+        orderBy: { createdAt: "desc" },
+        include: { code: true },
       },
       emailLogs: {
         where: {
@@ -153,11 +161,13 @@ export async function getReferrerDetail(id: string) {
   });
 }
 
-type DeleteReferrerOptions = {
-  shopDomain?: string | null;
-};
+export async function deleteReferrer(shopDomain: string, referrerId: string) {
+  const referrer = await prisma.referrer.findUnique({ where: { id: referrerId, shop: shopDomain } });
+
+  if (!referrer) {
+    throw new Error("Parrain introuvable.");
+  }
 
-export async function deleteReferrer(referrerId: string, options: DeleteReferrerOptions = {}) {
   const codes = await prisma.code.findMany({
     where: { referrerId },
     select: {
@@ -169,7 +179,7 @@ export async function deleteReferrer(referrerId: string, options: DeleteReferrer
   for (const code of codes) {
     if (!code.shopifyDiscountId) continue;
     try {
-      await deleteShopifyDiscount(code.shopifyDiscountId, options.shopDomain);
+      await deleteShopifyDiscount(code.shopifyDiscountId, shopDomain);
       console.log(`🗑️ Discount Shopify ${code.shopifyDiscountId} supprimé pour le code ${code.id}`);
     } catch (error) {
       console.error(
@@ -183,6 +193,7 @@ export async function deleteReferrer(referrerId: string, options: DeleteReferrer
     prisma.emailLog.deleteMany({ where: { referrerId } }),
     prisma.reward.deleteMany({ where: { referrerId } }),
     prisma.referral.deleteMany({ where: { referrerId } }),
+    prisma.referralRejection.deleteMany({ where: { referrerId } }),
     prisma.code.deleteMany({ where: { referrerId } }),
     prisma.referrer.delete({ where: { id: referrerId } }),
   ]);
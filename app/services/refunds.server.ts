@@ -25,7 +25,7 @@ type RefundParams = {
   amount: number;
   currency: string;
   note?: string;
-  shopDomain?: string | null;
+  shopDomain: string;
 };
 
 const DEFAULT_REFUND_NOTE = "Remboursement automatique - Parrainage";
@@ -1,68 +1,380 @@
-import { RewardStatus } from "@prisma/client";
+import { PayoutMethod, RewardStatus, type Prisma } from "@prisma/client";
 import prisma from "app/db.server";
-import { sendCashbackConfirmationEmail } from "./email.server";
+import {
+  CashbackMode,
+  computePercentageCashback,
+  resolveCashbackTier,
+  type CashbackTerms,
+} from "app/models/cashback";
+import {
+  canTransitionReward,
+  isRewardInHoldPeriod,
+  PAYABLE_REWARD_STATUSES,
+  REWARD_STATUS_LABELS,
+} from "app/models/reward";
+import { sendCashbackConfirmationEmail, sendGiftCardRewardEmail } from "./email.server";
+import { describeFraudAssessment, type FraudAssessment } from "./fraud.server";
+import { createReferralGiftCard, type CreatedGiftCard } from "./giftCards.server";
 import { createReferralRefund } from "./refunds.server";
 import type { ReferralSettings } from "./settings.server";
 import { getReferralSettings } from "./settings.server";
 import { getOrderTotalAmount } from "./shopifyAdmin.server";
+import { creditStoreCreditAccount } from "./storeCredit.server";
+
+const payableDateFormatter = new Intl.DateTimeFormat("fr-FR", {
+  dateStyle: "medium",
+});
+
+// Une récompense non payée n'est rattachée à un lot que le temps d'un virement SEPA
+const PENDING_TRANSFER_MESSAGE = "Récompense incluse dans un virement SEPA en attente de confirmation.";
+const PAYOUT_IN_PROGRESS_MESSAGE = "Un versement est déjà en cours pour cette récompense.";
+// Au-delà, un versement réservé est considéré comme interrompu et la récompense peut être reprise en main
+const STALE_PAYOUT_CLAIM_MS = 2 * 60 * 60 * 1000;
+
+/**
+ * Date à partir de laquelle la récompense peut être payée (fin de la période de rétention).
+ */
+export function computeRewardPayableAt(holdDays: number, from = new Date()) {
+  const payableAt = new Date(from);
+  payableAt.setUTCDate(payableAt.getUTCDate() + Math.max(holdDays, 0));
+  return payableAt;
+}
 
 type RewardInput = {
+  shopDomain: string;
   referrerId: string;
   referralId?: string;
   settings: ReferralSettings;
   currency?: string;
   workshopProductId?: string | null;
   workshopProductTitle?: string | null;
+  /** Conditions figées sur le code utilisé ; en mode pourcentage, `orderSubtotal` est requis. */
+  cashbackTerms?: CashbackTerms | null;
+  orderSubtotal?: number | null;
+  /** Résultat du contrôle anti-fraude : une récompense suspecte est créée bloquée (ON_HOLD). */
+  fraudAssessment?: FraudAssessment | null;
+  tx?: Prisma.TransactionClient;
 };
 
-export async function createPendingReward({ referrerId, referralId, settings, currency = "EUR", workshopProductId, workshopProductTitle }: RewardInput) {
-  return prisma.reward.create({
+/**
+ * Rang du prochain parrainage réussi du parrain : les récompenses annulées (clawback)
+ * ne comptent pas comme des parrainages réussis.
+ */
+async function getNextReferralRank(referrerId: string, client: Prisma.TransactionClient = prisma) {
+  const successfulReferrals = await client.reward.count({
+    where: { referrerId, status: { not: RewardStatus.CANCELLED } },
+  });
+
+  return successfulReferrals + 1;
+}
+
+type RewardAmount = Pick<
+  Prisma.RewardUncheckedCreateInput,
+  "amount" | "tierMinReferrals" | "tierMaxReferrals" | "orderSubtotal" | "cashbackPercentage"
+>;
+
+/**
+ * Montant de la récompense : pourcentage du sous-total si le code a été émis en mode pourcentage,
+ * sinon palier correspondant au rang du parrainage ou, à défaut, montant fixe des paramètres.
+ */
+function resolveRewardAmount({
+  referrerId,
+  referralRank,
+  settings,
+  cashbackTerms,
+  orderSubtotal,
+}: {
+  referrerId: string;
+  referralRank: number;
+  settings: ReferralSettings;
+  cashbackTerms?: CashbackTerms | null;
+  orderSubtotal?: number | null;
+}): RewardAmount {
+  if (cashbackTerms?.mode === CashbackMode.PERCENTAGE) {
+    if (orderSubtotal === null || orderSubtotal === undefined || !Number.isFinite(orderSubtotal)) {
+      throw new Error("Sous-total de la commande inconnu, impossible de calculer le cashback en pourcentage.");
+    }
+
+    const amount = computePercentageCashback(orderSubtotal, cashbackTerms);
+
+    console.log(
+      `ℹ️ Cashback en pourcentage pour le parrain ${referrerId} : ${amount} (${cashbackTerms.value * 100} % de ${orderSubtotal})`,
+    );
+
+    return { amount, orderSubtotal, cashbackPercentage: cashbackTerms.value };
+  }
+
+  const tier = resolveCashbackTier(settings.cashbackTiers, referralRank);
+
+  if (!tier) {
+    return { amount: settings.cashbackAmount };
+  }
+
+  console.log(
+    `ℹ️ Palier de cashback appliqué au parrain ${referrerId} : ${tier.amount} (parrainage n°${referralRank}, palier à partir de ${tier.minReferrals})`,
+  );
+
+  return {
+    amount: tier.amount,
+    tierMinReferrals: tier.minReferrals,
+    tierMaxReferrals: tier.maxReferrals,
+  };
+}
+
+export async function createPendingReward({
+  shopDomain,
+  referrerId,
+  referralId,
+  settings,
+  currency = "EUR",
+  workshopProductId,
+  workshopProductTitle,
+  cashbackTerms,
+  orderSubtotal,
+  fraudAssessment,
+  tx,
+}: RewardInput) {
+  const client = tx ?? prisma;
+  const referralRank = await getNextReferralRank(referrerId, client);
+  const status = fraudAssessment?.suspicious ? RewardStatus.ON_HOLD : RewardStatus.PENDING;
+
+  const reward = await client.reward.create({
     data: {
+      shop: shopDomain,
       referrerId,
       referralId,
-      amount: settings.cashbackAmount,
+      referralRank,
+      ...resolveRewardAmount({ referrerId, referralRank, settings, cashbackTerms, orderSubtotal }),
       currency,
-      status: RewardStatus.PENDING,
+      status,
+      payableAt: computeRewardPayableAt(settings.rewardHoldDays),
       workshopProductId: workshopProductId ?? undefined,
       workshopProductTitle: workshopProductTitle ?? undefined,
+      fraudScore: fraudAssessment?.score ?? undefined,
+      fraudSignals: fraudAssessment?.signals.length ? { create: fraudAssessment.signals } : undefined,
+      transitions: {
+        create: {
+          toStatus: status,
+          reason:
+            status === RewardStatus.ON_HOLD && fraudAssessment
+              ? `Récompense créée et bloquée. ${describeFraudAssessment(fraudAssessment)}`
+              : "Récompense créée",
+          actor: "system",
+        },
+      },
     },
   });
+
+  if (status === RewardStatus.ON_HOLD) {
+    console.warn(`⚠️ Récompense ${reward.id} du parrain ${referrerId} bloquée pour suspicion de fraude`);
+  }
+
+  return reward;
 }
 
-export async function markRewardAsPaid(rewardId: string) {
-  return prisma.reward.update({
-    where: { id: rewardId },
+type TransitionRewardOptions = {
+  reason?: string | null;
+  actor?: string | null;
+  /** Boutique de l'administrateur : une récompense d'une autre boutique est introuvable. */
+  shopDomain?: string;
+  data?: Prisma.RewardUncheckedUpdateManyInput;
+  tx?: Prisma.TransactionClient;
+};
+
+/**
+ * Fait passer une récompense dans un nouveau statut en respectant les transitions autorisées
+ * (voir REWARD_TRANSITIONS) et enregistre le changement dans l'historique.
+ */
+export async function transitionReward(
+  rewardId: string,
+  toStatus: RewardStatus,
+  { reason, actor, shopDomain, data, tx }: TransitionRewardOptions = {},
+) {
+  const run = async (client: Prisma.TransactionClient) => {
+    const reward = await client.reward.findUnique({
+      where: { id: rewardId, ...(shopDomain ? { shop: shopDomain } : {}) },
+    });
+
+    if (!reward) {
+      throw new Error("Récompense introuvable.");
+    }
+
+    if (!canTransitionReward(reward.status, toStatus)) {
+      throw new Error(
+        `Transition impossible : ${REWARD_STATUS_LABELS[reward.status]} → ${REWARD_STATUS_LABELS[toStatus]}.`,
+      );
+    }
+
+    // Seul le versement en cours peut conclure une récompense réservée (payée ou en erreur)
+    const settlesPayout = toStatus === RewardStatus.PAID || toStatus === RewardStatus.FAILED;
+    if (reward.payoutClaimedAt && !settlesPayout && !isPayoutClaimStale(reward.payoutClaimedAt)) {
+      throw new Error(PAYOUT_IN_PROGRESS_MESSAGE);
+    }
+
+    // Garde sur le statut courant et la réservation pour ne pas écraser une transition ou un versement concurrent
+    const updated = await client.reward.updateMany({
+      where: { id: rewardId, status: reward.status, payoutClaimedAt: reward.payoutClaimedAt },
+      data: {
+        ...data,
+        status: toStatus,
+        ...(toStatus === RewardStatus.PAID ? {} : { payoutClaimedAt: null }),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new Error("La récompense a été modifiée entre-temps, veuillez réessayer.");
+    }
+
+    await client.rewardTransition.create({
+      data: {
+        rewardId,
+        fromStatus: reward.status,
+        toStatus,
+        reason: reason ?? null,
+        actor: actor ?? null,
+      },
+    });
+
+    console.log(`🔀 Récompense ${rewardId} : ${reward.status} → ${toStatus}${reason ? ` (${reason})` : ""}`);
+
+    return client.reward.findUniqueOrThrow({ where: { id: rewardId } });
+  };
+
+  return tx ? run(tx) : prisma.$transaction(run);
+}
+
+type RewardActionOptions = Pick<TransitionRewardOptions, "reason" | "actor" | "shopDomain">;
+
+function isPayoutClaimStale(claimedAt: Date, now = new Date()) {
+  return claimedAt.getTime() < now.getTime() - STALE_PAYOUT_CLAIM_MS;
+}
+
+export async function approveReward(rewardId: string, options: RewardActionOptions = {}) {
+  return transitionReward(rewardId, RewardStatus.APPROVED, options);
+}
+
+export async function holdReward(rewardId: string, options: RewardActionOptions = {}) {
+  return transitionReward(rewardId, RewardStatus.ON_HOLD, options);
+}
+
+export async function releaseReward(rewardId: string, options: RewardActionOptions = {}) {
+  return transitionReward(rewardId, RewardStatus.PENDING, options);
+}
+
+export async function cancelReward(rewardId: string, options: RewardActionOptions = {}) {
+  return transitionReward(rewardId, RewardStatus.CANCELLED, options);
+}
+
+type MarkRewardAsPaidOptions = RewardActionOptions & {
+  payoutBatchId?: string | null;
+  payoutMethod?: PayoutMethod | null;
+  payoutReference?: string | null;
+};
+
+export async function markRewardAsPaid(
+  rewardId: string,
+  { payoutBatchId, payoutMethod, payoutReference, ...options }: MarkRewardAsPaidOptions = {},
+) {
+  return transitionReward(rewardId, RewardStatus.PAID, {
+    ...options,
     data: {
-      status: RewardStatus.PAID,
       paidAt: new Date(),
+      payoutBatchId: payoutBatchId ?? undefined,
+      payoutMethod: payoutMethod ?? undefined,
+      payoutReference: payoutReference ?? undefined,
     },
   });
 }
 
-export async function listRewards(limit = 100) {
+export async function setRewardPayoutMethod(shopDomain: string, rewardId: string, payoutMethod: PayoutMethod | null) {
+  const reward = await prisma.reward.findUnique({ where: { id: rewardId, shop: shopDomain } });
+
+  if (!reward) {
+    throw new Error("Récompense introuvable.");
+  }
+
+  if (!PAYABLE_REWARD_STATUSES.includes(reward.status) && reward.status !== RewardStatus.ON_HOLD) {
+    throw new Error("Le mode de versement ne peut plus être modifié pour cette récompense.");
+  }
+
+  if (reward.payoutBatchId) {
+    throw new Error(PENDING_TRANSFER_MESSAGE);
+  }
+
+  return prisma.reward.update({
+    where: { id: rewardId },
+    data: { payoutMethod },
+  });
+}
+
+export async function markRewardAsFailed(rewardId: string, options: RewardActionOptions = {}) {
+  return transitionReward(rewardId, RewardStatus.FAILED, options);
+}
+
+export async function listRewardTransitions(rewardId: string) {
+  return prisma.rewardTransition.findMany({
+    where: { rewardId },
+    orderBy: { createdAt: "asc" },
+  });
+}
+
+type ListRewardsOptions = {
+  status?: RewardStatus | null;
+};
+
+export async function listRewards(shopDomain: string, limit = 100, { status }: ListRewardsOptions = {}) {
   return prisma.reward.findMany({
+    where: { shop: shopDomain, ...(status ? { status } : {}) },
     include: {
       referrer: true,
       referral: true,
+      transitions: {
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
     },
     orderBy: { createdAt: "desc" },
     take: limit,
   });
 }
 
-export async function getRewardStats() {
+export async function countRewardsByStatus(shopDomain: string) {
+  const groups = await prisma.reward.groupBy({
+    by: ["status"],
+    where: { shop: shopDomain },
+    _count: { _all: true },
+  });
+
+  const counts: Record<RewardStatus, number> = {
+    PENDING: 0,
+    APPROVED: 0,
+    ON_HOLD: 0,
+    PAID: 0,
+    FAILED: 0,
+    CANCELLED: 0,
+  };
+
+  for (const group of groups) {
+    counts[group.status] = group._count._all;
+  }
+
+  return counts;
+}
+
+export async function getRewardStats(shopDomain: string) {
   const [pending, paid, total] = await Promise.all([
     prisma.reward.aggregate({
-      where: { status: RewardStatus.PENDING },
+      where: { shop: shopDomain, status: RewardStatus.PENDING },
       _count: { _all: true },
       _sum: { amount: true },
     }),
     prisma.reward.aggregate({
-      where: { status: RewardStatus.PAID },
+      where: { shop: shopDomain, status: RewardStatus.PAID },
       _count: { _all: true },
       _sum: { amount: true },
     }),
     prisma.reward.aggregate({
+      where: { shop: shopDomain },
       _count: { _all: true },
       _sum: { amount: true },
     }),
@@ -82,10 +394,11 @@ export async function getRewardStats() {
  * Calcule le total des refunds déjà effectués pour un code donné (via originOrderGid)
  * En utilisant les rewards PAYED liés aux codes qui ont le même originOrderGid
  */
-export async function getTotalRefundedForCode(originOrderGid: string): Promise<number> {
+export async function getTotalRefundedForCode(shopDomain: string, originOrderGid: string): Promise<number> {
   // Trouver tous les codes avec le même originOrderGid
   const codesWithSameOrigin = await prisma.code.findMany({
     where: {
+      shop: shopDomain,
       originOrderGid: originOrderGid,
     },
     select: {
@@ -99,10 +412,11 @@ export async function getTotalRefundedForCode(originOrderGid: string): Promise<n
 
   const codeIds = codesWithSameOrigin.map(c => c.id);
 
-  // Calculer le total des rewards PAYED pour ces codes
+  // Calculer le total des rewards PAYED par refund pour ces codes (le store credit ne touche pas la commande)
   const result = await prisma.reward.aggregate({
     where: {
       status: RewardStatus.PAID,
+      payoutMethod: PayoutMethod.ORDER_REFUND,
       referral: {
         codeId: {
           in: codeIds,
@@ -117,16 +431,43 @@ export async function getTotalRefundedForCode(originOrderGid: string): Promise<n
   return result._sum.amount ?? 0;
 }
 
+/**
+ * Levée quand le refund dépasserait `maxRefundPercentage` de la commande d'origine.
+ * La récompense reste dans son statut actuel.
+ */
+export class RefundLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RefundLimitError";
+  }
+}
+
+/**
+ * Levée quand une autre exécution verse déjà la récompense (lot planifié, lot manuel, clic concurrent).
+ * La récompense reste dans son statut actuel.
+ */
+export class PayoutInProgressError extends Error {
+  constructor(message = PAYOUT_IN_PROGRESS_MESSAGE) {
+    super(message);
+    this.name = "PayoutInProgressError";
+  }
+}
+
 export type ProcessRewardRefundResult = {
   rewardId: string;
-  totalRefunded: number;
+  payoutMethod: PayoutMethod;
+  totalRefunded: number | null;
   maxRefundAllowed: number | null;
 };
 
 type ProcessRewardRefundParams = {
   rewardId: string;
-  shopDomain?: string | null;
+  shopDomain: string;
   orderGidOverride?: string | null;
+  actor?: string | null;
+  payoutBatchId?: string | null;
+  /** Mode de versement à utiliser ; par défaut celui de la récompense, sinon celui des paramètres. */
+  payoutMethod?: PayoutMethod | null;
 };
 
 function extractNumericId(gid: string): string {
@@ -134,13 +475,226 @@ function extractNumericId(gid: string): string {
   return segments[segments.length - 1] || gid;
 }
 
+type PayoutReward = Prisma.RewardGetPayload<{
+  include: { referral: { include: { code: true } }; referrer: true };
+}>;
+
+type PayoutRequest = {
+  reward: PayoutReward;
+  settings: ReferralSettings;
+  shopDomain: string;
+  orderGidOverride?: string | null;
+};
+
+/**
+ * Versement vérifié et prêt à être exécuté.
+ */
+type PreparedPayout = {
+  maxRefundAllowed: number | null;
+  totalRefunded: number | null;
+  /** Effectue le versement chez Shopify et retourne sa référence. */
+  execute: () => Promise<string | null>;
+  /** Prévient le parrain une fois la récompense marquée comme payée. */
+  notify: () => Promise<void>;
+};
+
+/**
+ * Un mode de versement : `prepare` fait les vérifications (sans effet chez Shopify)
+ * et lève une erreur si le versement est impossible, la récompense restant alors inchangée.
+ */
+export type PayoutProvider = {
+  method: PayoutMethod;
+  paidReason: string;
+  prepare: (request: PayoutRequest) => Promise<PreparedPayout>;
+};
+
+function notifyCashbackConfirmation(reward: PayoutReward) {
+  return sendCashbackConfirmationEmail({
+    shopDomain: reward.shop,
+    referrerId: reward.referrerId,
+    referrerEmail: reward.referrer.email,
+    firstName: reward.referrer.firstName,
+    lastName: reward.referrer.lastName,
+    cashbackAmount: reward.amount,
+    refereeEmail: reward.referral?.refereeEmail ?? null,
+  });
+}
+
+const orderRefundProvider: PayoutProvider = {
+  method: PayoutMethod.ORDER_REFUND,
+  paidReason: "Refund Shopify effectué",
+  async prepare({ reward, settings, shopDomain, orderGidOverride }) {
+    const originOrderGid = orderGidOverride ?? reward.referral?.code?.originOrderGid ?? null;
+
+    if (!originOrderGid) {
+      throw new Error(
+        "Impossible de déclencher le refund : aucun order Shopify sélectionné ou associé.",
+      );
+    }
+
+    if (orderGidOverride && reward.referral?.code && !reward.referral.code.originOrderGid) {
+      await prisma.code.update({
+        where: { id: reward.referral.code.id },
+        data: {
+          originOrderGid: orderGidOverride,
+          originOrderId: extractNumericId(orderGidOverride),
+        },
+      });
+    }
+
+    if (orderGidOverride) {
+      console.log(
+        `🔁 Refund override: utilisation de la commande ${orderGidOverride} pour la reward ${reward.id}`,
+      );
+    } else if (reward.referral?.code?.originOrderGid) {
+      console.log(
+        `🔁 Refund via commande d'origine ${reward.referral.code.originOrderGid} pour la reward ${reward.id}`,
+      );
+    }
+
+    const [orderTotalAmount, totalRefundedBefore] = await Promise.all([
+      getOrderTotalAmount(originOrderGid, shopDomain),
+      getTotalRefundedForCode(shopDomain, originOrderGid),
+    ]);
+
+    const maxRefundAllowed = orderTotalAmount
+      ? orderTotalAmount * settings.maxRefundPercentage
+      : null;
+
+    if (
+      maxRefundAllowed !== null &&
+      totalRefundedBefore + reward.amount > maxRefundAllowed
+    ) {
+      const refundLeft = Math.max(0, maxRefundAllowed - totalRefundedBefore);
+      throw new RefundLimitError(
+        `Limite de refund atteinte : il reste ${refundLeft.toFixed(2)} ${reward.currency} disponibles.`,
+      );
+    }
+
+    return {
+      maxRefundAllowed,
+      totalRefunded: totalRefundedBefore + reward.amount,
+      execute: async () => {
+        const refund = await createReferralRefund({
+          orderGid: originOrderGid,
+          amount: reward.amount,
+          currency: reward.currency,
+          shopDomain,
+          note: "Remboursement manuel - Parrainage",
+        });
+        return refund?.id ?? null;
+      },
+      notify: () => notifyCashbackConfirmation(reward),
+    };
+  },
+};
+
+const storeCreditProvider: PayoutProvider = {
+  method: PayoutMethod.STORE_CREDIT,
+  paidReason: "Store credit Shopify crédité",
+  async prepare({ reward, shopDomain }) {
+    console.log(`🎁 Versement en store credit pour la reward ${reward.id}`);
+
+    return {
+      maxRefundAllowed: null,
+      totalRefunded: null,
+      execute: async () => {
+        const transaction = await creditStoreCreditAccount({
+          shopifyCustomerId: reward.referrer.shopifyCustomerId,
+          amount: reward.amount,
+          currency: reward.currency,
+          shopDomain,
+        });
+        return transaction.id;
+      },
+      notify: () => notifyCashbackConfirmation(reward),
+    };
+  },
+};
+
+const giftCardProvider: PayoutProvider = {
+  method: PayoutMethod.GIFT_CARD,
+  paidReason: "Carte cadeau Shopify créée",
+  async prepare({ reward, shopDomain }) {
+    const referrerEmail = reward.referrer.email;
+
+    // Le code n'est communiqué que par email : sans adresse, la carte serait inutilisable
+    if (!referrerEmail) {
+      throw new Error("Impossible de créer une carte cadeau : le parrain n'a pas d'adresse email.");
+    }
+
+    console.log(`🎁 Versement en carte cadeau pour la reward ${reward.id}`);
+
+    let giftCard: CreatedGiftCard | null = null;
+
+    return {
+      maxRefundAllowed: null,
+      totalRefunded: null,
+      execute: async () => {
+        giftCard = await createReferralGiftCard({
+          shopifyCustomerId: reward.referrer.shopifyCustomerId,
+          amount: reward.amount,
+          shopDomain,
+        });
+        return giftCard.id;
+      },
+      notify: async () => {
+        const card = giftCard;
+        if (!card) return;
+
+        try {
+          await sendGiftCardRewardEmail({
+            shopDomain,
+            referrerId: reward.referrerId,
+            referrerEmail,
+            firstName: reward.referrer.firstName,
+            lastName: reward.referrer.lastName,
+            cashbackAmount: reward.amount,
+            currency: reward.currency,
+            giftCardCode: card.code,
+            refereeEmail: reward.referral?.refereeEmail ?? null,
+          });
+        } catch (error) {
+          console.error(
+            `❌ Carte cadeau •••• ${card.lastCharacters} créée mais non envoyée, à renvoyer depuis l'admin Shopify`,
+          );
+          throw error;
+        }
+      },
+    };
+  },
+};
+
+// Le virement est exécuté par la banque : voir createBankTransferBatch / confirmBankTransferBatch
+const bankTransferProvider: PayoutProvider = {
+  method: PayoutMethod.BANK_TRANSFER,
+  paidReason: "Virement SEPA confirmé",
+  async prepare() {
+    throw new Error("Le virement bancaire se verse par lot SEPA depuis la page Versements.");
+  },
+};
+
+const payoutProviders: Record<PayoutMethod, PayoutProvider> = {
+  ORDER_REFUND: orderRefundProvider,
+  STORE_CREDIT: storeCreditProvider,
+  GIFT_CARD: giftCardProvider,
+  BANK_TRANSFER: bankTransferProvider,
+};
+
+export function getPayoutProvider(method: PayoutMethod) {
+  return payoutProviders[method];
+}
+
 export async function processRewardRefund({
   rewardId,
   shopDomain,
   orderGidOverride,
+  actor,
+  payoutBatchId,
+  payoutMethod: payoutMethodOverride,
 }: ProcessRewardRefundParams): Promise<ProcessRewardRefundResult> {
   const reward = await prisma.reward.findUnique({
-    where: { id: rewardId },
+    where: { id: rewardId, shop: shopDomain },
     include: {
       referral: {
         include: {
@@ -155,90 +709,77 @@ export async function processRewardRefund({
     throw new Error("Récompense introuvable.");
   }
 
-  if (reward.status !== RewardStatus.PENDING) {
-    throw new Error("Seules les récompenses en attente peuvent être remboursées.");
+  if (!PAYABLE_REWARD_STATUSES.includes(reward.status)) {
+    throw new Error("Seules les récompenses en attente, approuvées ou en erreur peuvent être remboursées.");
   }
 
-  const originOrderGid = orderGidOverride ?? reward.referral?.code?.originOrderGid;
-
-  if (!originOrderGid) {
+  if (reward.payableAt && isRewardInHoldPeriod(reward.payableAt)) {
     throw new Error(
-      "Impossible de déclencher le refund : aucun order Shopify sélectionné ou associé.",
+      `Période de rétention en cours : la récompense sera payable à partir du ${payableDateFormatter.format(reward.payableAt)}.`,
     );
   }
 
-  if (orderGidOverride && reward.referral?.code && !reward.referral.code.originOrderGid) {
-    await prisma.code.update({
-      where: { id: reward.referral.code.id },
-      data: {
-        originOrderGid: orderGidOverride,
-        originOrderId: extractNumericId(orderGidOverride),
-      },
-    });
+  if (reward.payoutBatchId) {
+    throw new Error(PENDING_TRANSFER_MESSAGE);
   }
 
-  if (orderGidOverride) {
-    console.log(
-      `🔁 Refund override: utilisation de la commande ${orderGidOverride} pour la reward ${reward.id}`,
-    );
-  } else if (reward.referral?.code?.originOrderGid) {
-    console.log(
-      `🔁 Refund via commande d'origine ${reward.referral.code.originOrderGid} pour la reward ${reward.id}`,
-    );
+  if (reward.payoutClaimedAt) {
+    throw new PayoutInProgressError();
   }
 
-  const [settings, orderTotalAmount, totalRefundedBefore] = await Promise.all([
-    getReferralSettings(),
-    getOrderTotalAmount(originOrderGid, shopDomain),
-    getTotalRefundedForCode(originOrderGid),
-  ]);
+  const settings = await getReferralSettings(shopDomain);
+  const provider = getPayoutProvider(
+    payoutMethodOverride ?? reward.payoutMethod ?? settings.defaultPayoutMethod,
+  );
 
-  const maxRefundAllowed = orderTotalAmount
-    ? orderTotalAmount * settings.maxRefundPercentage
-    : null;
+  const payout = await provider.prepare({ reward, settings, shopDomain, orderGidOverride });
 
-  if (
-    maxRefundAllowed !== null &&
-    totalRefundedBefore + reward.amount > maxRefundAllowed
-  ) {
-    const refundLeft = Math.max(0, maxRefundAllowed - totalRefundedBefore);
-    throw new Error(
-      `Limite de refund atteinte : il reste ${refundLeft.toFixed(2)} ${reward.currency} disponibles.`,
-    );
+  if (reward.status !== RewardStatus.APPROVED) {
+    await approveReward(reward.id, { reason: "Approuvée au déclenchement du refund", actor });
   }
 
-  await createReferralRefund({
-    orderGid: originOrderGid,
-    amount: reward.amount,
-    currency: reward.currency,
-    shopDomain,
-    note: "Remboursement manuel - Parrainage",
+  // Réservation atomique : deux exécutions concurrentes ne peuvent pas verser la même récompense
+  const claimed = await prisma.reward.updateMany({
+    where: { id: reward.id, status: RewardStatus.APPROVED, payoutBatchId: null, payoutClaimedAt: null },
+    data: { payoutClaimedAt: new Date() },
   });
 
-  await markRewardAsPaid(reward.id);
+  if (claimed.count === 0) {
+    throw new PayoutInProgressError();
+  }
 
-  const totalRefundedAfter = totalRefundedBefore + reward.amount;
+  let payoutReference: string | null;
 
   try {
-    await sendCashbackConfirmationEmail({
-      referrerId: reward.referrerId,
-      referrerEmail: reward.referrer.email,
-      firstName: reward.referrer.firstName,
-      lastName: reward.referrer.lastName,
-      cashbackAmount: reward.amount,
-      refereeEmail: reward.referral?.refereeEmail ?? null,
-    });
+    payoutReference = await payout.execute();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await markRewardAsFailed(reward.id, { reason: message, actor: "system" });
+    throw error;
+  }
+
+  await markRewardAsPaid(reward.id, {
+    reason: provider.paidReason,
+    actor,
+    payoutBatchId,
+    payoutMethod: provider.method,
+    payoutReference,
+  });
+
+  try {
+    await payout.notify();
   } catch (error) {
     console.error(
-      `❌ Erreur lors de l'envoi de l'email de confirmation cashback pour la récompense ${reward.id}`,
+      `❌ Erreur lors de l'envoi de l'email de versement pour la récompense ${reward.id}`,
       error,
     );
   }
 
   return {
     rewardId: reward.id,
-    totalRefunded: totalRefundedAfter,
-    maxRefundAllowed,
+    payoutMethod: provider.method,
+    totalRefunded: payout.totalRefunded,
+    maxRefundAllowed: payout.maxRefundAllowed,
   };
 }
 
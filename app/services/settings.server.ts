@@ -1,122 +1,406 @@
+import type { WorkshopProgram } from "@prisma/client";
 import prisma from "app/db.server";
+import { sortCashbackTiers, type CashbackModeKey, type CashbackTier } from "app/models/cashback";
+import type { CodeReusePolicyKey, WorkshopCodeModeKey } from "app/models/purchase";
+import type { PayoutMethodKey } from "app/models/reward";
+import { getWorkshopProgram } from "./workshopPrograms.server";
 
 export type ReferralSettings = {
   discountPercentage: number;
   cashbackAmount: number;
+  /** FIXED : cashbackAmount (ou paliers) ; PERCENTAGE : cashbackPercentage du sous-total, borné par min/max. */
+  cashbackMode: CashbackModeKey;
+  cashbackPercentage: number;
+  cashbackMinAmount: number | null;
+  cashbackMaxAmount: number | null;
   codeValidityDays: number;
   appliesOncePerCustomer: boolean;
   maxUsagePerCode: number;
   maxRefundPercentage: number;
+  rewardHoldDays: number;
+  autoPayoutEnabled: boolean;
+  defaultPayoutMethod: PayoutMethodKey;
+  /** Compte émetteur des virements SEPA (voir bankTransfers.server.ts). */
+  sepaDebtorName: string | null;
+  sepaDebtorIban: string | null;
+  sepaDebtorBic: string | null;
   customerSegmentIds: string[];
+  /** Produits ou collections (GID Shopify) auxquels la remise filleul s'applique ; vides = toute la boutique. */
+  discountProductIds: string[];
+  discountCollectionIds: string[];
+  /** Paliers de cashback par nombre de parrainages réussis ; vide = cashbackAmount pour tous. */
+  cashbackTiers: CashbackTier[];
+  /** Commande avec plusieurs workshops : un seul code pour le parrain ou un code par workshop. */
+  workshopCodeMode: WorkshopCodeModeKey;
+  /** Nouvel achat d'un parrain qui a déjà un code : conserver, prolonger ou générer un nouveau code. */
+  codeReusePolicy: CodeReusePolicyKey;
+  /**
+   * Commandes qui donnent un code au client : au moins un produit listé, d'une collection listée
+   * ou portant un tag listé (listes vides = tous les produits), pour un sous-total minimum.
+   */
+  qualifyingProductIds: string[];
+  qualifyingCollectionIds: string[];
+  qualifyingProductTags: string[];
+  minimumQualifyingOrderAmount: number | null;
+  /** Désactive localement tous les codes lorsque l'app est désinstallée. */
+  deactivateCodesOnUninstall: boolean;
+  /** Rappel envoyé au parrain N jours avant l'expiration de son code (0 = pas de rappel). */
+  codeExpiryReminderDays: number;
 };
 
 const DEFAULT_SETTINGS: ReferralSettings = {
   discountPercentage: 0.1,
   cashbackAmount: 20,
+  cashbackMode: "FIXED",
+  cashbackPercentage: 0.1,
+  cashbackMinAmount: null,
+  cashbackMaxAmount: null,
   codeValidityDays: 30,
   appliesOncePerCustomer: true,
   maxUsagePerCode: 0,
   maxRefundPercentage: 1.0, // 100% par défaut (pas de limite)
+  rewardHoldDays: 14, // délai de rétractation/remboursement des workshops
+  autoPayoutEnabled: false,
+  defaultPayoutMethod: "ORDER_REFUND",
+  sepaDebtorName: null,
+  sepaDebtorIban: null,
+  sepaDebtorBic: null,
   customerSegmentIds: [],
+  discountProductIds: [],
+  discountCollectionIds: [],
+  cashbackTiers: [],
+  workshopCodeMode: "SINGLE_CODE",
+  codeReusePolicy: "EXTEND_EXISTING",
+  qualifyingProductIds: [],
+  qualifyingCollectionIds: [],
+  qualifyingProductTags: [],
+  minimumQualifyingOrderAmount: null,
+  deactivateCodesOnUninstall: false,
+  codeExpiryReminderDays: 7,
 };
 
-const SETTINGS_ID = 1;
+/**
+ * Paramètres effectifs pour un workshop : paramètres globaux surchargés par son programme.
+ */
+export type ResolvedReferralSettings = ReferralSettings & {
+  /** false si le programme du workshop désactive la génération de codes. */
+  generatesCodes: boolean;
+  hasWorkshopProgram: boolean;
+};
 
-function parseSegmentIds(raw: string | null | undefined) {
+function parseIdList(raw: string | null | undefined, field: string) {
   if (!raw) return [] as string[];
 
   try {
     const parsed = JSON.parse(raw);
-    return Array.isArray(parsed) ? parsed.filter((segment): segment is string => typeof segment === "string") : [];
+    return Array.isArray(parsed) ? parsed.filter((id): id is string => typeof id === "string") : [];
+  } catch (error) {
+    console.warn(`Impossible de parser ${field} depuis AppSetting`, error);
+    return [];
+  }
+}
+
+function serializeIdList(ids: string[]) {
+  return JSON.stringify(ids);
+}
+
+function parseCashbackTiers(raw: string | null | undefined) {
+  if (!raw) return [] as CashbackTier[];
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+
+    return sortCashbackTiers(
+      parsed.filter(
+        (tier): tier is CashbackTier =>
+          Number.isInteger(tier?.minReferrals) && tier.minReferrals >= 1 && Number.isFinite(tier?.amount) && tier.amount >= 0,
+      ),
+    );
   } catch (error) {
-    console.warn("Impossible de parser customerSegmentIds depuis AppSetting", error);
+    console.warn("Impossible de parser cashbackTiers depuis AppSetting", error);
     return [];
   }
 }
 
-function serializeSegmentIds(segmentIds: string[]) {
-  return JSON.stringify(segmentIds);
+function serializeCashbackTiers(tiers: CashbackTier[]) {
+  return JSON.stringify(sortCashbackTiers(tiers));
 }
 
-export async function getReferralSettings(): Promise<ReferralSettings> {
-  const settings = await prisma.appSetting.findUnique({ where: { id: SETTINGS_ID } });
+/** Paramètres de la boutique, créés avec les valeurs par défaut à la première lecture. */
+async function loadGlobalReferralSettings(shopDomain: string): Promise<ReferralSettings> {
+  const settings = await prisma.appSetting.findUnique({ where: { shop: shopDomain } });
   
 
   if (!settings) {
     const created = await prisma.appSetting.create({
       data: {
-      id: SETTINGS_ID,
+      shop: shopDomain,
       discountPercentage: DEFAULT_SETTINGS.discountPercentage,
       cashbackAmount: DEFAULT_SETTINGS.cashbackAmount,
+      cashbackMode: DEFAULT_SETTINGS.cashbackMode,
+      cashbackPercentage: DEFAULT_SETTINGS.cashbackPercentage,
+      cashbackMinAmount: DEFAULT_SETTINGS.cashbackMinAmount,
+      cashbackMaxAmount: DEFAULT_SETTINGS.cashbackMaxAmount,
       codeValidityDays: DEFAULT_SETTINGS.codeValidityDays,
       appliesOncePerCustomer: DEFAULT_SETTINGS.appliesOncePerCustomer,
       maxUsagePerCode: DEFAULT_SETTINGS.maxUsagePerCode,
       maxRefundPercentage: DEFAULT_SETTINGS.maxRefundPercentage,
-      customerSegmentIds: serializeSegmentIds(DEFAULT_SETTINGS.customerSegmentIds),
+      rewardHoldDays: DEFAULT_SETTINGS.rewardHoldDays,
+      autoPayoutEnabled: DEFAULT_SETTINGS.autoPayoutEnabled,
+      defaultPayoutMethod: DEFAULT_SETTINGS.defaultPayoutMethod,
+      sepaDebtorName: DEFAULT_SETTINGS.sepaDebtorName,
+      sepaDebtorIban: DEFAULT_SETTINGS.sepaDebtorIban,
+      sepaDebtorBic: DEFAULT_SETTINGS.sepaDebtorBic,
+      customerSegmentIds: serializeIdList(DEFAULT_SETTINGS.customerSegmentIds),
+      discountProductIds: serializeIdList(DEFAULT_SETTINGS.discountProductIds),
+      discountCollectionIds: serializeIdList(DEFAULT_SETTINGS.discountCollectionIds),
+      cashbackTiers: serializeCashbackTiers(DEFAULT_SETTINGS.cashbackTiers),
+      workshopCodeMode: DEFAULT_SETTINGS.workshopCodeMode,
+      codeReusePolicy: DEFAULT_SETTINGS.codeReusePolicy,
+      qualifyingProductIds: serializeIdList(DEFAULT_SETTINGS.qualifyingProductIds),
+      qualifyingCollectionIds: serializeIdList(DEFAULT_SETTINGS.qualifyingCollectionIds),
+      qualifyingProductTags: serializeIdList(DEFAULT_SETTINGS.qualifyingProductTags),
+      minimumQualifyingOrderAmount: DEFAULT_SETTINGS.minimumQualifyingOrderAmount,
+      deactivateCodesOnUninstall: DEFAULT_SETTINGS.deactivateCodesOnUninstall,
+      codeExpiryReminderDays: DEFAULT_SETTINGS.codeExpiryReminderDays,
       },
     });
 
     return {
       discountPercentage: created.discountPercentage,
       cashbackAmount: created.cashbackAmount,
+      cashbackMode: created.cashbackMode,
+      cashbackPercentage: created.cashbackPercentage,
+      cashbackMinAmount: created.cashbackMinAmount,
+      cashbackMaxAmount: created.cashbackMaxAmount,
       codeValidityDays: created.codeValidityDays,
       appliesOncePerCustomer: created.appliesOncePerCustomer,
       maxUsagePerCode: created.maxUsagePerCode,
       maxRefundPercentage: created.maxRefundPercentage ?? DEFAULT_SETTINGS.maxRefundPercentage,
+      rewardHoldDays: created.rewardHoldDays,
+      autoPayoutEnabled: created.autoPayoutEnabled,
+      defaultPayoutMethod: created.defaultPayoutMethod,
+      sepaDebtorName: created.sepaDebtorName,
+      sepaDebtorIban: created.sepaDebtorIban,
+      sepaDebtorBic: created.sepaDebtorBic,
       customerSegmentIds: DEFAULT_SETTINGS.customerSegmentIds,
+      discountProductIds: DEFAULT_SETTINGS.discountProductIds,
+      discountCollectionIds: DEFAULT_SETTINGS.discountCollectionIds,
+      cashbackTiers: DEFAULT_SETTINGS.cashbackTiers,
+      workshopCodeMode: created.workshopCodeMode,
+      codeReusePolicy: created.codeReusePolicy,
+      qualifyingProductIds: DEFAULT_SETTINGS.qualifyingProductIds,
+      qualifyingCollectionIds: DEFAULT_SETTINGS.qualifyingCollectionIds,
+      qualifyingProductTags: DEFAULT_SETTINGS.qualifyingProductTags,
+      minimumQualifyingOrderAmount: created.minimumQualifyingOrderAmount,
+      deactivateCodesOnUninstall: created.deactivateCodesOnUninstall,
+      codeExpiryReminderDays: created.codeExpiryReminderDays,
     };
   }
 
   return {
     discountPercentage: settings.discountPercentage,
     cashbackAmount: settings.cashbackAmount,
+    cashbackMode: settings.cashbackMode,
+    cashbackPercentage: settings.cashbackPercentage,
+    cashbackMinAmount: settings.cashbackMinAmount,
+    cashbackMaxAmount: settings.cashbackMaxAmount,
     codeValidityDays: settings.codeValidityDays,
     appliesOncePerCustomer: settings.appliesOncePerCustomer,
     maxUsagePerCode: settings.maxUsagePerCode,
     maxRefundPercentage: settings.maxRefundPercentage ?? DEFAULT_SETTINGS.maxRefundPercentage,
-    customerSegmentIds: parseSegmentIds(settings.customerSegmentIds),
+    rewardHoldDays: settings.rewardHoldDays,
+    autoPayoutEnabled: settings.autoPayoutEnabled,
+    defaultPayoutMethod: settings.defaultPayoutMethod,
+    sepaDebtorName: settings.sepaDebtorName,
+    sepaDebtorIban: settings.sepaDebtorIban,
+    sepaDebtorBic: settings.sepaDebtorBic,
+    customerSegmentIds: parseIdList(settings.customerSegmentIds, "customerSegmentIds"),
+    discountProductIds: parseIdList(settings.discountProductIds, "discountProductIds"),
+    discountCollectionIds: parseIdList(settings.discountCollectionIds, "discountCollectionIds"),
+    cashbackTiers: parseCashbackTiers(settings.cashbackTiers),
+    workshopCodeMode: settings.workshopCodeMode,
+    codeReusePolicy: settings.codeReusePolicy,
+    qualifyingProductIds: parseIdList(settings.qualifyingProductIds, "qualifyingProductIds"),
+    qualifyingCollectionIds: parseIdList(settings.qualifyingCollectionIds, "qualifyingCollectionIds"),
+    qualifyingProductTags: parseIdList(settings.qualifyingProductTags, "qualifyingProductTags"),
+    minimumQualifyingOrderAmount: settings.minimumQualifyingOrderAmount,
+    deactivateCodesOnUninstall: settings.deactivateCodesOnUninstall,
+    codeExpiryReminderDays: settings.codeExpiryReminderDays,
   };
 }
 
-export async function updateReferralSettings(partial: Partial<ReferralSettings>): Promise<ReferralSettings> {
-  const existing = await getReferralSettings();
+/**
+ * Un montant de cashback propre au workshop remplace le mode, le montant et les paliers globaux.
+ */
+function applyWorkshopProgram(settings: ReferralSettings, program: WorkshopProgram | null): ResolvedReferralSettings {
+  if (!program) {
+    return { ...settings, generatesCodes: true, hasWorkshopProgram: false };
+  }
+
+  return {
+    ...settings,
+    discountPercentage: program.discountPercentage ?? settings.discountPercentage,
+    codeValidityDays: program.codeValidityDays ?? settings.codeValidityDays,
+    ...(program.cashbackAmount !== null
+      ? { cashbackMode: "FIXED" as const, cashbackAmount: program.cashbackAmount, cashbackTiers: [] }
+      : {}),
+    generatesCodes: program.generatesCodes,
+    hasWorkshopProgram: true,
+  };
+}
+
+/**
+ * Paramètres de parrainage de la boutique, résolus pour le workshop `productId` (produit Shopify) s'il est fourni.
+ */
+export async function getReferralSettings(
+  shopDomain: string,
+  productId?: string | null,
+): Promise<ResolvedReferralSettings> {
+  const [settings, program] = await Promise.all([
+    loadGlobalReferralSettings(shopDomain),
+    productId ? getWorkshopProgram(shopDomain, productId) : Promise.resolve(null),
+  ]);
+
+  return applyWorkshopProgram(settings, program);
+}
+
+export async function updateReferralSettings(
+  shopDomain: string,
+  partial: Partial<ReferralSettings>,
+): Promise<ReferralSettings> {
+  const existing = await loadGlobalReferralSettings(shopDomain);
 
   const next: ReferralSettings = {
     discountPercentage: partial.discountPercentage !== undefined ? partial.discountPercentage : existing.discountPercentage,
     cashbackAmount: partial.cashbackAmount !== undefined ? partial.cashbackAmount : existing.cashbackAmount,
+    cashbackMode: partial.cashbackMode !== undefined ? partial.cashbackMode : existing.cashbackMode,
+    cashbackPercentage: partial.cashbackPercentage !== undefined ? partial.cashbackPercentage : existing.cashbackPercentage,
+    cashbackMinAmount: partial.cashbackMinAmount !== undefined ? partial.cashbackMinAmount : existing.cashbackMinAmount,
+    cashbackMaxAmount: partial.cashbackMaxAmount !== undefined ? partial.cashbackMaxAmount : existing.cashbackMaxAmount,
     codeValidityDays: partial.codeValidityDays !== undefined ? partial.codeValidityDays : existing.codeValidityDays,
     appliesOncePerCustomer: partial.appliesOncePerCustomer !== undefined ? partial.appliesOncePerCustomer : existing.appliesOncePerCustomer,
     maxUsagePerCode: partial.maxUsagePerCode !== undefined ? partial.maxUsagePerCode : existing.maxUsagePerCode,
     maxRefundPercentage: partial.maxRefundPercentage !== undefined ? partial.maxRefundPercentage : existing.maxRefundPercentage,
+    rewardHoldDays: partial.rewardHoldDays !== undefined ? partial.rewardHoldDays : existing.rewardHoldDays,
+    autoPayoutEnabled: partial.autoPayoutEnabled !== undefined ? partial.autoPayoutEnabled : existing.autoPayoutEnabled,
+    defaultPayoutMethod: partial.defaultPayoutMethod !== undefined ? partial.defaultPayoutMethod : existing.defaultPayoutMethod,
+    sepaDebtorName: partial.sepaDebtorName !== undefined ? partial.sepaDebtorName : existing.sepaDebtorName,
+    sepaDebtorIban: partial.sepaDebtorIban !== undefined ? partial.sepaDebtorIban : existing.sepaDebtorIban,
+    sepaDebtorBic: partial.sepaDebtorBic !== undefined ? partial.sepaDebtorBic : existing.sepaDebtorBic,
     customerSegmentIds: partial.customerSegmentIds !== undefined ? partial.customerSegmentIds : existing.customerSegmentIds,
+    discountProductIds: partial.discountProductIds !== undefined ? partial.discountProductIds : existing.discountProductIds,
+    discountCollectionIds: partial.discountCollectionIds !== undefined ? partial.discountCollectionIds : existing.discountCollectionIds,
+    cashbackTiers: partial.cashbackTiers !== undefined ? partial.cashbackTiers : existing.cashbackTiers,
+    workshopCodeMode: partial.workshopCodeMode !== undefined ? partial.workshopCodeMode : existing.workshopCodeMode,
+    codeReusePolicy: partial.codeReusePolicy !== undefined ? partial.codeReusePolicy : existing.codeReusePolicy,
+    qualifyingProductIds: partial.qualifyingProductIds !== undefined ? partial.qualifyingProductIds : existing.qualifyingProductIds,
+    qualifyingCollectionIds: partial.qualifyingCollectionIds !== undefined ? partial.qualifyingCollectionIds : existing.qualifyingCollectionIds,
+    qualifyingProductTags: partial.qualifyingProductTags !== undefined ? partial.qualifyingProductTags : existing.qualifyingProductTags,
+    minimumQualifyingOrderAmount: partial.minimumQualifyingOrderAmount !== undefined ? partial.minimumQualifyingOrderAmount : existing.minimumQualifyingOrderAmount,
+    deactivateCodesOnUninstall: partial.deactivateCodesOnUninstall !== undefined ? partial.deactivateCodesOnUninstall : existing.deactivateCodesOnUninstall,
+    codeExpiryReminderDays: partial.codeExpiryReminderDays !== undefined ? partial.codeExpiryReminderDays : existing.codeExpiryReminderDays,
   };
 
   await prisma.appSetting.upsert({
-    where: { id: SETTINGS_ID },
+    where: { shop: shopDomain },
     create: {
-      id: SETTINGS_ID,
+      shop: shopDomain,
       discountPercentage: next.discountPercentage,
       cashbackAmount: next.cashbackAmount,
+      cashbackMode: next.cashbackMode,
+      cashbackPercentage: next.cashbackPercentage,
+      cashbackMinAmount: next.cashbackMinAmount,
+      cashbackMaxAmount: next.cashbackMaxAmount,
       codeValidityDays: next.codeValidityDays,
       appliesOncePerCustomer: next.appliesOncePerCustomer,
       maxUsagePerCode: next.maxUsagePerCode,
       maxRefundPercentage: next.maxRefundPercentage,
-      customerSegmentIds: serializeSegmentIds(next.customerSegmentIds),
+      rewardHoldDays: next.rewardHoldDays,
+      autoPayoutEnabled: next.autoPayoutEnabled,
+      defaultPayoutMethod: next.defaultPayoutMethod,
+      sepaDebtorName: next.sepaDebtorName,
+      sepaDebtorIban: next.sepaDebtorIban,
+      sepaDebtorBic: next.sepaDebtorBic,
+      customerSegmentIds: serializeIdList(next.customerSegmentIds),
+      discountProductIds: serializeIdList(next.discountProductIds),
+      discountCollectionIds: serializeIdList(next.discountCollectionIds),
+      cashbackTiers: serializeCashbackTiers(next.cashbackTiers),
+      workshopCodeMode: next.workshopCodeMode,
+      codeReusePolicy: next.codeReusePolicy,
+      qualifyingProductIds: serializeIdList(next.qualifyingProductIds),
+      qualifyingCollectionIds: serializeIdList(next.qualifyingCollectionIds),
+      qualifyingProductTags: serializeIdList(next.qualifyingProductTags),
+      minimumQualifyingOrderAmount: next.minimumQualifyingOrderAmount,
+      deactivateCodesOnUninstall: next.deactivateCodesOnUninstall,
+      codeExpiryReminderDays: next.codeExpiryReminderDays,
     },
     update: {
       discountPercentage: next.discountPercentage,
       cashbackAmount: next.cashbackAmount,
+      cashbackMode: next.cashbackMode,
+      cashbackPercentage: next.cashbackPercentage,
+      cashbackMinAmount: next.cashbackMinAmount,
+      cashbackMaxAmount: next.cashbackMaxAmount,
       codeValidityDays: next.codeValidityDays,
       appliesOncePerCustomer: next.appliesOncePerCustomer,
       maxUsagePerCode: next.maxUsagePerCode,
       maxRefundPercentage: next.maxRefundPercentage,
-      customerSegmentIds: serializeSegmentIds(next.customerSegmentIds),
+      rewardHoldDays: next.rewardHoldDays,
+      autoPayoutEnabled: next.autoPayoutEnabled,
+      defaultPayoutMethod: next.defaultPayoutMethod,
+      sepaDebtorName: next.sepaDebtorName,
+      sepaDebtorIban: next.sepaDebtorIban,
+      sepaDebtorBic: next.sepaDebtorBic,
+      customerSegmentIds: serializeIdList(next.customerSegmentIds),
+      discountProductIds: serializeIdList(next.discountProductIds),
+      discountCollectionIds: serializeIdList(next.discountCollectionIds),
+      cashbackTiers: serializeCashbackTiers(next.cashbackTiers),
+      workshopCodeMode: next.workshopCodeMode,
+      codeReusePolicy: next.codeReusePolicy,
+      qualifyingProductIds: serializeIdList(next.qualifyingProductIds),
+      qualifyingCollectionIds: serializeIdList(next.qualifyingCollectionIds),
+      qualifyingProductTags: serializeIdList(next.qualifyingProductTags),
+      minimumQualifyingOrderAmount: next.minimumQualifyingOrderAmount,
+      deactivateCodesOnUninstall: next.deactivateCodesOnUninstall,
+      codeExpiryReminderDays: next.codeExpiryReminderDays,
     },
   });
 
   return next;
 }
 
+/** Boutiques dont le versement automatique est activé (hors boutiques ayant désinstallé l'app). */
+export async function listShopsWithAutoPayout() {
+  const settings = await prisma.appSetting.findMany({
+    where: { autoPayoutEnabled: true },
+    select: { shop: true },
+  });
+  const uninstalled = await prisma.shopInstallation.findMany({
+    where: { shop: { in: settings.map(({ shop }) => shop) }, uninstalledAt: { not: null } },
+    select: { shop: true },
+  });
+  const uninstalledShops = new Set(uninstalled.map(({ shop }) => shop));
+
+  return settings.map(({ shop }) => shop).filter((shop) => !uninstalledShops.has(shop));
+}
+
+/** Boutiques qui envoient un rappel avant l'expiration des codes, avec le délai choisi (hors boutiques ayant désinstallé l'app). */
+export async function listShopsWithExpiryReminders() {
+  const settings = await prisma.appSetting.findMany({
+    where: { codeExpiryReminderDays: { gt: 0 } },
+    select: { shop: true, codeExpiryReminderDays: true },
+  });
+  const uninstalled = await prisma.shopInstallation.findMany({
+    where: { shop: { in: settings.map(({ shop }) => shop) }, uninstalledAt: { not: null } },
+    select: { shop: true },
+  });
+  const uninstalledShops = new Set(uninstalled.map(({ shop }) => shop));
+
+  return settings.filter(({ shop }) => !uninstalledShops.has(shop));
+}
+
 export { DEFAULT_SETTINGS };
 
 
@@ -5,7 +5,7 @@ import { apiVersion } from "app/shopify.server";
 type GraphqlRequest = {
   query: string;
   variables?: Record<string, unknown>;
-  shopDomain?: string | null;
+  shopDomain: string;
 };
 
 export type ShopifyAdminSession = {
@@ -13,25 +13,17 @@ export type ShopifyAdminSession = {
   accessToken: string;
 };
 
-const SHOP_DOMAIN_ENV_KEYS = ["SHOPIFY_STORE_DOMAIN", "SHOPIFY_STORE_URL", "SHOPIFY_SHOP_DOMAIN"] as const;
-
-function inferShopDomain(): string | null {
-  for (const key of SHOP_DOMAIN_ENV_KEYS) {
-    const value = process.env[key];
-    if (value) return value;
-  }
-  return null;
-}
-
-export async function getAdminSession(explicitShopDomain?: string | null): Promise<ShopifyAdminSession> {
-  const shopDomain = explicitShopDomain ?? inferShopDomain();
-
+/**
+ * Session hors ligne de la boutique. Aucune boutique par défaut : l'app peut être installée
+ * sur plusieurs boutiques, le domaine vient toujours de la session admin ou du webhook.
+ */
+export async function getAdminSession(shopDomain: string): Promise<ShopifyAdminSession> {
   if (!shopDomain) {
-    throw new Error("Aucun shop Shopify n'a été trouvé. Définis SHOPIFY_STORE_DOMAIN ou passe le domaine explicitement.");
+    throw new Error("Boutique Shopify non précisée pour l'appel à l'API Admin.");
   }
 
   const session = await prisma.session.findFirst({
-    where: { shop: shopDomain },
+    where: { shop: shopDomain, isOnline: false },
   });
 
   if (!session) {
@@ -68,7 +60,7 @@ export async function callAdminGraphql<T = any>({ query, variables = {}, shopDom
   return response.json();
 }
 
-export async function fetchOrderById(orderId: string, shopDomain?: string | null) {
+export async function fetchOrderById(orderId: string, shopDomain: string) {
   const { shop, accessToken } = await getAdminSession(shopDomain);
   const endpoint = `https://${shop}/admin/api/${apiVersion}/orders/${orderId}.json`;
 
@@ -89,7 +81,7 @@ export async function fetchOrderById(orderId: string, shopDomain?: string | null
 
 export async function fetchOrdersByCustomerId(
   customerId: string,
-  shopDomain?: string | null,
+  shopDomain: string,
   opts?: { limit?: number },
 ) {
   const { shop, accessToken } = await getAdminSession(shopDomain);
@@ -111,7 +103,7 @@ export async function fetchOrdersByCustomerId(
   return response.json();
 }
 
-export async function getOrderTransactionParentId(orderGid: string, shopDomain?: string | null): Promise<string | null> {
+export async function getOrderTransactionParentId(orderGid: string, shopDomain: string): Promise<string | null> {
   const query = `
     query GetOrderTransactions($orderId: ID!) {
       order(id: $orderId) {
@@ -152,7 +144,7 @@ export async function getOrderTransactionParentId(orderGid: string, shopDomain?:
   }
 }
 
-export async function getOrderTotalAmount(orderGid: string, shopDomain?: string | null): Promise<number | null> {
+export async function getOrderTotalAmount(orderGid: string, shopDomain: string): Promise<number | null> {
   const query = `
     query GetOrderTotal($orderId: ID!) {
       order(id: $orderId) {
@@ -49,7 +49,7 @@ export type StatisticsData = {
 /**
  * Récupère les statistiques complètes pour la page de statistiques
  */
-export async function getStatisticsData(days: number = 30): Promise<StatisticsData> {
+export async function getStatisticsData(shopDomain: string, days: number = 30): Promise<StatisticsData> {
   const startDate = new Date();
   startDate.setDate(startDate.getDate() - days);
   
@@ -69,18 +69,22 @@ export async function getStatisticsData(days: number = 30): Promise<StatisticsDa
     allCodes,
   ] = await Promise.all([
     prisma.referrer.findMany({
+      where: { shop: shopDomain },
       select: { createdAt: true },
       orderBy: { createdAt: "asc" },
     }),
     prisma.referral.findMany({
+      where: { shop: shopDomain },
       select: { createdAt: true },
       orderBy: { createdAt: "asc" },
     }),
     prisma.reward.findMany({
+      where: { shop: shopDomain },
       select: { createdAt: true, amount: true, status: true },
       orderBy: { createdAt: "asc" },
     }),
     prisma.code.findMany({
+      where: { shop: shopDomain },
       select: { createdAt: true, usageCount: true },
       orderBy: { createdAt: "asc" },
     }),
@@ -139,6 +143,7 @@ export async function getStatisticsData(days: number = 30): Promise<StatisticsDa
   
   // Top parrains
   const referrersWithStats = await prisma.referrer.findMany({
+    where: { shop: shopDomain },
     include: {
       referrals: true,
       rewards: true,
@@ -0,0 +1,104 @@
+import { callAdminGraphql } from "./shopifyAdmin.server";
+
+const STORE_CREDIT_MUTATION = /* GraphQL */ `
+mutation CreditReferrerStoreCredit($id: ID!, $creditInput: StoreCreditAccountCreditInput!) {
+  storeCreditAccountCredit(id: $id, creditInput: $creditInput) {
+    storeCreditAccountTransaction {
+      id
+      amount {
+        amount
+        currencyCode
+      }
+      account {
+        id
+        balance {
+          amount
+          currencyCode
+        }
+      }
+    }
+    userErrors {
+      field
+      message
+    }
+  }
+}
+`;
+
+type StoreCreditParams = {
+  shopifyCustomerId: string;
+  amount: number;
+  currency: string;
+  shopDomain: string;
+};
+
+export type StoreCreditTransaction = {
+  id: string;
+  amount: { amount: string; currencyCode: string };
+  account: {
+    id: string;
+    balance: { amount: string; currencyCode: string };
+  };
+};
+
+export function toCustomerGid(shopifyCustomerId: string) {
+  return shopifyCustomerId.startsWith("gid://")
+    ? shopifyCustomerId
+    : `gid://shopify/Customer/${shopifyCustomerId}`;
+}
+
+/**
+ * Crédite le compte store credit Shopify du parrain.
+ * Passer l'ID client (et non l'ID du compte) laisse Shopify créer le compte
+ * dans la devise demandée s'il n'existe pas encore.
+ */
+export async function creditStoreCreditAccount({
+  shopifyCustomerId,
+  amount,
+  currency,
+  shopDomain,
+}: StoreCreditParams): Promise<StoreCreditTransaction> {
+  const response = await callAdminGraphql<{ data?: any; errors?: any[] }>({
+    query: STORE_CREDIT_MUTATION,
+    variables: {
+      id: toCustomerGid(shopifyCustomerId),
+      creditInput: {
+        creditAmount: {
+          amount: amount.toFixed(2),
+          currencyCode: currency,
+        },
+      },
+    },
+    shopDomain,
+  });
+
+  if (response.errors?.length) {
+    throw new Error(
+      `Erreur GraphQL Shopify (storeCreditAccountCredit): ${JSON.stringify(response.errors)}`,
+    );
+  }
+
+  const payload = response.data?.storeCreditAccountCredit;
+
+  if (!payload) {
+    throw new Error("Réponse inattendue de Shopify lors du crédit store credit");
+  }
+
+  if (payload.userErrors?.length) {
+    throw new Error(
+      `Erreurs Shopify (storeCreditAccountCredit): ${JSON.stringify(payload.userErrors)}`,
+    );
+  }
+
+  const transaction = payload.storeCreditAccountTransaction as StoreCreditTransaction | null;
+
+  if (!transaction) {
+    throw new Error("Shopify n'a retourné aucune transaction store credit");
+  }
+
+  console.log(
+    `✅ Store credit de ${transaction.amount.amount} ${transaction.amount.currencyCode} crédité (${transaction.id})`,
+  );
+
+  return transaction;
+}
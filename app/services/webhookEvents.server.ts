@@ -0,0 +1,109 @@
+import { Prisma, WebhookEventStatus } from "@prisma/client";
+import prisma from "app/db.server";
+
+type ClaimWebhookEventParams = {
+  webhookId: string;
+  topic: string;
+  shop: string;
+  resourceId?: string | null;
+};
+
+export type ClaimWebhookEventResult = {
+  eventId: string;
+  shouldProcess: boolean;
+  status: WebhookEventStatus;
+};
+
+// Un webhook resté RECEIVED plus longtemps que ça est considéré comme abandonné
+// (process arrêté ou timeout pendant le traitement), comme les jobs RUNNING.
+const STALE_CLAIM_MS = 15 * 60 * 1000;
+
+function isUniqueConstraintError(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+/**
+ * Enregistre la réception d'un webhook Shopify (clé : X-Shopify-Webhook-Id).
+ * Un webhook déjà reçu n'est retraité que si la tentative précédente a échoué
+ * ou a été abandonnée en cours de route, ce qui rend les retries Shopify sans effet de bord.
+ */
+export async function claimWebhookEvent({
+  webhookId,
+  topic,
+  shop,
+  resourceId,
+}: ClaimWebhookEventParams): Promise<ClaimWebhookEventResult> {
+  try {
+    const created = await prisma.webhookEvent.create({
+      data: {
+        webhookId,
+        topic,
+        shop,
+        resourceId: resourceId ?? undefined,
+      },
+    });
+
+    return { eventId: created.id, shouldProcess: true, status: created.status };
+  } catch (error) {
+    if (!isUniqueConstraintError(error)) {
+      throw error;
+    }
+  }
+
+  const existing = await prisma.webhookEvent.findUnique({ where: { webhookId } });
+
+  if (!existing) {
+    throw new Error(`Webhook ${webhookId} introuvable après conflit d'unicité.`);
+  }
+
+  const staleBefore = new Date(Date.now() - STALE_CLAIM_MS);
+  const isStale = existing.status === WebhookEventStatus.RECEIVED && existing.claimedAt < staleBefore;
+
+  if (existing.status !== WebhookEventStatus.FAILED && !isStale) {
+    return { eventId: existing.id, shouldProcess: false, status: existing.status };
+  }
+
+  // On ne reprend un webhook en échec ou abandonné que si personne ne l'a réclamé entre-temps
+  const reclaimed = await prisma.webhookEvent.updateMany({
+    where: {
+      id: existing.id,
+      OR: [
+        { status: WebhookEventStatus.FAILED },
+        { status: WebhookEventStatus.RECEIVED, claimedAt: { lt: staleBefore } },
+      ],
+    },
+    data: {
+      status: WebhookEventStatus.RECEIVED,
+      attempts: { increment: 1 },
+      errorMessage: null,
+      claimedAt: new Date(),
+    },
+  });
+
+  return {
+    eventId: existing.id,
+    shouldProcess: reclaimed.count > 0,
+    status: reclaimed.count > 0 ? WebhookEventStatus.RECEIVED : existing.status,
+  };
+}
+
+export async function markWebhookEventProcessed(eventId: string) {
+  return prisma.webhookEvent.update({
+    where: { id: eventId },
+    data: {
+      status: WebhookEventStatus.PROCESSED,
+      processedAt: new Date(),
+      errorMessage: null,
+    },
+  });
+}
+
+export async function markWebhookEventFailed(eventId: string, error: unknown) {
+  return prisma.webhookEvent.update({
+    where: { id: eventId },
+    data: {
+      status: WebhookEventStatus.FAILED,
+      errorMessage: error instanceof Error ? error.message : String(error),
+    },
+  });
+}
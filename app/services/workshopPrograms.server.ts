@@ -0,0 +1,48 @@
+import type { WorkshopProgram } from "@prisma/client";
+import prisma from "app/db.server";
+
+export type WorkshopProgramInput = {
+  productId: string;
+  productTitle?: string | null;
+  /** null : paramètre global. */
+  discountPercentage: number | null;
+  cashbackAmount: number | null;
+  codeValidityDays: number | null;
+  generatesCodes: boolean;
+};
+
+export async function getWorkshopProgram(shopDomain: string, productId: string) {
+  return prisma.workshopProgram.findUnique({ where: { shop_productId: { shop: shopDomain, productId } } });
+}
+
+export async function listWorkshopPrograms(shopDomain: string): Promise<WorkshopProgram[]> {
+  return prisma.workshopProgram.findMany({ where: { shop: shopDomain }, orderBy: { productTitle: "asc" } });
+}
+
+/**
+ * Enregistre le programme de parrainage d'un workshop (produit Shopify).
+ * Les codes déjà émis gardent leurs conditions jusqu'à leur prochaine synchronisation.
+ */
+export async function upsertWorkshopProgram(
+  shopDomain: string,
+  { productId, productTitle, ...overrides }: WorkshopProgramInput,
+) {
+  const program = await prisma.workshopProgram.upsert({
+    where: { shop_productId: { shop: shopDomain, productId } },
+    create: { shop: shopDomain, productId, productTitle: productTitle ?? null, ...overrides },
+    update: { ...(productTitle ? { productTitle } : {}), ...overrides },
+  });
+
+  console.log(`✅ Programme de parrainage enregistré pour le workshop ${program.productTitle ?? productId}`);
+
+  return program;
+}
+
+/** Le workshop revient aux paramètres globaux. */
+export async function deleteWorkshopProgram(shopDomain: string, productId: string) {
+  const { count } = await prisma.workshopProgram.deleteMany({ where: { shop: shopDomain, productId } });
+
+  if (count > 0) {
+    console.log(`ℹ️ Programme de parrainage supprimé pour le workshop ${productId}, paramètres globaux rétablis`);
+  }
+}
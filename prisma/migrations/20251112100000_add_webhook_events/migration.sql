@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."WebhookEventStatus" AS ENUM ('RECEIVED', 'PROCESSED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "public"."WebhookEvent" (
+    "id" TEXT NOT NULL,
+    "webhookId" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "resourceId" TEXT,
+    "status" "public"."WebhookEventStatus" NOT NULL DEFAULT 'RECEIVED',
+    "attempts" INTEGER NOT NULL DEFAULT 1,
+    "errorMessage" TEXT,
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "processedAt" TIMESTAMP(3),
+
+    CONSTRAINT "WebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WebhookEvent_webhookId_key" ON "public"."WebhookEvent"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "WebhookEvent_topic_resourceId_idx" ON "public"."WebhookEvent"("topic", "resourceId");
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "public"."RewardStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "public"."Referral" ADD COLUMN     "voidReason" TEXT,
+ADD COLUMN     "voidedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "recoveryRequiredAt" TIMESTAMP(3);
@@ -0,0 +1,27 @@
+-- AlterEnum
+ALTER TYPE "public"."RewardStatus" ADD VALUE 'APPROVED';
+ALTER TYPE "public"."RewardStatus" ADD VALUE 'ON_HOLD';
+
+-- CreateTable
+CREATE TABLE "public"."RewardTransition" (
+    "id" TEXT NOT NULL,
+    "rewardId" TEXT NOT NULL,
+    "fromStatus" "public"."RewardStatus",
+    "toStatus" "public"."RewardStatus" NOT NULL,
+    "reason" TEXT,
+    "actor" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RewardTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RewardTransition_rewardId_createdAt_idx" ON "public"."RewardTransition"("rewardId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."RewardTransition" ADD CONSTRAINT "RewardTransition_rewardId_fkey" FOREIGN KEY ("rewardId") REFERENCES "public"."Reward"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Historique initial des récompenses existantes
+INSERT INTO "public"."RewardTransition" ("id", "rewardId", "fromStatus", "toStatus", "reason", "actor", "createdAt")
+SELECT 'init_' || "id", "id", NULL, "status", 'Statut existant avant l''historique des transitions', 'system', "createdAt"
+FROM "public"."Reward";
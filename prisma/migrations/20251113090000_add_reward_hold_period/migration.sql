@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "rewardHoldDays" INTEGER NOT NULL DEFAULT 14;
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "payableAt" TIMESTAMP(3);
+
+-- Les récompenses existantes restent payables immédiatement
+UPDATE "public"."Reward" SET "payableAt" = "createdAt" WHERE "payableAt" IS NULL;
@@ -0,0 +1,32 @@
+-- CreateEnum
+CREATE TYPE "public"."PayoutTrigger" AS ENUM ('SCHEDULED', 'MANUAL');
+
+-- CreateEnum
+CREATE TYPE "public"."PayoutBatchStatus" AS ENUM ('RUNNING', 'COMPLETED', 'FAILED');
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "autoPayoutEnabled" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "payoutBatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."PayoutBatch" (
+    "id" TEXT NOT NULL,
+    "trigger" "public"."PayoutTrigger" NOT NULL,
+    "status" "public"."PayoutBatchStatus" NOT NULL DEFAULT 'RUNNING',
+    "totalCount" INTEGER NOT NULL DEFAULT 0,
+    "paidCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "skippedCount" INTEGER NOT NULL DEFAULT 0,
+    "paidAmount" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "report" JSONB,
+    "errorMessage" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "PayoutBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "public"."Reward" ADD CONSTRAINT "Reward_payoutBatchId_fkey" FOREIGN KEY ("payoutBatchId") REFERENCES "public"."PayoutBatch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
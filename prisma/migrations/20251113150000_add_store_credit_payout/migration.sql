@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "public"."PayoutMethod" AS ENUM ('ORDER_REFUND', 'STORE_CREDIT');
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "defaultPayoutMethod" "public"."PayoutMethod" NOT NULL DEFAULT 'ORDER_REFUND';
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "payoutMethod" "public"."PayoutMethod",
+ADD COLUMN     "payoutReference" TEXT;
+
+-- Les récompenses déjà payées l'ont été par refund de commande
+UPDATE "public"."Reward" SET "payoutMethod" = 'ORDER_REFUND' WHERE "status" = 'PAID';
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."PayoutMethod" ADD VALUE 'GIFT_CARD';
+
+-- AlterEnum
+ALTER TYPE "public"."EmailTemplateType" ADD VALUE 'GIFT_CARD_REWARD';
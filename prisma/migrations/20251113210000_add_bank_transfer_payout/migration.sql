@@ -0,0 +1,26 @@
+-- AlterEnum
+ALTER TYPE "public"."PayoutMethod" ADD VALUE 'BANK_TRANSFER';
+
+-- AlterEnum
+ALTER TYPE "public"."PayoutTrigger" ADD VALUE 'BANK_TRANSFER';
+
+-- AlterEnum
+ALTER TYPE "public"."PayoutBatchStatus" ADD VALUE 'AWAITING_CONFIRMATION';
+ALTER TYPE "public"."PayoutBatchStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "public"."Referrer" ADD COLUMN     "iban" TEXT,
+ADD COLUMN     "bic" TEXT,
+ADD COLUMN     "bankAccountHolder" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."PayoutBatch" ADD COLUMN     "sepaMessageId" TEXT,
+ADD COLUMN     "confirmedBy" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "sepaDebtorName" TEXT,
+ADD COLUMN     "sepaDebtorIban" TEXT,
+ADD COLUMN     "sepaDebtorBic" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutBatch_sepaMessageId_key" ON "public"."PayoutBatch"("sepaMessageId");
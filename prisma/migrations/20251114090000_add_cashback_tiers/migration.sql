@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "referralRank" INTEGER,
+ADD COLUMN     "tierMinReferrals" INTEGER,
+ADD COLUMN     "tierMaxReferrals" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "cashbackTiers" TEXT;
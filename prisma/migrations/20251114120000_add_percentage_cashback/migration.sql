@@ -0,0 +1,17 @@
+-- CreateEnum
+CREATE TYPE "public"."CashbackMode" AS ENUM ('FIXED', 'PERCENTAGE');
+
+-- AlterTable
+ALTER TABLE "public"."Code" ADD COLUMN     "cashbackMode" "public"."CashbackMode" NOT NULL DEFAULT 'FIXED',
+ADD COLUMN     "cashbackMinSnapshot" DOUBLE PRECISION,
+ADD COLUMN     "cashbackMaxSnapshot" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "orderSubtotal" DOUBLE PRECISION,
+ADD COLUMN     "cashbackPercentage" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "cashbackMode" "public"."CashbackMode" NOT NULL DEFAULT 'FIXED',
+ADD COLUMN     "cashbackPercentage" DOUBLE PRECISION NOT NULL DEFAULT 0.1,
+ADD COLUMN     "cashbackMinAmount" DOUBLE PRECISION,
+ADD COLUMN     "cashbackMaxAmount" DOUBLE PRECISION;
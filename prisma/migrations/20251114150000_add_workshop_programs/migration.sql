@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."WorkshopProgram" (
+    "id" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "discountPercentage" DOUBLE PRECISION,
+    "cashbackAmount" DOUBLE PRECISION,
+    "codeValidityDays" INTEGER,
+    "generatesCodes" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkshopProgram_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkshopProgram_productId_key" ON "public"."WorkshopProgram"("productId");
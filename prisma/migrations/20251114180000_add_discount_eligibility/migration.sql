@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "discountProductIds" TEXT,
+ADD COLUMN     "discountCollectionIds" TEXT;
@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "public"."ReferralRejectionReason" AS ENUM ('RETURNING_CUSTOMER');
+
+-- CreateTable
+CREATE TABLE "public"."ReferralRejection" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "referrerId" TEXT NOT NULL,
+    "codeId" TEXT NOT NULL,
+    "refereeShopifyCustomerId" TEXT,
+    "refereeEmail" TEXT,
+    "reason" "public"."ReferralRejectionReason" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ReferralRejection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ReferralRejection_orderId_key" ON "public"."ReferralRejection"("orderId");
+
+-- CreateIndex
+CREATE INDEX "ReferralRejection_referrerId_createdAt_idx" ON "public"."ReferralRejection"("referrerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."ReferralRejection" ADD CONSTRAINT "ReferralRejection_referrerId_fkey" FOREIGN KEY ("referrerId") REFERENCES "public"."Referrer"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ReferralRejection" ADD CONSTRAINT "ReferralRejection_codeId_fkey" FOREIGN KEY ("codeId") REFERENCES "public"."Code"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
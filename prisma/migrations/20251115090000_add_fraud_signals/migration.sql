@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "public"."FraudSignalType" AS ENUM ('SAME_CUSTOMER', 'SAME_EMAIL', 'SAME_PHONE', 'SAME_SHIPPING_ADDRESS', 'SAME_BILLING_ADDRESS');
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "fraudScore" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."FraudSignal" (
+    "id" TEXT NOT NULL,
+    "rewardId" TEXT NOT NULL,
+    "type" "public"."FraudSignalType" NOT NULL,
+    "score" INTEGER NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "FraudSignal_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "FraudSignal_rewardId_idx" ON "public"."FraudSignal"("rewardId");
+
+-- AddForeignKey
+ALTER TABLE "public"."FraudSignal" ADD CONSTRAINT "FraudSignal_rewardId_fkey" FOREIGN KEY ("rewardId") REFERENCES "public"."Reward"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateEnum
+CREATE TYPE "public"."IgnoredDiscountCodeReason" AS ENUM ('NOT_A_REFERRAL_CODE', 'ADDITIONAL_REFERRAL_CODE');
+
+-- CreateTable
+CREATE TABLE "public"."IgnoredDiscountCode" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "discountCode" TEXT NOT NULL,
+    "codeId" TEXT,
+    "reason" "public"."IgnoredDiscountCodeReason" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "IgnoredDiscountCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IgnoredDiscountCode_orderId_discountCode_key" ON "public"."IgnoredDiscountCode"("orderId", "discountCode");
+
+-- AddForeignKey
+ALTER TABLE "public"."IgnoredDiscountCode" ADD CONSTRAINT "IgnoredDiscountCode_codeId_fkey" FOREIGN KEY ("codeId") REFERENCES "public"."Code"("id") ON DELETE SET NULL ON UPDATE CASCADE;
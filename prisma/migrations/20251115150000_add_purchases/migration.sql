@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "public"."WorkshopCodeMode" AS ENUM ('SINGLE_CODE', 'PER_WORKSHOP');
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "workshopCodeMode" "public"."WorkshopCodeMode" NOT NULL DEFAULT 'SINGLE_CODE';
+
+-- CreateTable
+CREATE TABLE "public"."Purchase" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "productTitle" TEXT,
+    "variantId" TEXT,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "codeId" TEXT,
+    "referralId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Purchase_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Purchase_orderId_productId_key" ON "public"."Purchase"("orderId", "productId");
+
+-- CreateIndex
+CREATE INDEX "Purchase_codeId_idx" ON "public"."Purchase"("codeId");
+
+-- CreateIndex
+CREATE INDEX "Purchase_referralId_idx" ON "public"."Purchase"("referralId");
+
+-- AddForeignKey
+ALTER TABLE "public"."Purchase" ADD CONSTRAINT "Purchase_codeId_fkey" FOREIGN KEY ("codeId") REFERENCES "public"."Code"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Purchase" ADD CONSTRAINT "Purchase_referralId_fkey" FOREIGN KEY ("referralId") REFERENCES "public"."Referral"("id") ON DELETE SET NULL ON UPDATE CASCADE;
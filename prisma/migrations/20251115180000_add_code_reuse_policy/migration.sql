@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "public"."CodeReusePolicy" AS ENUM ('KEEP_EXISTING', 'NEW_CODE_PER_PURCHASE', 'EXTEND_EXISTING');
+
+-- CreateEnum
+CREATE TYPE "public"."PurchaseCodeAction" AS ENUM ('CREATED', 'REUSED', 'EXTENDED');
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "codeReusePolicy" "public"."CodeReusePolicy" NOT NULL DEFAULT 'EXTEND_EXISTING';
+
+-- AlterTable
+ALTER TABLE "public"."Purchase" ADD COLUMN     "codeAction" "public"."PurchaseCodeAction";
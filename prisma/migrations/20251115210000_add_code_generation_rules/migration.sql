@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."CodeGenerationSkipReason" AS ENUM ('NO_QUALIFYING_PRODUCT', 'BELOW_MINIMUM_ORDER_AMOUNT');
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "minimumQualifyingOrderAmount" DOUBLE PRECISION,
+ADD COLUMN     "qualifyingCollectionIds" TEXT,
+ADD COLUMN     "qualifyingProductIds" TEXT,
+ADD COLUMN     "qualifyingProductTags" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."CodeGenerationSkip" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "shopifyCustomerId" TEXT,
+    "email" TEXT,
+    "reason" "public"."CodeGenerationSkipReason" NOT NULL,
+    "details" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CodeGenerationSkip_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CodeGenerationSkip_orderId_key" ON "public"."CodeGenerationSkip"("orderId");
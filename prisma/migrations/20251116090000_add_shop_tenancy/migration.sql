@@ -0,0 +1,135 @@
+-- Les données existantes appartiennent à la boutique déjà installée. Son domaine est fourni
+-- explicitement par le paramètre Postgres `app.shop_domain`, à définir avant `prisma migrate deploy` :
+--   ALTER DATABASE "<base>" SET app.shop_domain = 'ma-boutique.myshopify.com';
+-- Une base vide n'en a pas besoin. Sans ce paramètre, la migration échoue sans rien modifier :
+-- le définir, puis `prisma migrate resolve --rolled-back 20251116090000_add_shop_tenancy` et relancer.
+
+CREATE TEMP TABLE "_TenancyShop" AS
+SELECT NULLIF(current_setting('app.shop_domain', true), '') AS "shop";
+
+DO $$
+BEGIN
+  IF (SELECT "shop" FROM "_TenancyShop") IS NULL AND (
+    EXISTS (SELECT 1 FROM "public"."Referrer")
+    OR EXISTS (SELECT 1 FROM "public"."Code")
+    OR EXISTS (SELECT 1 FROM "public"."Referral")
+    OR EXISTS (SELECT 1 FROM "public"."Purchase")
+    OR EXISTS (SELECT 1 FROM "public"."CodeGenerationSkip")
+    OR EXISTS (SELECT 1 FROM "public"."ReferralRejection")
+    OR EXISTS (SELECT 1 FROM "public"."IgnoredDiscountCode")
+    OR EXISTS (SELECT 1 FROM "public"."Reward")
+    OR EXISTS (SELECT 1 FROM "public"."PayoutBatch")
+    OR EXISTS (SELECT 1 FROM "public"."WorkshopProgram")
+    OR EXISTS (SELECT 1 FROM "public"."AppSetting")
+    OR EXISTS (SELECT 1 FROM "public"."EmailTemplate")
+    OR EXISTS (SELECT 1 FROM "public"."EmailLog")
+  ) THEN
+    RAISE EXCEPTION 'Migration add_shop_tenancy : boutique des données existantes inconnue. Définir app.shop_domain (ALTER DATABASE "<base>" SET app.shop_domain = ''ma-boutique.myshopify.com'') puis relancer la migration.';
+  END IF;
+END $$;
+
+-- AlterTable
+ALTER TABLE "public"."Referrer" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."Referrer" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."Referrer" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Code" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."Code" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."Code" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Referral" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."Referral" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."Referral" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Purchase" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."Purchase" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."Purchase" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."CodeGenerationSkip" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."CodeGenerationSkip" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."CodeGenerationSkip" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."ReferralRejection" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."ReferralRejection" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."ReferralRejection" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."IgnoredDiscountCode" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."IgnoredDiscountCode" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."IgnoredDiscountCode" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."Reward" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."Reward" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."PayoutBatch" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."PayoutBatch" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."PayoutBatch" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."WorkshopProgram" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."WorkshopProgram" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."WorkshopProgram" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."AppSetting" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."AppSetting" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."EmailTemplate" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."EmailTemplate" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."EmailTemplate" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."EmailLog" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."EmailLog" SET "shop" = (SELECT "shop" FROM "_TenancyShop");
+ALTER TABLE "public"."EmailLog" ALTER COLUMN "shop" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "public"."Job" ADD COLUMN     "shop" TEXT;
+UPDATE "public"."Job" SET "shop" = "payload"->>'shopDomain' WHERE "type" <> 'AUTO_PAYOUT';
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" DROP CONSTRAINT "AppSetting_pkey",
+DROP COLUMN "id",
+ADD CONSTRAINT "AppSetting_pkey" PRIMARY KEY ("shop");
+
+-- DropIndex
+DROP INDEX "public"."Referrer_shopifyCustomerId_key";
+
+-- DropIndex
+DROP INDEX "public"."Code_code_key";
+
+-- DropIndex
+DROP INDEX "public"."WorkshopProgram_productId_key";
+
+-- DropIndex
+DROP INDEX "public"."EmailTemplate_type_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Referrer_shop_shopifyCustomerId_key" ON "public"."Referrer"("shop", "shopifyCustomerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Code_shop_code_key" ON "public"."Code"("shop", "code");
+
+-- CreateIndex
+CREATE INDEX "Referral_shop_createdAt_idx" ON "public"."Referral"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "Reward_shop_status_idx" ON "public"."Reward"("shop", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkshopProgram_shop_productId_key" ON "public"."WorkshopProgram"("shop", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EmailTemplate_shop_type_key" ON "public"."EmailTemplate"("shop", "type");
+
+DROP TABLE "_TenancyShop";
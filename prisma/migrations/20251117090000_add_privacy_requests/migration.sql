@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "public"."PrivacyRequestTopic" AS ENUM ('CUSTOMER_DATA_REQUEST', 'CUSTOMER_REDACT', 'SHOP_REDACT');
+
+-- AlterTable
+ALTER TABLE "public"."Referrer" ADD COLUMN     "redactedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "public"."Referral" ADD COLUMN     "redactedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "public"."PrivacyRequest" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "topic" "public"."PrivacyRequestTopic" NOT NULL,
+    "shopifyCustomerId" TEXT,
+    "email" TEXT,
+    "orderIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "dataRequestId" TEXT,
+    "exportData" JSONB,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PrivacyRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PrivacyRequest_shop_createdAt_idx" ON "public"."PrivacyRequest"("shop", "createdAt");
@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "public"."IgnoredDiscountCodeReason" ADD VALUE 'INACTIVE_REFERRAL_CODE';
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "deactivateCodesOnUninstall" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "public"."ShopInstallation" (
+    "shop" TEXT NOT NULL,
+    "installedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "uninstalledAt" TIMESTAMP(3),
+    "reinstalledAt" TIMESTAMP(3),
+    "discountResyncPending" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ShopInstallation_pkey" PRIMARY KEY ("shop")
+);
+
+-- Boutiques déjà installées
+INSERT INTO "public"."ShopInstallation" ("shop", "updatedAt")
+SELECT DISTINCT "shop", CURRENT_TIMESTAMP FROM "public"."Session";
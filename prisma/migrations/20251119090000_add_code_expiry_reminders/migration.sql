@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "public"."EmailTemplateType" ADD VALUE 'CODE_EXPIRY_REMINDER';
+
+-- AlterTable
+ALTER TABLE "public"."AppSetting" ADD COLUMN     "codeExpiryReminderDays" INTEGER NOT NULL DEFAULT 7;
+
+-- AlterTable
+ALTER TABLE "public"."Code" ADD COLUMN     "expiryReminderSentAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."WebhookEvent" ADD COLUMN     "claimedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Les événements existants sont considérés comme réclamés à leur réception
+UPDATE "public"."WebhookEvent" SET "claimedAt" = "receivedAt";
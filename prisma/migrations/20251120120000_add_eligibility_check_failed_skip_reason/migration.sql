@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "public"."CodeGenerationSkipReason" ADD VALUE 'ELIGIBILITY_CHECK_FAILED';
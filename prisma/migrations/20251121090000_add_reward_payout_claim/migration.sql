@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Reward" ADD COLUMN     "payoutClaimedAt" TIMESTAMP(3);
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."PayoutBatch" ADD COLUMN     "runningShop" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PayoutBatch_runningShop_key" ON "public"."PayoutBatch"("runningShop");
@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "public"."VoidedOrder" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "productIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "VoidedOrder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "VoidedOrder_shop_orderId_idx" ON "public"."VoidedOrder"("shop", "orderId");